@@ -0,0 +1,90 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ACTIVITY_FILE, appendActivity, diffCards, readActivity } from './activity.js';
+import type { ActivityEvent } from './activity.js';
+import { createDirectoryStore } from './store.js';
+import type { BoardStore } from './store.js';
+import type { Card } from './types.js';
+
+function makeCard(overrides: Partial<Card> = {}): Card {
+  return {
+    id: 'task',
+    title: 'Task',
+    priority: 'medium',
+    labels: [],
+    created: '2026-10-01T10:00:00.000Z',
+    description: '',
+    checklist: [],
+    column: 'todo',
+    ...overrides,
+  };
+}
+
+function event(card: string, action: ActivityEvent['action'], changes = {}): ActivityEvent {
+  return { time: '2026-10-19T10:00:00.000Z', actor: 'alice', action, card, changes };
+}
+
+describe('diffCards', () => {
+  test('reports only tracked fields that changed', () => {
+    const before = makeCard({ updated: '2026-10-02T00:00:00.000Z', revision: 'aaa' });
+    const after = makeCard({ column: 'done', labels: ['x'], revision: 'bbb' });
+    expect(diffCards(before, after)).toEqual({
+      column: { from: 'todo', to: 'done' },
+      labels: { from: [], to: ['x'] },
+    });
+  });
+
+  test('skips empty values for added and deleted cards', () => {
+    expect(Object.keys(diffCards(null, makeCard()))).toEqual(['id', 'title', 'column', 'priority']);
+    expect(diffCards(makeCard(), null).column).toEqual({ from: 'todo', to: undefined });
+  });
+});
+
+describe('readActivity', () => {
+  let dir: string;
+  let store: BoardStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kanmd-activity-'));
+    store = createDirectoryStore(dir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('returns nothing when there is no log', async () => {
+    expect(await readActivity(store)).toEqual([]);
+  });
+
+  test('skips lines that are not events', async () => {
+    await appendActivity(store, event('a', 'add'));
+    await fs.appendFile(path.join(dir, ACTIVITY_FILE), '<<<<<<< HEAD\n{"card": 1}\n');
+    await appendActivity(store, event('b', 'add'));
+
+    expect((await readActivity(store)).map((e) => e.card)).toEqual(['a', 'b']);
+  });
+
+  test('follows a card back through renames', async () => {
+    await appendActivity(store, event('old', 'add'));
+    await appendActivity(store, event('other', 'add'));
+    await appendActivity(store, event('new', 'rename', { id: { from: 'old', to: 'new' } }));
+    await appendActivity(store, event('new', 'move'));
+
+    const history = await readActivity(store, { card: 'new' });
+    expect(history.map((e) => `${e.action}:${e.card}`)).toEqual([
+      'add:old',
+      'rename:new',
+      'move:new',
+    ]);
+  });
+
+  test('limit keeps the most recent events', async () => {
+    for (const id of ['a', 'b', 'c']) {
+      await appendActivity(store, event(id, 'add'));
+    }
+    expect((await readActivity(store, { limit: 2 })).map((e) => e.card)).toEqual(['b', 'c']);
+  });
+});
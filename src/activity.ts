@@ -0,0 +1,158 @@
+import type { BoardStore } from './store.js';
+import type { Card } from './types.js';
+
+/** Not ".log": that extension is commonly gitignored, and the log belongs with the board */
+export const ACTIVITY_FILE = 'activity.jsonl';
+
+export type ActivityAction =
+  | 'add'
+  | 'move'
+  | 'edit'
+  | 'rank'
+  | 'checklist'
+  | 'delete'
+  | 'rename'
+  | 'link'
+  | 'unlink'
+  | 'assign'
+  | 'unassign'
+  | 'claim'
+  | 'renew'
+  | 'release'
+  | 'undo'
+  | 'redo'
+  | 'sync'
+  | 'import';
+
+export interface FieldChange {
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface ActivityEvent {
+  time: string;
+  actor: string;
+  action: ActivityAction;
+  card: string;
+  changes: Record<string, FieldChange>;
+}
+
+export interface ActivityQuery {
+  /** Only events for this card, following it back through renames */
+  card?: string;
+  /** Keep only the most recent N events */
+  limit?: number;
+}
+
+// Bookkeeping fields (updated, revision, ...) are left out; they change on every write
+const TRACKED_FIELDS = [
+  'id',
+  'title',
+  'column',
+  'priority',
+  'labels',
+  'description',
+  'checklist',
+  'rank',
+  'due',
+  'assignees',
+  'blockedBy',
+  'parent',
+  'lease',
+] as const;
+
+/**
+ * Lists the tracked fields that differ between two versions of a card. A null
+ * `before` is a new card; a null `after` is a deleted one.
+ */
+export function diffCards(before: Card | null, after: Card | null): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+
+  for (const field of TRACKED_FIELDS) {
+    const from = before?.[field];
+    const to = after?.[field];
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+    // Empty values carry no information in add/delete events
+    if (!before && isEmpty(to)) continue;
+    if (!after && isEmpty(from)) continue;
+
+    changes[field] = { from, to };
+  }
+
+  return changes;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Appends one event as a JSON line. Appends of a single short line don't
+ * interleave, so concurrent writers can share the file.
+ */
+export async function appendActivity(store: BoardStore, event: ActivityEvent): Promise<void> {
+  await store.append(ACTIVITY_FILE, JSON.stringify(event) + '\n');
+}
+
+function isActivityEvent(value: unknown): value is ActivityEvent {
+  const event = value as ActivityEvent;
+  return (
+    typeof event === 'object' &&
+    event !== null &&
+    typeof event.time === 'string' &&
+    typeof event.action === 'string' &&
+    typeof event.card === 'string'
+  );
+}
+
+/**
+ * Reads events oldest first. Lines that aren't valid events (e.g. a merge
+ * conflict marker) are skipped rather than failing the whole read.
+ */
+export async function readActivity(
+  store: BoardStore,
+  query: ActivityQuery = {}
+): Promise<ActivityEvent[]> {
+  const content = await store.read(ACTIVITY_FILE);
+  if (content === null) return [];
+
+  let events: ActivityEvent[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const parsed: unknown = JSON.parse(line);
+      if (isActivityEvent(parsed)) {
+        events.push({ ...parsed, changes: parsed.changes || {} });
+      }
+    } catch {
+      // Not JSON, skip
+    }
+  }
+
+  if (query.card) {
+    events = cardTimeline(events, query.card);
+  }
+  if (query.limit !== undefined) {
+    events = events.slice(-query.limit);
+  }
+  return events;
+}
+
+/**
+ * Picks out one card's events, switching to its previous ID at each rename.
+ */
+function cardTimeline(events: ActivityEvent[], cardId: string): ActivityEvent[] {
+  const timeline: ActivityEvent[] = [];
+  let id = cardId;
+
+  for (let i = events.length - 1; i >= 0; i--) {
+    const event = events[i];
+    if (event.card !== id) continue;
+    timeline.push(event);
+    if (event.action === 'rename' && typeof event.changes.id?.from === 'string') {
+      id = event.changes.id.from;
+    }
+  }
+
+  return timeline.reverse();
+}
@@ -0,0 +1,404 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  boardFileContent,
+  createBoardFileStore,
+  formatBoardFile,
+  parseBoardFile,
+  planSync,
+} from './boardfile.js';
+import { parseCard, serializeCard } from './card.js';
+import {
+  addCard,
+  editCard,
+  loadBoard,
+  moveCard,
+  renameColumn,
+  syncBoardFile,
+  undo,
+  withBoardContext,
+} from './files.js';
+import { createMemoryStore } from './store.js';
+import type { Card } from './types.js';
+
+function makeCard(overrides: Partial<Card> = {}): Card {
+  return {
+    id: 'fix-login',
+    title: 'Fix login',
+    priority: 'medium',
+    labels: [],
+    created: '2026-10-01T10:00:00.000Z',
+    description: '',
+    checklist: [],
+    column: 'todo',
+    ...overrides,
+  };
+}
+
+const BOARD_YAML = 'columns:\n  - todo\n  - done\n';
+
+describe('parseBoardFile', () => {
+  test('reads hand-written cards', () => {
+    const board = parseBoardFile(`# Sprint 12
+
+Notes about the sprint.
+
+## todo
+
+- Fix login
+  priority: high
+  labels: auth, bug
+
+  The login form rejects valid passwords.
+  Only on Safari.
+
+  - [ ] Reproduce
+  - [X] Write tests
+
+  ### Notes
+  Ask Sam.
+
+- Write docs <!-- docs -->
+
+## done
+`);
+
+    expect(board.preamble).toBe('# Sprint 12\n\nNotes about the sprint.');
+    expect(board.columns.map((c) => c.name)).toEqual(['todo', 'done']);
+
+    const [login, docs] = board.columns[0].cards;
+    expect(login).toMatchObject({
+      id: 'fix-login',
+      title: 'Fix login',
+      priority: 'high',
+      labels: ['auth', 'bug'],
+      column: 'todo',
+      description: 'The login form rejects valid passwords.\nOnly on Safari.',
+      checklist: [
+        { text: 'Reproduce', checked: false },
+        { text: 'Write tests', checked: true },
+      ],
+      extraSections: [{ heading: 'Notes', body: 'Ask Sam.' }],
+    });
+    expect(docs).toMatchObject({ id: 'docs', title: 'Write docs', priority: 'medium' });
+    expect(board.columns[1].cards).toEqual([]);
+  });
+
+  test('treats a description that looks like a key as a description', () => {
+    const [card] = parseBoardFile('## todo\n\n- Task\n\n  Note: not frontmatter\n').columns[0]
+      .cards;
+    expect(card.description).toBe('Note: not frontmatter');
+  });
+
+  test('keeps a hand-written description line with a colon in the description', () => {
+    const [card] = parseBoardFile(
+      '## todo\n\n- Task\n  Note: remember the migration\n  Then deploy.\n'
+    ).columns[0].cards;
+    expect(card.description).toBe('Note: remember the migration\nThen deploy.');
+    expect(card.extraFrontmatter).toBeUndefined();
+  });
+
+  test('reads other keys between "---" lines', () => {
+    const text = '## todo\n\n- Task\n  ---\n  priority: high\n  checked: true\n  ---\n\n  Text.\n';
+    const [card] = parseBoardFile(text).columns[0].cards;
+    expect(card).toMatchObject({ priority: 'high', extraFrontmatter: { checked: true } });
+    expect(card.description).toBe('Text.');
+
+    const written = formatBoardFile({ preamble: '', columns: [{ name: 'todo', cards: [card] }] });
+    expect(written).toContain('<!-- task -->\n  ---\n  priority: high\n');
+    expect(parseBoardFile(written).columns[0].cards).toEqual([card]);
+  });
+
+  test('keeps blank lines inside a block scalar in the frontmatter', () => {
+    const [card] = parseBoardFile(
+      '## todo\n\n- Task\n  ---\n  notes: |\n    First.\n\n    Second.\n  priority: high\n  ---\n\n  Description.\n'
+    ).columns[0].cards;
+    expect(card.extraFrontmatter).toEqual({ notes: 'First.\n\nSecond.\n' });
+    expect(card.priority).toBe('high');
+    expect(card.description).toBe('Description.');
+
+    const text = formatBoardFile({ preamble: '', columns: [{ name: 'todo', cards: [card] }] });
+    expect(parseBoardFile(text).columns[0].cards).toEqual([card]);
+  });
+
+  test('rejects text between cards instead of dropping it', () => {
+    expect(() =>
+      parseBoardFile('## todo\n\n- Task\n\nRemember to ask Sam.\n\n- Other task\n')
+    ).toThrow(expect.objectContaining({ code: 'INVALID_BOARD_FILE', details: { line: 5 } }));
+  });
+});
+
+describe('formatBoardFile', () => {
+  test('round-trips cards', () => {
+    const cards = [
+      makeCard({
+        priority: 'high',
+        labels: ['auth'],
+        description: 'Line one\n\nLine two',
+        checklist: [{ text: 'Write tests', checked: true }],
+        assignees: ['alice'],
+        due: '2026-10-30',
+        extraSections: [{ heading: 'Notes', body: 'Ask Sam.' }],
+      }),
+      makeCard({ id: 'ship-it', title: 'Ship it', column: 'done' }),
+    ];
+    const text = formatBoardFile({
+      preamble: '# Board',
+      columns: [
+        { name: 'todo', cards: [cards[0]] },
+        { name: 'done', cards: [cards[1]] },
+      ],
+    });
+
+    const board = parseBoardFile(text);
+    expect(board.columns.flatMap((c) => c.cards)).toEqual(cards);
+    expect(formatBoardFile(board)).toBe(text);
+  });
+
+  test('orders columns as in board.yaml and cards by priority', () => {
+    const text = formatBoardFile(
+      {
+        preamble: '',
+        columns: [
+          { name: 'done', cards: [] },
+          {
+            name: 'todo',
+            cards: [
+              makeCard({ id: 'low', priority: 'low' }),
+              makeCard({ id: 'high', priority: 'high' }),
+            ],
+          },
+        ],
+      },
+      ['todo', 'done']
+    );
+
+    expect(text.match(/^## .*|<!-- \S+ -->/gm)).toEqual([
+      '## todo',
+      '<!-- high -->',
+      '<!-- low -->',
+      '## done',
+    ]);
+  });
+
+  test('round-trips cards with a hand-arranged layout', () => {
+    const card = parseCard(
+      serializeCard(makeCard()).replace(
+        '# Fix login\n',
+        '# Fix login\n\nContext.\n\n## Notes\nFirst.\n\n## Checklist\nSteps:\n- [ ] One\n'
+      ),
+      'fix-login.md',
+      'todo'
+    );
+    expect(card.sectionOrder).toEqual(['Notes', 'Checklist']);
+
+    const text = formatBoardFile({ preamble: '', columns: [{ name: 'todo', cards: [card] }] });
+    expect(parseBoardFile(text).columns[0].cards).toEqual([card]);
+    expect(boardFileContent(card)).toBe(serializeCard(card));
+  });
+
+  test('gives card files the same revision once written back', () => {
+    const card = makeCard({ labels: ['auth'], description: 'Text' });
+    expect(boardFileContent(card)).toBe(serializeCard(card));
+  });
+});
+
+describe('planSync', () => {
+  const revisions = (cards: Card[]) => planSync(new Map(), toMap(cards), {}).state;
+  const toMap = (cards: Card[]) => new Map(cards.map((c) => [c.id, c]));
+
+  test('copies a change from either side to the other', () => {
+    const card = makeCard();
+    const base = revisions([card]);
+    const edited = makeCard({ title: 'Fix the login' });
+
+    const fromFile = planSync(toMap([edited]), toMap([card]), base);
+    expect(fromFile.toDirectories.get('fix-login')).toEqual(edited);
+    expect(fromFile.toFile.size).toBe(0);
+
+    const fromDirectories = planSync(toMap([card]), toMap([edited]), base);
+    expect(fromDirectories.toFile.get('fix-login')).toEqual(edited);
+    expect(fromDirectories.state).toEqual(revisions([edited]));
+  });
+
+  test('copies additions and deletions', () => {
+    const kept = makeCard();
+    const removed = makeCard({ id: 'old' });
+    const added = makeCard({ id: 'new' });
+
+    const plan = planSync(toMap([kept, added]), toMap([kept, removed]), revisions([kept, removed]));
+    expect([...plan.toDirectories]).toEqual([
+      ['new', added],
+      ['old', null],
+    ]);
+    expect(Object.keys(plan.state)).toEqual(['fix-login', 'new']);
+  });
+
+  test('reports cards changed on both sides unless a side is preferred', () => {
+    const base = revisions([makeCard()]);
+    const file = toMap([makeCard({ title: 'From file' })]);
+    const directories = toMap([makeCard({ column: 'done' })]);
+
+    const plan = planSync(file, directories, base);
+    expect(plan.conflicts).toEqual(['fix-login']);
+    expect(plan.toFile.size + plan.toDirectories.size).toBe(0);
+    expect(plan.state).toEqual(base);
+
+    const preferred = planSync(file, directories, base, 'directories');
+    expect(preferred.conflicts).toEqual([]);
+    expect(preferred.toFile.get('fix-login')?.column).toBe('done');
+  });
+});
+
+describe('createBoardFileStore', () => {
+  test('keeps cards in BOARD.md', async () => {
+    const inner = createMemoryStore();
+    const store = createBoardFileStore(inner, { title: 'Board', columns: ['todo', 'done'] });
+
+    await store.createDir('done');
+    await store.write('todo/fix-login.md', serializeCard(makeCard()));
+    expect(await store.create('todo/fix-login.md', '')).toBe(false);
+    await store.rename('todo/fix-login.md', 'done/fix-login.md');
+
+    expect((await inner.list('')).map((e) => e.name)).toEqual(['BOARD.md']);
+    expect(await inner.read('BOARD.md')).toStartWith(
+      '# Board\n\n## todo\n\n## done\n\n- Fix login'
+    );
+    expect(await store.read('done/fix-login.md')).toBe(serializeCard(makeCard({ column: 'done' })));
+    expect(await store.list('')).toEqual([
+      { name: 'BOARD.md', directory: false },
+      { name: 'done', directory: true },
+      { name: 'todo', directory: true },
+    ]);
+    expect(await store.removeDir('done')).toBe(false);
+    expect(await store.removeDir('todo')).toBe(true);
+  });
+});
+
+describe('storage: file', () => {
+  test('runs card and column operations on BOARD.md', async () => {
+    const store = createMemoryStore({ 'board.yaml': `${BOARD_YAML}storage: file\n` });
+
+    await withBoardContext({ store }, async () => {
+      await addCard('todo', 'Fix login');
+      await moveCard('fix-login', 'done');
+      await editCard('fix-login', { labels: ['auth'] });
+      await undo();
+      await renameColumn('done', 'shipped');
+
+      const board = await loadBoard();
+      expect(board.cards.map((c) => [c.id, c.column, c.labels])).toEqual([
+        ['fix-login', 'shipped', []],
+      ]);
+    });
+
+    const text = (await store.read('BOARD.md'))!;
+    expect(text.match(/^## .*|<!-- \S+ -->/gm)).toEqual([
+      '## todo',
+      '## shipped',
+      '<!-- fix-login -->',
+    ]);
+    expect((await store.list('')).filter((e) => e.directory)).toEqual([]);
+  });
+
+  test('reads cards written into BOARD.md by hand', async () => {
+    const store = createMemoryStore({
+      'board.yaml': `${BOARD_YAML}storage: file\n`,
+      'BOARD.md': '## todo\n\n- Fix login\n  priority: high\n',
+    });
+
+    await withBoardContext({ store }, async () => {
+      await moveCard('fix-login', 'done');
+      const [card] = (await loadBoard()).cards;
+      expect(card).toMatchObject({ id: 'fix-login', priority: 'high', column: 'done' });
+    });
+  });
+
+  test('leaves BOARD.md alone when it has text outside the cards', async () => {
+    const text = '## todo\n\n- Fix login\n\nAsk Sam first.\n';
+    const store = createMemoryStore({
+      'board.yaml': `${BOARD_YAML}storage: file\n`,
+      'BOARD.md': text,
+    });
+
+    await withBoardContext({ store }, async () => {
+      await expect(addCard('todo', 'Write docs')).rejects.toMatchObject({
+        code: 'INVALID_BOARD_FILE',
+      });
+    });
+    expect(await store.read('BOARD.md')).toBe(text);
+  });
+
+  test('rejects an unknown storage mode', async () => {
+    const store = createMemoryStore({ 'board.yaml': `${BOARD_YAML}storage: sqlite\n` });
+    await withBoardContext({ store }, async () => {
+      await expect(loadBoard()).rejects.toMatchObject({ code: 'INVALID_BOARD_CONFIG' });
+    });
+  });
+});
+
+describe('syncBoardFile', () => {
+  test('writes BOARD.md from the card files, then copies hand edits back', async () => {
+    const store = createMemoryStore({ 'board.yaml': BOARD_YAML });
+
+    await withBoardContext({ store }, async () => {
+      await addCard('todo', 'Fix login');
+      const first = await syncBoardFile();
+      expect(first.toFile).toEqual([{ id: 'fix-login', column: 'todo', change: 'added' }]);
+
+      const text = (await store.read('BOARD.md'))!;
+      await store.write(
+        'BOARD.md',
+        text.replace('## done\n', '## done\n\n- Ship it\n  priority: high\n')
+      );
+      const second = await syncBoardFile();
+      expect(second).toEqual({
+        toFile: [],
+        toDirectories: [{ id: 'ship-it', column: 'done', change: 'added' }],
+        conflicts: [],
+      });
+      expect(await store.read('BOARD.md')).toContain(
+        '- Ship it <!-- ship-it -->\n  priority: high\n  created:'
+      );
+
+      const board = await loadBoard();
+      expect(board.cards.map((c) => c.id).sort()).toEqual(['fix-login', 'ship-it']);
+      expect(await syncBoardFile()).toEqual({ toFile: [], toDirectories: [], conflicts: [] });
+
+      // Changes to the card files can be undone like any other operation
+      await undo();
+      expect((await loadBoard()).cards.map((c) => c.id)).toEqual(['fix-login']);
+    });
+  });
+
+  test('leaves cards changed on both sides alone until a side is preferred', async () => {
+    const store = createMemoryStore({ 'board.yaml': BOARD_YAML });
+
+    await withBoardContext({ store }, async () => {
+      await addCard('todo', 'Fix login');
+      await syncBoardFile();
+      await moveCard('fix-login', 'done');
+      const text = (await store.read('BOARD.md'))!;
+      await store.write('BOARD.md', text.replace('- Fix login', '- Fix the login'));
+
+      const result = await syncBoardFile();
+      expect(result.conflicts).toEqual(['fix-login']);
+      expect((await loadBoard()).cards[0]).toMatchObject({ title: 'Fix login', column: 'done' });
+
+      await syncBoardFile('file');
+      expect((await loadBoard()).cards[0]).toMatchObject({
+        title: 'Fix the login',
+        column: 'todo',
+      });
+    });
+  });
+
+  test('refuses columns board.yaml does not have', async () => {
+    const store = createMemoryStore({
+      'board.yaml': BOARD_YAML,
+      'BOARD.md': '## later\n\n- Task\n',
+    });
+    await withBoardContext({ store }, async () => {
+      await expect(syncBoardFile()).rejects.toMatchObject({ code: 'COLUMN_NOT_FOUND' });
+    });
+  });
+});
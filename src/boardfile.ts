@@ -0,0 +1,542 @@
+import {
+  cardIdFromTitle,
+  contentRevision,
+  KNOWN_FRONTMATTER_KEYS,
+  parseCard,
+  serializeCard,
+} from './card.js';
+import { sortCards } from './render.js';
+import type { BoardStore, StoreEntry } from './store.js';
+import { KanmdError } from './types.js';
+import type { Card } from './types.js';
+
+/**
+ * The whole board as one markdown file: a "## column" heading per column and
+ * a list item per card, with the card's frontmatter, description, checklist
+ * and extra sections indented under it:
+ *
+ *   ## todo
+ *
+ *   - Fix login <!-- fix-login -->
+ *     priority: high
+ *     labels: auth
+ *     created: 2026-10-01T10:00:00.000Z
+ *
+ *     The login form rejects valid passwords.
+ *
+ *     - [ ] Write tests
+ *
+ * Items without an ID comment are new cards; their ID comes from the title.
+ * Frontmatter with keys other than the card fields goes between "---" lines.
+ */
+export const BOARD_FILE = 'BOARD.md';
+
+/** Card revisions as of the last `kanmd sync`, so the next one can tell which side changed */
+export const SYNC_STATE_FILE = 'sync.json';
+
+export interface BoardFileColumn {
+  name: string;
+  cards: Card[];
+}
+
+export interface BoardFileContent {
+  /** Text before the first column heading (e.g. the board's title), kept as written */
+  preamble: string;
+  columns: BoardFileColumn[];
+}
+
+export interface BoardFileOptions {
+  /** Heading for a new BOARD.md, usually the board's name */
+  title: string;
+  /** Column order from board.yaml. Columns are written in this order. */
+  columns: string[];
+}
+
+const CARD_ITEM = /^[-*] (.*?)\s*(?:<!--\s*(\S+)\s*-->)?\s*$/;
+const CHECKLIST_ITEM = /^- \[([ xX])\] (.+)$/;
+const FRONTMATTER_LINE = /^([A-Za-z_][\w-]*):(\s|$)/;
+const BLOCK_SCALAR_START = /(?::|^\s*-)\s+[|>][1-9+-]*\s*(?:#.*)?$/;
+
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  return lines.slice(start, end);
+}
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+/**
+ * Where the frontmatter paragraph at the start of an item's block ends. It
+ * ends at the first blank line, unless that line is inside a block scalar
+ * ("notes: |") whose text goes on after it.
+ */
+function frontmatterEnd(lines: string[]): number {
+  if (lines.length === 0 || !FRONTMATTER_LINE.test(lines[0])) return 0;
+
+  // Indentation of the key whose block scalar we're in, or -1
+  let blockIndent = -1;
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.trim() === '') {
+      let next = i;
+      while (next < lines.length && lines[next].trim() === '') next++;
+      if (blockIndent === -1 || next === lines.length || indentOf(lines[next]) <= blockIndent) {
+        break;
+      }
+      i = next;
+      continue;
+    }
+    if (blockIndent !== -1 && indentOf(line) <= blockIndent) blockIndent = -1;
+    if (blockIndent === -1 && BLOCK_SCALAR_START.test(line)) blockIndent = indentOf(line);
+    i++;
+  }
+  return i;
+}
+
+function isCardFieldLine(line: string): boolean {
+  const key = FRONTMATTER_LINE.exec(line)?.[1];
+  return key !== undefined && KNOWN_FRONTMATTER_KEYS.includes(key);
+}
+
+/**
+ * Splits the frontmatter off an item's block. Between "---" lines it can hold
+ * any key. Without them it's the paragraph right under the item line, and
+ * only when every key in it is a card field, so a description that starts
+ * with "Note: ..." stays a description.
+ */
+function splitFrontmatter(lines: string[]): { frontmatter: string[]; bodyStart: number } {
+  if (lines[0] === '---') {
+    const end = lines.indexOf('---', 1);
+    if (end !== -1) return { frontmatter: lines.slice(1, end), bodyStart: end + 1 };
+  }
+  const end = frontmatterEnd(lines);
+  const frontmatter = lines.slice(0, end);
+  if (!frontmatter.every((l) => /^\s/.test(l) || l === '' || isCardFieldLine(l))) {
+    return { frontmatter: [], bodyStart: 0 };
+  }
+  return { frontmatter, bodyStart: end };
+}
+
+/**
+ * Card markdown, as it would be in its own file, for one BOARD.md item.
+ * `block` is the indented text under the item line.
+ */
+function entryMarkdown(title: string, block: string[]): string {
+  const lines = block.map((l) => l.replace(/^(?: {1,2}|\t)/, ''));
+
+  const { frontmatter, bodyStart } = splitFrontmatter(lines);
+  const body = trimBlankLines(lines.slice(bodyStart));
+
+  // Extra sections start at "### " headings
+  const sectionStart = body.findIndex((l) => l.startsWith('### '));
+  const text = trimBlankLines(sectionStart === -1 ? body : body.slice(0, sectionStart));
+  const sections = sectionStart === -1 ? [] : body.slice(sectionStart);
+
+  // The checklist is the run of "- [ ]" items the card's text ends with
+  let checklistStart = text.length;
+  while (checklistStart > 0 && CHECKLIST_ITEM.test(text[checklistStart - 1])) checklistStart--;
+  const description = trimBlankLines(text.slice(0, checklistStart));
+  const checklist = text.slice(checklistStart).map((l) => l.replace(/^- \[X\]/, '- [x]'));
+
+  const markdown = ['---', ...frontmatter, '---', '', `# ${title}`];
+
+  // Cards with a hand-arranged layout are written with all their headings
+  if (body.some((l) => l === '### Description' || l === '### Checklist')) {
+    markdown.push('', ...body.map((l) => (l.startsWith('### ') ? l.slice(1) : l)));
+    return markdown.join('\n') + '\n';
+  }
+  if (description.length > 0) markdown.push('', '## Description', ...description);
+  if (checklist.length > 0) markdown.push('', '## Checklist', ...checklist);
+  for (const line of sections) {
+    markdown.push(line.startsWith('### ') ? `\n## ${line.slice(4)}` : line);
+  }
+  return markdown.join('\n') + '\n';
+}
+
+interface ParsedEntry {
+  card: Card;
+  /** What the card's own file would contain, used for its revision */
+  content: string;
+}
+
+function parseEntry(item: RegExpMatchArray, block: string[], column: string): ParsedEntry {
+  const title = item[1].trim();
+  const id = item[2] ?? cardIdFromTitle(title);
+  const markdown = entryMarkdown(title, block);
+  const card = parseCard(markdown, `${id}.md`, column);
+  // Cards kanmd wrote read back exactly as kanmd writes them, so revisions
+  // match the ones kanmd reported when it wrote them
+  return { card, content: card.created ? serializeCard(card) : markdown };
+}
+
+function parseEntries(text: string): {
+  preamble: string;
+  columns: Array<{ name: string; entries: ParsedEntry[] }>;
+} {
+  const lines = text.split(/\r?\n/);
+  const preamble: string[] = [];
+  const columns: Array<{ name: string; entries: ParsedEntry[] }> = [];
+
+  for (let i = 0; i < lines.length; ) {
+    const heading = lines[i].match(/^## (.+?)\s*$/);
+    if (heading) {
+      columns.push({ name: heading[1], entries: [] });
+      i++;
+      continue;
+    }
+
+    const column = columns[columns.length - 1];
+    if (!column) {
+      preamble.push(lines[i++]);
+      continue;
+    }
+
+    const line = lines[i++];
+    if (line.trim() === '') continue;
+    const item = line.match(CARD_ITEM);
+    // Text between cards belongs to no card and would be lost on the next write
+    if (!item) {
+      throw new KanmdError(
+        `${BOARD_FILE} line ${i}: "${line.trim()}" is not part of a card. Indent it under a card, or move it above the first column heading.`,
+        'INVALID_BOARD_FILE',
+        { line: i }
+      );
+    }
+
+    const block: string[] = [];
+    while (i < lines.length && (lines[i].trim() === '' || /^\s/.test(lines[i]))) {
+      block.push(lines[i++]);
+    }
+    column.entries.push(parseEntry(item, block, column.name));
+  }
+
+  return { preamble: trimBlankLines(preamble).join('\n'), columns };
+}
+
+export function parseBoardFile(text: string): BoardFileContent {
+  const { preamble, columns } = parseEntries(text);
+  return {
+    preamble,
+    columns: columns.map((c) => ({ name: c.name, cards: c.entries.map((e) => e.card) })),
+  };
+}
+
+function formatEntry(card: Card): string[] {
+  const indent = (line: string) => (line ? `  ${line}` : '');
+  const serialized = serializeCard(card).split('\n');
+  const frontmatter = serialized
+    .slice(1, serialized.indexOf('---', 1))
+    // An empty labels list is noise here, and a card without a created time shouldn't get one
+    .filter((l) => l !== 'labels:' && (card.created || !l.startsWith('created:')));
+
+  // Keys other than card fields only read back as frontmatter between "---" lines
+  const delimited = frontmatter.some((l) => !/^\s/.test(l) && !isCardFieldLine(l));
+  const lines = [
+    `- ${card.title || 'Untitled'} <!-- ${card.id} -->`,
+    ...(delimited ? ['---', ...frontmatter, '---'] : frontmatter).map(indent),
+  ];
+
+  // A preamble, notes between checklist items or an unusual section order
+  // need every section under its heading to read back the same
+  if (card.preamble || card.checklistNotes || card.sectionOrder) {
+    const titleLine = serialized.indexOf('---', 1) + 2;
+    const body = serialized
+      .slice(titleLine + 1)
+      .map((l) => (l.startsWith('## ') ? `#${l}` : l))
+      .filter((l, i, all) => i < all.length - 1 || l !== '');
+    if (!body.includes('### Description')) {
+      const firstSection = body.findIndex((l) => l.startsWith('### '));
+      body.splice(firstSection === -1 ? body.length : firstSection - 1, 0, '', '### Description');
+    }
+    return [...lines, ...body.map(indent)];
+  }
+
+  if (card.description) {
+    lines.push('', ...card.description.split('\n').map(indent));
+  }
+  if (card.checklist.length > 0) {
+    lines.push('');
+    for (const item of card.checklist) {
+      lines.push(indent(`- [${item.checked ? 'x' : ' '}] ${item.text}`));
+    }
+  }
+  for (const section of card.extraSections || []) {
+    lines.push('', indent(`### ${section.heading}`));
+    if (section.body) lines.push(...section.body.split('\n').map(indent));
+  }
+  return lines;
+}
+
+/** Writes the board in the order it's shown: columns as in board.yaml, cards by priority and rank */
+export function formatBoardFile(board: BoardFileContent, columnOrder: string[] = []): string {
+  const position = (name: string) => {
+    const index = columnOrder.indexOf(name);
+    return index === -1 ? columnOrder.length : index;
+  };
+  const columns = [...board.columns].sort((a, b) => position(a.name) - position(b.name));
+
+  const lines: string[] = [];
+  if (board.preamble) lines.push(board.preamble, '');
+  for (const column of columns) {
+    lines.push(`## ${column.name}`, '');
+    for (const card of sortCards(column.cards)) {
+      lines.push(...formatEntry(card), '');
+    }
+  }
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+/** What a card's own file would contain once it's written to BOARD.md and read back */
+export function boardFileContent(card: Card): string {
+  const [item, ...block] = formatEntry(card);
+  return parseEntry(item.match(CARD_ITEM)!, block, card.column).content;
+}
+
+/**
+ * Reads BOARD.md from `store` and writes back the result of `update`, holding
+ * its lock throughout. A missing file starts with just the board's title.
+ * `update` returns false to leave the file as it was.
+ */
+export async function updateBoardFile<T>(
+  store: BoardStore,
+  options: BoardFileOptions,
+  update: (board: BoardFileContent) => Promise<T | false>
+): Promise<T | false> {
+  const lockError = () => new KanmdError(`${BOARD_FILE} is locked by another process`, 'LOCKED');
+
+  return store.lock(`${BOARD_FILE}.lock`, lockError, async () => {
+    const text = await store.read(BOARD_FILE);
+    const board =
+      text === null ? { preamble: `# ${options.title}`, columns: [] } : parseBoardFile(text);
+    const result = await update(board);
+    if (result === false) return false;
+
+    const updated = formatBoardFile(board, options.columns);
+    if (updated !== text) await store.write(BOARD_FILE, updated);
+    return result;
+  });
+}
+
+function cardPath(file: string): { column: string; id: string } | null {
+  const match = file.match(/^([^/]+)\/([^/]+)\.md$/);
+  return match && { column: match[1], id: match[2] };
+}
+
+/**
+ * Keeps a board's cards in BOARD.md while its other files (board.yaml, logs,
+ * locks) stay in `inner`. Card files ("todo/fix-login.md") and column
+ * directories are read from and written to BOARD.md, so card operations work
+ * unchanged.
+ */
+export function createBoardFileStore(inner: BoardStore, options: BoardFileOptions): BoardStore {
+  // Every card read parses BOARD.md, so reuse the last parse while the file is unchanged
+  let cache: { text: string; board: ReturnType<typeof parseEntries> } | undefined;
+  const load = async () => {
+    const text = (await inner.read(BOARD_FILE)) ?? '';
+    if (cache?.text !== text) cache = { text, board: parseEntries(text) };
+    return cache.board;
+  };
+  const update = (fn: (board: BoardFileContent) => boolean) =>
+    updateBoardFile(inner, options, async (board) => fn(board) && true);
+
+  const findColumn = (board: BoardFileContent, name: string) =>
+    board.columns.find((c) => c.name === name);
+  const upsert = (board: BoardFileContent, card: Card) => {
+    let column = findColumn(board, card.column);
+    if (!column) {
+      column = { name: card.column, cards: [] };
+      board.columns.push(column);
+    }
+    const index = column.cards.findIndex((c) => c.id === card.id);
+    if (index === -1) column.cards.push(card);
+    else column.cards[index] = card;
+  };
+
+  const readCard = async (target: { column: string; id: string }) => {
+    const column = (await load()).columns.find((c) => c.name === target.column);
+    return column?.entries.find((e) => e.card.id === target.id)?.content ?? null;
+  };
+
+  return {
+    async read(file) {
+      const target = cardPath(file);
+      return target ? readCard(target) : inner.read(file);
+    },
+
+    async list(dir) {
+      if (dir === '') {
+        // Column directories left over from directory storage aren't part of this board
+        const files = (await inner.list('')).filter((e) => !e.directory);
+        const columns = (await load()).columns.map(
+          (c): StoreEntry => ({ name: c.name, directory: true })
+        );
+        return [...files, ...columns].sort((a, b) => a.name.localeCompare(b.name));
+      }
+      if (dir.includes('/')) return [];
+      const column = (await load()).columns.find((c) => c.name === dir);
+      return (column?.entries ?? [])
+        .map((e): StoreEntry => ({ name: `${e.card.id}.md`, directory: false }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async write(file, content) {
+      const target = cardPath(file);
+      if (!target) return inner.write(file, content);
+      await update((board) => {
+        upsert(board, parseCard(content, `${target.id}.md`, target.column));
+        return true;
+      });
+    },
+
+    async create(file, content) {
+      const target = cardPath(file);
+      if (!target) return inner.create(file, content);
+      const created = await update((board) => {
+        if (findColumn(board, target.column)?.cards.some((c) => c.id === target.id)) return false;
+        upsert(board, parseCard(content, `${target.id}.md`, target.column));
+        return true;
+      });
+      return created !== false;
+    },
+
+    append: (file, content) => inner.append(file, content),
+    size: (file) => inner.size(file),
+
+    async rename(from, to) {
+      const source = cardPath(from);
+      const target = cardPath(to);
+      if (source && target) {
+        const content = await readCard(source);
+        if (content === null) {
+          throw new KanmdError(`"${from}" does not exist`, 'FILE_NOT_FOUND');
+        }
+        await update((board) => {
+          const column = findColumn(board, source.column)!;
+          column.cards = column.cards.filter((c) => c.id !== source.id);
+          upsert(board, parseCard(content, `${target.id}.md`, target.column));
+          return true;
+        });
+        return;
+      }
+      if (from.includes('/') || to.includes('/')) return inner.rename(from, to);
+
+      await update((board) => {
+        const column = findColumn(board, from);
+        if (!column) throw new KanmdError(`"${from}" does not exist`, 'FILE_NOT_FOUND');
+        column.name = to;
+        for (const card of column.cards) card.column = to;
+        return true;
+      });
+    },
+
+    async delete(file) {
+      const target = cardPath(file);
+      if (!target) return inner.delete(file);
+      await update((board) => {
+        const column = findColumn(board, target.column);
+        if (!column?.cards.some((c) => c.id === target.id)) return false;
+        column.cards = column.cards.filter((c) => c.id !== target.id);
+        return true;
+      });
+    },
+
+    async createDir(dir) {
+      if (dir === '' || dir.includes('/')) return inner.createDir(dir);
+      // Called for every column on every load, so only take the lock when the heading is missing
+      if ((await load()).columns.some((c) => c.name === dir)) return;
+      await update((board) => {
+        if (findColumn(board, dir)) return false;
+        board.columns.push({ name: dir, cards: [] });
+        return true;
+      });
+    },
+
+    async removeDir(dir) {
+      if (dir === '' || dir.includes('/')) return inner.removeDir(dir);
+      const removed = await update((board) => {
+        const column = findColumn(board, dir);
+        if (column && column.cards.length > 0) return false;
+        board.columns = board.columns.filter((c) => c.name !== dir);
+        return true;
+      });
+      return removed !== false;
+    },
+
+    lock: (name, timeoutError, fn) => inner.lock(name, timeoutError, fn),
+  };
+}
+
+export const SYNC_SIDES = ['file', 'directories'] as const;
+export type SyncSide = (typeof SYNC_SIDES)[number];
+
+export function isValidSyncSide(value: string): value is SyncSide {
+  return SYNC_SIDES.includes(value as SyncSide);
+}
+
+export interface SyncPlan {
+  /** Cards to write to BOARD.md, or null to remove them from it */
+  toFile: Map<string, Card | null>;
+  /** Cards to write to the column directories, or null to delete them */
+  toDirectories: Map<string, Card | null>;
+  /** Cards changed on both sides since the last sync */
+  conflicts: string[];
+  /** Revisions to record for the next sync */
+  state: Record<string, string>;
+}
+
+/** Changes whenever anything about the card changes, including its column */
+export function syncRevision(card: Card): string {
+  return contentRevision(JSON.stringify({ ...card, revision: undefined }));
+}
+
+/**
+ * Decides what a sync copies where. A card changed on one side since the last
+ * sync (`base`) is copied to the other; one changed on both is a conflict,
+ * unless `prefer` picks the side that wins.
+ */
+export function planSync(
+  fileCards: Map<string, Card>,
+  directoryCards: Map<string, Card>,
+  base: Record<string, string>,
+  prefer?: SyncSide
+): SyncPlan {
+  const plan: SyncPlan = { toFile: new Map(), toDirectories: new Map(), conflicts: [], state: {} };
+  const ids = new Set([...fileCards.keys(), ...directoryCards.keys(), ...Object.keys(base)]);
+
+  for (const id of [...ids].sort()) {
+    const fileCard = fileCards.get(id) ?? null;
+    const directoryCard = directoryCards.get(id) ?? null;
+    const fileRevision = fileCard && syncRevision(fileCard);
+    const directoryRevision = directoryCard && syncRevision(directoryCard);
+    const baseRevision = base[id] ?? null;
+
+    let winner: SyncSide | undefined;
+    if (fileRevision === directoryRevision) {
+      if (fileRevision) plan.state[id] = fileRevision;
+      continue;
+    } else if (fileRevision === baseRevision) {
+      winner = 'directories';
+    } else if (directoryRevision === baseRevision) {
+      winner = 'file';
+    } else if (prefer) {
+      winner = prefer;
+    } else {
+      plan.conflicts.push(id);
+      if (baseRevision) plan.state[id] = baseRevision;
+      continue;
+    }
+
+    if (winner === 'file') {
+      plan.toDirectories.set(id, fileCard);
+      if (fileRevision) plan.state[id] = fileRevision;
+    } else {
+      plan.toFile.set(id, directoryCard);
+      if (directoryRevision) plan.state[id] = directoryRevision;
+    }
+  }
+
+  return plan;
+}
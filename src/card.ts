@@ -0,0 +1,390 @@
+import { createHash } from 'crypto';
+import type { Card, CardSection, ChecklistNote } from './types.js';
+import {
+  formatYamlScalar,
+  isPlainObject,
+  parseYamlSource,
+  stringifyYaml,
+  YamlParseError,
+} from './yaml.js';
+
+// The markdown format of a card file: YAML frontmatter, a title heading and sections
+
+interface Frontmatter {
+  priority?: string;
+  labels?: string[];
+  created?: string;
+  updated?: string;
+  rank?: number;
+  assignee?: string[];
+  due?: string;
+  claimed_by?: string;
+  claimed_until?: string;
+  blocked_by?: string[];
+  parent?: string;
+  entered?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+export const KNOWN_FRONTMATTER_KEYS = [
+  'priority',
+  'labels',
+  'created',
+  'updated',
+  'rank',
+  'assignee',
+  'due',
+  'claimed_by',
+  'claimed_until',
+  'blocked_by',
+  'parent',
+  'entered',
+];
+
+function normalizeList(value: unknown): string[] {
+  if (value === null || value === undefined) return [];
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  return items
+    .filter((l) => l !== null && l !== undefined)
+    .map((l) => String(l).trim())
+    .filter(Boolean);
+}
+
+export function parseFrontmatter(
+  markdown: string,
+  source = 'frontmatter'
+): { frontmatter: Frontmatter; content: string } {
+  const frontmatter: Frontmatter = {};
+  const lines = markdown.split(/\r?\n/);
+
+  if (lines[0].trimEnd() !== '---') {
+    return { frontmatter, content: markdown };
+  }
+
+  // The block ends at the first line that is exactly "---" (or "..."), so values containing "---" are safe
+  const endLine = lines.findIndex(
+    (l, i) => i > 0 && (l.trimEnd() === '---' || l.trimEnd() === '...')
+  );
+  if (endLine === -1) {
+    return { frontmatter, content: markdown };
+  }
+
+  const content = lines
+    .slice(endLine + 1)
+    .join('\n')
+    .trim();
+  const data = parseYamlSource(lines.slice(1, endLine).join('\n') + '\n', source, 1);
+  if (data === null) {
+    return { frontmatter, content };
+  }
+  if (!isPlainObject(data)) {
+    throw new YamlParseError('Frontmatter must be a mapping of keys to values', 2, source);
+  }
+
+  for (const [key, value] of Object.entries(data)) {
+    if (key === 'labels') {
+      frontmatter.labels = normalizeList(value);
+    } else if (key === 'assignee') {
+      frontmatter.assignee = normalizeList(value);
+    } else if (key === 'blocked_by') {
+      frontmatter.blocked_by = normalizeList(value);
+    } else if (key === 'entered') {
+      if (isPlainObject(value)) {
+        frontmatter.entered = Object.fromEntries(
+          Object.entries(value)
+            .filter(([, time]) => time !== null && time !== undefined)
+            .map(([column, time]) => [column, String(time)])
+        );
+      }
+    } else if (key === 'rank') {
+      if (typeof value === 'number' && Number.isInteger(value)) {
+        frontmatter.rank = value;
+      }
+    } else if (
+      key === 'priority' ||
+      key === 'created' ||
+      key === 'updated' ||
+      key === 'due' ||
+      key === 'claimed_by' ||
+      key === 'claimed_until' ||
+      key === 'parent'
+    ) {
+      if (value !== null) {
+        frontmatter[key] = String(value);
+      }
+    } else {
+      frontmatter[key] = value;
+    }
+  }
+
+  return { frontmatter, content };
+}
+
+/**
+ * Strips leading and trailing blank lines while keeping indentation of the
+ * first and last content lines intact.
+ */
+function trimBlankLines(lines: string[]): string {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  return lines.slice(start, end).join('\n');
+}
+
+// Sections kanmd reads into card fields rather than keeping as extra sections
+const DESCRIPTION = 'Description';
+const CHECKLIST = 'Checklist';
+
+export function parseCard(markdown: string, filename: string, column: string): Card {
+  const { frontmatter, content } = parseFrontmatter(markdown, `${column}/${filename}`);
+  const lines = content.split('\n');
+
+  const card: Card = {
+    id: filename.replace('.md', ''),
+    title: '',
+    priority: (frontmatter.priority as Card['priority']) || 'medium',
+    labels: frontmatter.labels || [],
+    created: frontmatter.created || '',
+    updated: frontmatter.updated,
+    description: '',
+    checklist: [],
+    column,
+    rank: frontmatter.rank,
+  };
+  if (frontmatter.assignee && frontmatter.assignee.length > 0) {
+    card.assignees = frontmatter.assignee;
+  }
+  if (frontmatter.due) {
+    card.due = frontmatter.due;
+  }
+  if (frontmatter.claimed_by) {
+    card.lease = { owner: frontmatter.claimed_by, expires: frontmatter.claimed_until || '' };
+  }
+  if (frontmatter.blocked_by && frontmatter.blocked_by.length > 0) {
+    card.blockedBy = frontmatter.blocked_by;
+  }
+  if (frontmatter.parent) {
+    card.parent = frontmatter.parent;
+  }
+  if (frontmatter.entered && Object.keys(frontmatter.entered).length > 0) {
+    card.entered = frontmatter.entered;
+  }
+
+  // Keep hand-added frontmatter keys so rewrites don't drop them
+  const extraFrontmatter: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(frontmatter)) {
+    if (!KNOWN_FRONTMATTER_KEYS.includes(key)) {
+      extraFrontmatter[key] = value;
+    }
+  }
+  if (Object.keys(extraFrontmatter).length > 0) {
+    card.extraFrontmatter = extraFrontmatter;
+  }
+
+  let section = 'header';
+  const headerLines: string[] = [];
+  const descriptionLines: string[] = [];
+  const checklistLines: ChecklistNote[] = [];
+  const extraSections: Array<{ heading: string; lines: string[] }> = [];
+  const order: string[] = [];
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith('# ') && !card.title) {
+      card.title = trimmed.slice(2).trim();
+      continue;
+    }
+
+    if (trimmed === `## ${DESCRIPTION}` || trimmed === `## ${CHECKLIST}`) {
+      const heading = trimmed.slice(3);
+      section = heading === DESCRIPTION ? 'description' : 'checklist';
+      if (!order.includes(heading)) order.push(heading);
+      continue;
+    }
+
+    if (trimmed.startsWith('## ')) {
+      section = 'other';
+      extraSections.push({ heading: trimmed.slice(3).trim(), lines: [] });
+      order.push(trimmed.slice(3).trim());
+      continue;
+    }
+
+    if (section === 'header') {
+      headerLines.push(line);
+    } else if (section === 'other') {
+      extraSections[extraSections.length - 1].lines.push(line);
+    } else if (section === 'description') {
+      descriptionLines.push(line);
+    } else if (section === 'checklist') {
+      const checkMatch = trimmed.match(/^- \[([ x])\] (.+)$/);
+      if (checkMatch) {
+        card.checklist.push({
+          checked: checkMatch[1] === 'x',
+          text: checkMatch[2],
+        });
+      } else {
+        checklistLines.push({ after: card.checklist.length, text: line });
+      }
+    }
+  }
+
+  card.description = descriptionLines.join('\n').trim();
+  if (extraSections.length > 0) {
+    card.extraSections = extraSections.map(
+      (s): CardSection => ({ heading: s.heading, body: trimBlankLines(s.lines) })
+    );
+  }
+
+  const preamble = trimBlankLines(headerLines);
+  if (preamble) card.preamble = preamble;
+
+  // Blank lines before the first item and after the last are layout, not notes
+  const isBlankAt = (note: ChecklistNote | undefined, after: number) =>
+    note !== undefined && note.after === after && note.text.trim() === '';
+  while (isBlankAt(checklistLines[0], 0)) checklistLines.shift();
+  while (isBlankAt(checklistLines[checklistLines.length - 1], card.checklist.length)) {
+    checklistLines.pop();
+  }
+  if (checklistLines.length > 0) card.checklistNotes = checklistLines;
+
+  const written = sectionOrder({ ...card, sectionOrder: order });
+  if (written.join('\n') !== sectionOrder(card).join('\n')) {
+    card.sectionOrder = written;
+  }
+  return card;
+}
+
+/**
+ * Headings of the card's sections in the order they're written. Description
+ * and Checklist come first unless the card's file had them elsewhere.
+ */
+function sectionOrder(card: Partial<Card>): string[] {
+  const order = [...(card.sectionOrder || [])];
+  if (!order.includes(DESCRIPTION)) order.unshift(DESCRIPTION);
+  if (!order.includes(CHECKLIST)) order.splice(order.indexOf(DESCRIPTION) + 1, 0, CHECKLIST);
+
+  // Sections the order doesn't mention go at the end
+  const extras = (card.extraSections || []).map((s) => s.heading);
+  for (const heading of order) {
+    const index = extras.indexOf(heading);
+    if (index !== -1) extras.splice(index, 1);
+  }
+  const present = (heading: string) =>
+    heading === DESCRIPTION
+      ? !!card.description
+      : heading === CHECKLIST
+        ? !!card.checklist?.length || !!card.checklistNotes?.length
+        : (card.extraSections || []).some((s) => s.heading === heading);
+  return [...order, ...extras].filter(present);
+}
+
+/** The Checklist section's lines: items, with any other lines where they were */
+function checklistBody(card: Partial<Card>): string[] {
+  const items = card.checklist || [];
+  const notes: ChecklistNote[] = card.checklistNotes || [];
+  const lines: string[] = [];
+  for (let i = 0; i <= items.length; i++) {
+    for (const note of notes) {
+      if (note.after === i || (i === items.length && note.after > i)) lines.push(note.text);
+    }
+    if (i < items.length) lines.push(`- ${items[i].checked ? '[x]' : '[ ]'} ${items[i].text}`);
+  }
+  return lines;
+}
+
+export function serializeCard(card: Partial<Card>): string {
+  const lines: string[] = [];
+
+  lines.push('---');
+  lines.push(`priority: ${formatYamlScalar(card.priority || 'medium')}`);
+
+  // Labels stay in the readable comma form unless one of them needs quoting
+  const labels = card.labels || [];
+  if (labels.length === 0) {
+    lines.push('labels:');
+  } else if (labels.every((l) => !l.includes(',') && formatYamlScalar(l, true) === l)) {
+    lines.push(`labels: ${labels.join(', ')}`);
+  } else {
+    lines.push(`labels: ${formatYamlScalar(labels)}`);
+  }
+
+  lines.push(`created: ${formatYamlScalar(card.created || new Date().toISOString())}`);
+  if (card.updated) {
+    lines.push(`updated: ${formatYamlScalar(card.updated)}`);
+  }
+  if (card.rank !== undefined) {
+    lines.push(`rank: ${card.rank}`);
+  }
+  // A single assignee stays a plain value; several are written as a list
+  if (card.assignees && card.assignees.length === 1) {
+    lines.push(`assignee: ${formatYamlScalar(card.assignees[0])}`);
+  } else if (card.assignees && card.assignees.length > 1) {
+    lines.push(`assignee: ${formatYamlScalar(card.assignees)}`);
+  }
+  if (card.due) {
+    lines.push(`due: ${formatYamlScalar(card.due)}`);
+  }
+  if (card.lease) {
+    lines.push(`claimed_by: ${formatYamlScalar(card.lease.owner)}`);
+    lines.push(`claimed_until: ${formatYamlScalar(card.lease.expires)}`);
+  }
+  if (card.blockedBy && card.blockedBy.length > 0) {
+    lines.push(`blocked_by: ${formatYamlScalar(card.blockedBy)}`);
+  }
+  if (card.parent) {
+    lines.push(`parent: ${formatYamlScalar(card.parent)}`);
+  }
+  if (card.entered && Object.keys(card.entered).length > 0) {
+    lines.push(stringifyYaml({ entered: card.entered }).trimEnd());
+  }
+  if (card.extraFrontmatter && Object.keys(card.extraFrontmatter).length > 0) {
+    lines.push(stringifyYaml(card.extraFrontmatter).trimEnd());
+  }
+  lines.push('---');
+  lines.push('');
+  lines.push(`# ${card.title || 'Untitled'}`);
+  if (card.preamble) {
+    lines.push('');
+    lines.push(card.preamble);
+  }
+
+  const extraSections = [...(card.extraSections || [])];
+  for (const heading of sectionOrder(card)) {
+    if (heading === DESCRIPTION) {
+      lines.push('', `## ${heading}`, card.description!);
+    } else if (heading === CHECKLIST) {
+      lines.push('', `## ${heading}`, ...checklistBody(card));
+    } else {
+      // Several sections can share a heading; take them in order
+      const index = extraSections.findIndex((s) => s.heading === heading);
+      if (index === -1) continue;
+      const [section] = extraSections.splice(index, 1);
+      lines.push('', `## ${heading}`);
+      if (section.body) {
+        lines.push(section.body);
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Short hash of a card file's content. Any change to the file, whether made by
+ * kanmd or by hand, gives it a new revision.
+ */
+export function contentRevision(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 12);
+}
+
+/** The ID (file name) a new card with this title gets, e.g. "Fix login!" → "fix-login" */
+export function cardIdFromTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .substring(0, 50);
+}
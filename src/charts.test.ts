@@ -0,0 +1,126 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  burndown,
+  burndownCsv,
+  cfdCsv,
+  chartDays,
+  columnAt,
+  cumulativeFlow,
+  renderBurndown,
+  renderCfd,
+  toCsv,
+} from './charts.js';
+import type { Board, Card } from './types.js';
+
+const NOW = new Date(2026, 9, 19, 12, 0, 0);
+
+function at(day: number, hour = 9): string {
+  return new Date(2026, 9, day, hour).toISOString();
+}
+
+function makeCard(overrides: Partial<Card> = {}): Card {
+  return {
+    id: 'task',
+    title: 'Task',
+    priority: 'medium',
+    labels: [],
+    created: at(15),
+    description: '',
+    checklist: [],
+    column: 'todo',
+    ...overrides,
+  };
+}
+
+// a: todo on the 15th, doing on the 16th, done on the 18th. b: added on the 17th.
+const board: Board = {
+  columns: ['todo', 'doing', 'done'],
+  columnSettings: {},
+  cards: [
+    makeCard({ id: 'a', column: 'done', entered: { todo: at(15), doing: at(16), done: at(18) } }),
+    makeCard({ id: 'b', created: at(17), entered: { todo: at(17) } }),
+  ],
+};
+
+describe('columnAt', () => {
+  const card = board.cards[0];
+
+  test('follows the entry times', () => {
+    expect(columnAt(card, new Date(2026, 9, 15, 12))).toBe('todo');
+    expect(columnAt(card, new Date(2026, 9, 17, 12))).toBe('doing');
+    expect(columnAt(card, NOW)).toBe('done');
+  });
+
+  test('is undefined before the card was created', () => {
+    expect(columnAt(card, new Date(2026, 9, 14))).toBeUndefined();
+  });
+
+  test('uses the current column when no entry times were recorded', () => {
+    expect(columnAt(makeCard({ column: 'doing' }), NOW)).toBe('doing');
+  });
+});
+
+describe('chartDays', () => {
+  test('snapshots each day at its end, and today at now', () => {
+    const days = chartDays('2026-10-18', '2026-10-19', NOW);
+    expect(days.map((d) => d.date)).toEqual(['2026-10-18', '2026-10-19']);
+    expect(days[0].at).toEqual(new Date(2026, 9, 19, 0, 0, 0, -1));
+    expect(days[1].at).toEqual(NOW);
+  });
+});
+
+describe('cumulativeFlow', () => {
+  test('counts cards per column for each day up to today', () => {
+    const points = cumulativeFlow(board, '2026-10-15', '2026-10-25', NOW);
+    expect(points.map((p) => p.date)).toEqual([
+      '2026-10-15',
+      '2026-10-16',
+      '2026-10-17',
+      '2026-10-18',
+      '2026-10-19',
+    ]);
+    expect(points[0].counts).toEqual({ todo: 1, doing: 0, done: 0 });
+    expect(points[2].counts).toEqual({ todo: 1, doing: 1, done: 0 });
+    expect(points[4].counts).toEqual({ todo: 1, doing: 0, done: 1 });
+  });
+
+  test('exports CSV with one column per board column', () => {
+    const points = cumulativeFlow(board, '2026-10-18', '2026-10-19', NOW);
+    expect(cfdCsv(points, board.columns)).toBe(
+      'date,todo,doing,done\n2026-10-18,1,0,1\n2026-10-19,1,0,1\n'
+    );
+  });
+
+  test('renders a chart with a legend', () => {
+    const lines = renderCfd(cumulativeFlow(board, '2026-10-15', '2026-10-19', NOW), board.columns);
+    expect(lines[lines.length - 1]).toBe('█ done  ▓ doing  ▒ todo');
+    expect(lines.some((l) => l.includes('2026-10-15') && l.includes('2026-10-19'))).toBe(true);
+  });
+});
+
+describe('burndown', () => {
+  test('tracks remaining work and an ideal line to the end date', () => {
+    const points = burndown(board, '2026-10-17', '2026-10-21', NOW);
+
+    expect(points.map((p) => p.remaining)).toEqual([2, 1, 1, null, null]);
+    expect(points.map((p) => p.ideal)).toEqual([2, 1.5, 1, 0.5, 0]);
+    expect(points[1]).toMatchObject({ total: 2, done: 1 });
+  });
+
+  test('leaves future days blank in CSV', () => {
+    const csv = burndownCsv(burndown(board, '2026-10-19', '2026-10-20', NOW));
+    expect(csv).toBe('date,total,done,remaining,ideal\n2026-10-19,2,1,1,1\n2026-10-20,,,,0\n');
+  });
+
+  test('renders bars for remaining work', () => {
+    const lines = renderBurndown(burndown(board, '2026-10-17', '2026-10-19', NOW));
+    expect(lines.some((l) => l.includes('█'))).toBe(true);
+    expect(lines[lines.length - 1]).toBe('█ remaining  · ideal');
+  });
+});
+
+describe('toCsv', () => {
+  test('quotes values that need it', () => {
+    expect(toCsv(['a', 'b'], [['x,y', 'say "hi"']])).toBe('a,b\n"x,y","say ""hi"""\n');
+  });
+});
@@ -0,0 +1,232 @@
+import { formatDate } from './dates.js';
+import { doneColumn } from './relations.js';
+import type { Board, Card } from './types.js';
+
+export const CHART_TYPES = ['cfd', 'burndown'] as const;
+export type ChartType = (typeof CHART_TYPES)[number];
+
+export function isValidChartType(value: string): value is ChartType {
+  return CHART_TYPES.includes(value as ChartType);
+}
+
+export interface CfdPoint {
+  date: string;
+  /** Cards in each column at the end of the day */
+  counts: Record<string, number>;
+}
+
+/** Actual values are null for days after today */
+export interface BurndownPoint {
+  date: string;
+  /** Cards on the board at the end of the day */
+  total: number | null;
+  done: number | null;
+  remaining: number | null;
+  /** Straight line from the first day's remaining work to zero on the last day */
+  ideal: number;
+}
+
+const CHART_HEIGHT = 12;
+const CHART_WIDTH = 60;
+/** Fill characters for the CFD bands, cycled when there are more columns */
+const BAND_GLYPHS = ['█', '▓', '▒', '░'];
+
+/**
+ * The column a card was in at `time`, from its column entry times. Cards with
+ * no entry that early are assumed to have started in their first known column
+ * (or their current one); cards created after `time` weren't on the board.
+ */
+export function columnAt(card: Card, time: Date): string | undefined {
+  const created = Date.parse(card.created);
+  if (!isNaN(created) && created > time.getTime()) return undefined;
+
+  const entries = Object.entries(card.entered || {})
+    .map(([column, at]) => ({ column, at: Date.parse(at) }))
+    .filter((e) => !isNaN(e.at))
+    .sort((a, b) => a.at - b.at);
+  if (entries.length === 0) return card.column;
+
+  const reached = entries.filter((e) => e.at <= time.getTime());
+  return (reached.length > 0 ? reached[reached.length - 1] : entries[0]).column;
+}
+
+/**
+ * Each local day from `since` to `until` (inclusive, YYYY-MM-DD) with the
+ * moment its snapshot is taken: the end of the day, or `now` for today.
+ */
+export function chartDays(
+  since: string,
+  until: string,
+  now = new Date()
+): Array<{ date: string; at: Date }> {
+  const days: Array<{ date: string; at: Date }> = [];
+  const cursor = new Date(`${since}T00:00:00`);
+
+  while (formatDate(cursor) <= until) {
+    const date = formatDate(cursor);
+    cursor.setDate(cursor.getDate() + 1);
+    const endOfDay = new Date(cursor.getTime() - 1);
+    days.push({ date, at: endOfDay < now ? endOfDay : now });
+  }
+  return days;
+}
+
+export function cumulativeFlow(
+  board: Board,
+  since: string,
+  until: string,
+  now = new Date()
+): CfdPoint[] {
+  return chartDays(since, until, now)
+    .filter(({ date }) => date <= formatDate(now))
+    .map(({ date, at }) => {
+      const counts = Object.fromEntries(board.columns.map((c) => [c, 0]));
+      for (const card of board.cards) {
+        const column = columnAt(card, at);
+        if (column !== undefined && column in counts) counts[column]++;
+      }
+      return { date, counts };
+    });
+}
+
+/**
+ * Remaining (not done) cards per day. The ideal line runs to `until`, which
+ * may be in the future; actual values stop at today.
+ */
+export function burndown(
+  board: Board,
+  since: string,
+  until: string,
+  now = new Date()
+): BurndownPoint[] {
+  const done = doneColumn(board);
+  const days = chartDays(since, until, now);
+  const today = formatDate(now);
+
+  const points = days.map(({ date, at }): BurndownPoint => {
+    if (date > today) {
+      return { date, total: null, done: null, remaining: null, ideal: 0 };
+    }
+
+    let total = 0;
+    let completed = 0;
+    for (const card of board.cards) {
+      const column = columnAt(card, at);
+      if (column === undefined) continue;
+      total++;
+      if (column === done) completed++;
+    }
+    return { date, total, done: completed, remaining: total - completed, ideal: 0 };
+  });
+
+  const start = points[0]?.remaining ?? 0;
+  const span = Math.max(points.length - 1, 1);
+  points.forEach((point, i) => {
+    point.ideal = Math.round(((start * (span - i)) / span) * 10) / 10;
+  });
+  return points;
+}
+
+export function toCsv(header: string[], rows: Array<Array<string | number>>): string {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [header, ...rows].map((row) => row.map(escape).join(',')).join('\n') + '\n';
+}
+
+export function cfdCsv(points: CfdPoint[], columns: string[]): string {
+  return toCsv(
+    ['date', ...columns],
+    points.map((p) => [p.date, ...columns.map((c) => p.counts[c] ?? 0)])
+  );
+}
+
+export function burndownCsv(points: BurndownPoint[]): string {
+  return toCsv(
+    ['date', 'total', 'done', 'remaining', 'ideal'],
+    points.map((p) => [p.date, p.total ?? '', p.done ?? '', p.remaining ?? '', p.ideal])
+  );
+}
+
+/**
+ * Lays out a grid of cells (one column per day, bottom row first) with a
+ * y-axis scale and the first and last dates underneath.
+ */
+function frame(cells: string[][], max: number, first: string, last: string): string[] {
+  const days = cells.length;
+  const cellWidth = Math.max(1, Math.floor(CHART_WIDTH / Math.max(days, 1)));
+  const axisWidth = String(max).length;
+  const lines: string[] = [];
+
+  for (let row = CHART_HEIGHT - 1; row >= 0; row--) {
+    const label = row === CHART_HEIGHT - 1 ? String(max) : row === 0 ? '0' : '';
+    const body = cells.map((column) => (column[row] ?? ' ').repeat(cellWidth)).join('');
+    lines.push(`${label.padStart(axisWidth)} │${body}`);
+  }
+
+  const width = days * cellWidth;
+  lines.push(`${' '.repeat(axisWidth)} └${'─'.repeat(width)}`);
+  const gap = Math.max(1, width - first.length - last.length);
+  lines.push(`${' '.repeat(axisWidth + 2)}${first}${days > 1 ? ' '.repeat(gap) + last : ''}`);
+  return lines;
+}
+
+function scaleMax(values: number[]): number {
+  return Math.max(1, ...values);
+}
+
+/**
+ * Stacked area chart with the done column at the bottom, as is usual for
+ * cumulative flow diagrams. Returns the chart lines followed by a legend.
+ */
+export function renderCfd(points: CfdPoint[], columns: string[]): string[] {
+  if (points.length === 0) return [];
+  const stack = [...columns].reverse();
+  const max = scaleMax(points.map((p) => stack.reduce((sum, c) => sum + (p.counts[c] ?? 0), 0)));
+
+  const cells = points.map((point) => {
+    const column: string[] = [];
+    for (let row = 0; row < CHART_HEIGHT; row++) {
+      // Fill a cell when the middle of its band is covered
+      const level = ((row + 0.5) / CHART_HEIGHT) * max;
+      let top = 0;
+      column.push(' ');
+      for (let i = 0; i < stack.length; i++) {
+        top += point.counts[stack[i]] ?? 0;
+        if (level < top) {
+          column[row] = BAND_GLYPHS[i % BAND_GLYPHS.length];
+          break;
+        }
+      }
+    }
+    return column;
+  });
+
+  const legend = stack.map((c, i) => `${BAND_GLYPHS[i % BAND_GLYPHS.length]} ${c}`).join('  ');
+  return [...frame(cells, max, points[0].date, points[points.length - 1].date), '', legend];
+}
+
+/**
+ * Bars of remaining work per day, with the ideal line drawn as dots.
+ */
+export function renderBurndown(points: BurndownPoint[]): string[] {
+  if (points.length === 0) return [];
+  const max = scaleMax(points.flatMap((p) => [p.remaining ?? 0, p.ideal]));
+
+  const cells = points.map((point) => {
+    const column: string[] = [];
+    const idealRow = Math.min(CHART_HEIGHT - 1, Math.floor((point.ideal / max) * CHART_HEIGHT));
+    for (let row = 0; row < CHART_HEIGHT; row++) {
+      const level = ((row + 0.5) / CHART_HEIGHT) * max;
+      column.push(level < (point.remaining ?? 0) ? '█' : row === idealRow ? '·' : ' ');
+    }
+    return column;
+  });
+
+  return [
+    ...frame(cells, max, points[0].date, points[points.length - 1].date),
+    '',
+    '█ remaining  · ideal',
+  ];
+}
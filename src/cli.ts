@@ -1,5 +1,6 @@
 #!/usr/bin/env node
 
+import fs from 'fs/promises';
 import { createRequire } from 'module';
 import {
   loadBoard,
@@ -12,94 +13,165 @@ import {
   checklistAdd,
   checklistToggle,
   checklistRemove,
+  addColumn,
+  renameColumn,
+  removeColumn,
+  reorderColumns,
+  setColumnWip,
+  linkCards,
+  unlinkCards,
+  renameCard,
+  assignCard,
+  unassignCard,
+  getCurrentUser,
+  claimCard,
+  renewClaim,
+  releaseClaim,
+  undo,
+  redo,
+  syncBoardFile,
+  getBoardStore,
   getKanbanDir,
 } from './files.js';
-import { watchBoard } from './watch.js';
-import type { Card } from './types.js';
+import { streamBoardEvents, watchBoard } from './watch.js';
+import { runUi } from './tui.js';
+import { DEFAULT_PORT, startServer } from './server.js';
+import { runMcpServer } from './mcp.js';
+import { BOARD_FILE, SYNC_SIDES, isValidSyncSide } from './boardfile.js';
+import { exportObsidianBoard, importObsidianBoard } from './obsidian.js';
+import { readActivity } from './activity.js';
+import { computeStats } from './stats.js';
+import {
+  CHART_TYPES,
+  burndown,
+  burndownCsv,
+  cfdCsv,
+  cumulativeFlow,
+  isValidChartType,
+  renderBurndown,
+  renderCfd,
+} from './charts.js';
+import type { DurationSummary } from './stats.js';
+import type { ActivityEvent, FieldChange } from './activity.js';
+import type { SyncChange } from './files.js';
+import { createClause, filterCards, parseQuery } from './query.js';
+import type { FilterClause } from './query.js';
+import {
+  daysUntil,
+  dueStatus,
+  formatDate,
+  parseDueDate,
+  parseDuration,
+  parsePastDate,
+} from './dates.js';
+import type { DueStatus } from './dates.js';
+import { DEFAULT_LEASE_TTL, isLeaseExpired, parseTtl } from './lease.js';
+import {
+  doneColumn,
+  getRelations,
+  isValidLinkType,
+  LINK_TYPES,
+  openBlockers,
+} from './relations.js';
+import {
+  BOARD_LAYOUTS,
+  colors,
+  formatColumnName,
+  highlightMarkers,
+  isValidLayout,
+  priorityColors,
+  renderColumnLayout,
+  sortCards,
+} from './render.js';
+import type { BoardLayout, CardHighlight } from './render.js';
+import {
+  boardToJson,
+  cardDetailToJson,
+  cardToJson,
+  invalidCardToJson,
+  stripUndefined,
+} from './json.js';
+import { makeSnippet, searchCards } from './search.js';
+import type { SearchMatch } from './search.js';
+import type { Board, Card, InvalidCard } from './types.js';
 import { isValidPriority, KanmdError } from './types.js';
 
 const require = createRequire(import.meta.url);
 const { version: VERSION } = require('../package.json');
 
-// ANSI colors
-const colors = {
-  reset: '\x1b[0m',
-  bold: '\x1b[1m',
-  dim: '\x1b[2m',
-  red: '\x1b[31m',
-  green: '\x1b[32m',
-  yellow: '\x1b[33m',
-  cyan: '\x1b[36m',
-};
-
-const priorityColors: Record<Card['priority'], string> = {
-  high: colors.red,
-  medium: colors.yellow,
-  low: colors.green,
-};
-
-function sortCards(cards: Card[]): Card[] {
-  const priorityOrder: Record<Card['priority'], number> = { high: 0, medium: 1, low: 2 };
-  return [...cards].sort((a, b) => {
-    const priorityDiff = priorityOrder[a.priority] - priorityOrder[b.priority];
-    if (priorityDiff !== 0) return priorityDiff;
-
-    const aRank = a.rank ?? Number.MAX_SAFE_INTEGER;
-    const bRank = b.rank ?? Number.MAX_SAFE_INTEGER;
-    const rankDiff = aRank - bRank;
-    if (rankDiff !== 0) return rankDiff;
-
-    return a.created.localeCompare(b.created);
-  });
-}
-
-function formatColumnName(name: string): string {
-  return name
-    .split('-')
-    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
-    .join(' ');
-}
-
 function jsonOut(data: unknown): void {
   console.log(JSON.stringify(data));
 }
 
-function stripUndefined(obj: Record<string, unknown>): Record<string, unknown> {
-  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined));
+const dueColors: Record<DueStatus, string> = {
+  overdue: colors.red,
+  today: colors.yellow,
+  soon: colors.yellow,
+};
+
+function describeDue(due: string): string {
+  const days = daysUntil(due);
+  if (days < 0) return `overdue by ${-days}d`;
+  if (days === 0) return 'due today';
+  return `due in ${days}d`;
 }
 
-function cardToJson(card: Card): Record<string, unknown> {
-  return stripUndefined({
-    id: card.id,
-    title: card.title,
-    column: card.column,
-    priority: card.priority,
-    labels: card.labels,
-    created: card.created,
-    updated: card.updated,
-    description: card.description,
-    checklist: card.checklist,
-    rank: card.rank,
-  });
+function formatLease(card: Card): string {
+  const lease = card.lease!;
+  return isLeaseExpired(lease)
+    ? `${colors.yellow}[lease expired: ${lease.owner}]${colors.reset}`
+    : `${colors.dim}[claimed by ${lease.owner}]${colors.reset}`;
 }
 
-async function showBoard(json: boolean): Promise<void> {
+async function showBoard(
+  json: boolean,
+  clauses: FilterClause[] = [],
+  layout: BoardLayout = 'stacked',
+  highlights = new Map<string, CardHighlight>()
+): Promise<void> {
   const board = await loadBoard();
+  const filtered = clauses.length > 0;
+  const visibleCards = filterCards(board.cards, clauses);
 
   if (json) {
-    const columns: Record<string, unknown[]> = {};
-    for (const column of board.columns) {
-      columns[column] = sortCards(board.cards.filter((c) => c.column === column)).map(cardToJson);
+    jsonOut(boardToJson(board, visibleCards));
+    return;
+  }
+
+  if (filtered && visibleCards.length === 0) {
+    console.log(`${colors.dim}No matching cards${colors.reset}`);
+    return;
+  }
+
+  // Side by side only makes sense on a terminal wide enough for it; otherwise stack
+  const width = process.stdout.isTTY ? process.stdout.columns : undefined;
+  const sideBySide =
+    layout === 'columns' && width
+      ? renderColumnLayout(board, visibleCards, width, { filtered, highlights })
+      : undefined;
+  if (sideBySide) {
+    console.log();
+    for (const line of sideBySide) {
+      console.log(line);
     }
-    jsonOut({ columns: board.columns, cards: columns });
+    console.log();
+    printBoardWarnings(board);
     return;
   }
 
   console.log();
   for (const column of board.columns) {
-    const cards = sortCards(board.cards.filter((c) => c.column === column));
+    const cards = sortCards(visibleCards.filter((c) => c.column === column));
+    // When filtering, only show columns with matches; the count is the match count
+    if (filtered && cards.length === 0) continue;
+
+    const limit = filtered ? undefined : board.columnSettings[column]?.wip;
+    const overLimit = limit !== undefined && cards.length > limit;
+    const count = limit !== undefined ? `${cards.length}/${limit}` : `${cards.length}`;
+    const countColor = overLimit ? colors.red : colors.dim;
+    const nameColor = overLimit ? colors.red : '';
     console.log(
-      `${colors.bold}${formatColumnName(column)}${colors.reset} ${colors.dim}(${cards.length})${colors.reset}`
+      `${colors.bold}${nameColor}${formatColumnName(column)}${colors.reset} ${countColor}(${count})${colors.reset}`
     );
 
     if (cards.length === 0) {
@@ -110,26 +182,201 @@ async function showBoard(json: boolean): Promise<void> {
         const checkProgress = card.checklist.length
           ? ` ${colors.dim}[${card.checklist.filter((c) => c.checked).length}/${card.checklist.length}]${colors.reset}`
           : '';
+        const blocked =
+          openBlockers(board, card).length > 0 ? ` ${colors.red}[blocked]${colors.reset}` : '';
+        // Finished cards don't need chasing, so only open work is highlighted
+        const status = column !== doneColumn(board) ? dueStatus(card.due) : undefined;
+        const due = card.due
+          ? ` ${status ? dueColors[status] : colors.dim}(due ${card.due})${colors.reset}`
+          : '';
+        const assignees = card.assignees
+          ? ` ${colors.cyan}${card.assignees.map((a) => `@${a}`).join(' ')}${colors.reset}`
+          : '';
+        const claim = card.lease ? ` ${formatLease(card)}` : '';
+        const highlight = highlights.get(card.id);
+        const marker = highlight
+          ? ` ${highlightMarkers[highlight].color}[${highlightMarkers[highlight].label}]${colors.reset}`
+          : '';
+        const title =
+          status === 'overdue' ? `${colors.red}${card.title}${colors.reset}` : card.title;
         console.log(
-          `  ${pColor}●${colors.reset} ${card.title}${checkProgress} ${colors.dim}(${card.id})${colors.reset}`
+          `  ${pColor}●${colors.reset} ${title}${checkProgress}${assignees}${due}${blocked}${claim}${marker} ${colors.dim}(${card.id})${colors.reset}`
         );
       }
     }
     console.log();
   }
+
+  printBoardWarnings(board);
+}
+
+function printBoardWarnings(board: Board): void {
+  for (const orphan of board.orphanedColumns) {
+    console.log(
+      `${colors.yellow}Warning:${colors.reset} "${orphan}/" has cards but is not in board.yaml ${colors.dim}(kanmd column add ${orphan})${colors.reset}`
+    );
+  }
+  for (const card of board.invalidCards) {
+    console.log(
+      `${colors.yellow}Warning:${colors.reset} card "${card.id}" can't be read: ${card.error} ${colors.dim}(kanmd show ${card.id})${colors.reset}`
+    );
+  }
+}
+
+function parseLayout(value: string | undefined): BoardLayout {
+  if (value === undefined) return 'stacked';
+  if (!isValidLayout(value)) {
+    throw new KanmdError(
+      `Invalid layout "${value}". Must be: ${BOARD_LAYOUTS.join(', ')}`,
+      'INVALID_LAYOUT'
+    );
+  }
+  return value;
+}
+
+const LIST_FLAGS: Record<string, string> = {
+  '--label': 'label',
+  '-l': 'label',
+  '--priority': 'priority',
+  '-p': 'priority',
+  '--column': 'column',
+  '-c': 'column',
+  '--assignee': 'assignee',
+  '-a': 'assignee',
+  '--updated-since': 'updated-since',
+  '--created-since': 'created-since',
+};
+
+async function handleList(args: string[], json: boolean, layout: BoardLayout): Promise<void> {
+  const clauses: FilterClause[] = [];
+  const queryParts: string[] = [];
+
+  let i = 0;
+  while (i < args.length) {
+    const arg = args[i];
+    i++;
+
+    if (arg === '--has-unchecked') {
+      clauses.push(createClause('has', 'unchecked'));
+      continue;
+    }
+
+    const field = LIST_FLAGS[arg];
+    if (field) {
+      if (i >= args.length) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      clauses.push(createClause(field, args[i]));
+      i++;
+      continue;
+    }
+
+    if (arg.startsWith('--')) {
+      throw new Error(`Unknown flag: ${arg}`);
+    }
+    queryParts.push(arg);
+  }
+
+  clauses.push(...parseQuery(queryParts.join(' ')));
+  for (const clause of clauses) {
+    if (clause.field === 'assignee' && clause.values.includes('me')) {
+      const user = await requireCurrentUser();
+      clause.values = clause.values.map((v) => (v === 'me' ? user : v));
+    }
+  }
+  await showBoard(json, clauses, layout);
+}
+
+async function requireCurrentUser(): Promise<string> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new KanmdError(
+      'No current user. Set KANMD_USER or add "user: <name>" to board.yaml.',
+      'NO_USER'
+    );
+  }
+  return user;
+}
+
+/**
+ * Splits assignee arguments on commas and resolves "me" to the current user.
+ */
+async function parseAssignees(args: string[]): Promise<string[]> {
+  const names = args
+    .flatMap((arg) => arg.split(','))
+    .map((n) => n.trim())
+    .filter(Boolean);
+  return Promise.all(names.map((n) => (n === 'me' ? requireCurrentUser() : n)));
+}
+
+async function handleMine(json: boolean, layout: BoardLayout): Promise<void> {
+  const user = await requireCurrentUser();
+  await showBoard(json, [createClause('assignee', user)], layout);
+}
+
+async function handleAssign(allArgs: string[], json: boolean, unassign: boolean): Promise<void> {
+  const { value: ifRevision, rest: args } = extractOption(allArgs, '--if-revision');
+  const cardId = args[0];
+  const assignees = await parseAssignees(args.slice(1));
+
+  if (!cardId || (!unassign && assignees.length === 0)) {
+    throw new Error(
+      unassign
+        ? 'Usage: kanmd unassign <card-id> [who...]'
+        : 'Usage: kanmd assign <card-id> <who...>'
+    );
+  }
+
+  const card = unassign
+    ? await unassignCard(cardId, assignees, { ifRevision })
+    : await assignCard(cardId, assignees, { ifRevision });
+
+  if (json) {
+    jsonOut(cardToJson(card));
+    return;
+  }
+  const who = card.assignees ? card.assignees.join(', ') : `${colors.dim}nobody${colors.reset}`;
+  console.log(`${colors.green}${cardId}${colors.reset} assigned to ${who}`);
+}
+
+function showInvalidCard(card: InvalidCard, json: boolean): void {
+  if (json) {
+    jsonOut(invalidCardToJson(card));
+    return;
+  }
+
+  console.log();
+  console.log(`${colors.red}Card "${card.id}" can't be read${colors.reset}`);
+  console.log(`${colors.dim}ID: ${card.id}  Revision: ${card.revision}${colors.reset}`);
+  console.log();
+  console.log(`Column:   ${formatColumnName(card.column)}`);
+  console.log(`Error:    ${card.error}`);
+  console.log();
+  console.log(card.content.trimEnd());
+  console.log();
+  console.log(
+    `${colors.dim}Fix the file, or remove the card with: kanmd delete ${card.id}${colors.reset}`
+  );
 }
 
 async function showCard(cardId: string, json: boolean): Promise<void> {
+  const board = await loadBoard();
+  const invalid = board.invalidCards.find((c) => c.id === cardId);
+  if (invalid) {
+    showInvalidCard(invalid, json);
+    return;
+  }
   const card = await getCard(cardId);
+  const relations = getRelations(board, card);
 
   if (json) {
-    jsonOut(cardToJson(card));
+    jsonOut(cardDetailToJson(board, card));
     return;
   }
 
   console.log();
   console.log(`${colors.bold}${card.title}${colors.reset}`);
-  console.log(`${colors.dim}ID: ${card.id}${colors.reset}`);
+  console.log(`${colors.dim}ID: ${card.id}  Revision: ${card.revision}${colors.reset}`);
   console.log();
   console.log(`Column:   ${formatColumnName(card.column)}`);
   console.log(`Priority: ${priorityColors[card.priority]}${card.priority}${colors.reset}`);
@@ -137,6 +384,19 @@ async function showCard(cardId: string, json: boolean): Promise<void> {
   if (card.updated) {
     console.log(`Updated:  ${card.updated}`);
   }
+  if (card.assignees) {
+    console.log(`Assignee: ${card.assignees.join(', ')}`);
+  }
+  if (card.lease) {
+    console.log(
+      `Claimed:  ${formatLease(card)} ${colors.dim}until ${card.lease.expires}${colors.reset}`
+    );
+  }
+  if (card.due) {
+    const status = card.column !== doneColumn(board) ? dueStatus(card.due) : undefined;
+    const color = status ? dueColors[status] : '';
+    console.log(`Due:      ${color}${card.due} (${describeDue(card.due)})${colors.reset}`);
+  }
 
   if (card.labels.length > 0) {
     console.log(
@@ -144,6 +404,32 @@ async function showCard(cardId: string, json: boolean): Promise<void> {
     );
   }
 
+  const related: Array<[string, Card[]]> = [
+    ['Blocked by', relations.blockedBy],
+    ['Blocks', relations.blocks],
+    ['Parent', relations.parent ? [relations.parent] : []],
+    ['Children', relations.children],
+  ];
+  if (related.some(([, cards]) => cards.length > 0)) {
+    const open = new Set(openBlockers(board, card).map((c) => c.id));
+    console.log();
+    console.log(`${colors.bold}Related${colors.reset}`);
+    for (const [name, cards] of related) {
+      for (const other of cards) {
+        const state =
+          name === 'Blocked by' && open.has(other.id) ? ` ${colors.red}(open)${colors.reset}` : '';
+        console.log(
+          `  ${colors.dim}${name.padEnd(10)}${colors.reset} ${other.title} ${colors.dim}(${other.id}, ${formatColumnName(other.column)})${colors.reset}${state}`
+        );
+      }
+    }
+  }
+
+  if (card.preamble) {
+    console.log();
+    console.log(card.preamble);
+  }
+
   if (card.description) {
     console.log();
     console.log(`${colors.bold}Description${colors.reset}`);
@@ -162,18 +448,28 @@ async function showCard(cardId: string, json: boolean): Promise<void> {
       console.log(`  ${colors.dim}${i + 1}.${colors.reset} ${check} ${text}`);
     }
   }
+
+  for (const section of card.extraSections || []) {
+    console.log();
+    console.log(`${colors.bold}${section.heading}${colors.reset}`);
+    if (section.body) {
+      console.log(section.body);
+    }
+  }
   console.log();
 }
 
 async function handleAdd(args: string[], json: boolean): Promise<void> {
-  const column = args[0];
-  const title = args.slice(1).join(' ');
+  const { present: force, rest: withoutForce } = extractFlag(args, '--force');
+  const { present: skipWorkflow, rest } = extractFlag(withoutForce, '--skip-workflow');
+  const column = rest[0];
+  const title = rest.slice(1).join(' ');
 
   if (!column || !title) {
-    throw new Error('Usage: kanmd add <column> <title>');
+    throw new Error('Usage: kanmd add <column> <title> [--force] [--skip-workflow]');
   }
 
-  const card = await addCard(column, title);
+  const card = await addCard(column, title, 'medium', { force, skipWorkflow });
 
   if (json) {
     jsonOut(cardToJson(card));
@@ -183,13 +479,18 @@ async function handleAdd(args: string[], json: boolean): Promise<void> {
 }
 
 async function handleMove(args: string[], json: boolean): Promise<void> {
-  const [cardId, toColumn] = args;
+  const { value: ifRevision, rest: withoutRevision } = extractOption(args, '--if-revision');
+  const { present: force, rest: withoutForce } = extractFlag(withoutRevision, '--force');
+  const { present: skipWorkflow, rest } = extractFlag(withoutForce, '--skip-workflow');
+  const [cardId, toColumn] = rest;
 
   if (!cardId || !toColumn) {
-    throw new Error('Usage: kanmd move <card-id> <column>');
+    throw new Error(
+      'Usage: kanmd move <card-id> <column> [--force] [--skip-workflow] [--if-revision <rev>]'
+    );
   }
 
-  await moveCard(cardId, toColumn);
+  await moveCard(cardId, toColumn, { force, skipWorkflow, ifRevision });
 
   if (json) {
     jsonOut({ ok: true, id: cardId, column: toColumn });
@@ -198,14 +499,15 @@ async function handleMove(args: string[], json: boolean): Promise<void> {
   console.log(`Moved ${colors.green}${cardId}${colors.reset} to ${formatColumnName(toColumn)}`);
 }
 
-async function handleDelete(args: string[], json: boolean): Promise<void> {
+async function handleDelete(allArgs: string[], json: boolean): Promise<void> {
+  const { value: ifRevision, rest: args } = extractOption(allArgs, '--if-revision');
   const cardId = args[0];
 
   if (!cardId) {
-    throw new Error('Usage: kanmd delete <card-id>');
+    throw new Error('Usage: kanmd delete <card-id> [--if-revision <rev>]');
   }
 
-  await deleteCard(cardId);
+  await deleteCard(cardId, { ifRevision });
 
   if (json) {
     jsonOut({ ok: true, id: cardId });
@@ -214,7 +516,514 @@ async function handleDelete(args: string[], json: boolean): Promise<void> {
   console.log(`Deleted ${colors.red}${cardId}${colors.reset}`);
 }
 
-async function handlePriority(args: string[], json: boolean): Promise<void> {
+async function handleClaim(
+  args: string[],
+  json: boolean,
+  action: 'claim' | 'renew' | 'release'
+): Promise<void> {
+  const { present: force, rest } = extractFlag(args, '--force');
+  let ttl = DEFAULT_LEASE_TTL;
+  let owner: string | undefined;
+  const positional: string[] = [];
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if ((arg === '--ttl' || arg === '--as') && i + 1 >= rest.length) {
+      throw new Error(`Missing value for ${arg}`);
+    }
+    if (arg === '--ttl') {
+      ttl = rest[++i];
+    } else if (arg === '--as') {
+      owner = rest[++i];
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown flag: ${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const cardId = positional[0];
+  if (!cardId) {
+    throw new Error(
+      action === 'release'
+        ? 'Usage: kanmd release <card-id> [--as <owner>] [--force]'
+        : `Usage: kanmd ${action} <card-id> [--ttl 30m] [--as <owner>]`
+    );
+  }
+
+  const ttlMs = parseTtl(ttl);
+  const who = owner || (await requireCurrentUser());
+  const card =
+    action === 'claim'
+      ? await claimCard(cardId, who, ttlMs)
+      : action === 'renew'
+        ? await renewClaim(cardId, who, ttlMs)
+        : await releaseClaim(cardId, who, { force });
+
+  if (json) {
+    jsonOut(cardToJson(card));
+    return;
+  }
+  if (action === 'release') {
+    console.log(`Released ${colors.green}${cardId}${colors.reset}`);
+  } else {
+    const verb = action === 'claim' ? 'Claimed' : 'Renewed';
+    console.log(
+      `${verb} ${colors.green}${cardId}${colors.reset} for ${who} until ${card.lease!.expires}`
+    );
+  }
+}
+
+async function handleDue(args: string[], json: boolean): Promise<void> {
+  let within: number | undefined;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--within' || args[i] === '-w') {
+      if (i + 1 >= args.length) {
+        throw new Error(`Missing value for ${args[i]}`);
+      }
+      within = parseDuration(args[++i]);
+    } else {
+      throw new Error(`Unknown flag: ${args[i]}`);
+    }
+  }
+
+  // Overdue cards have negative days left, so --within never hides them
+  const board = await loadBoard();
+  const done = doneColumn(board);
+  const cards = board.cards
+    .filter((c) => c.due && c.column !== done)
+    .filter((c) => within === undefined || daysUntil(c.due!) <= within)
+    .sort((a, b) => a.due!.localeCompare(b.due!) || a.id.localeCompare(b.id));
+
+  if (json) {
+    jsonOut(
+      stripUndefined({
+        within,
+        cards: cards.map((card) =>
+          stripUndefined({
+            ...cardToJson(card),
+            daysLeft: daysUntil(card.due!),
+            status: dueStatus(card.due),
+          })
+        ),
+      })
+    );
+    return;
+  }
+
+  if (cards.length === 0) {
+    console.log(`${colors.dim}Nothing due${colors.reset}`);
+    return;
+  }
+
+  console.log();
+  for (const card of cards) {
+    const status = dueStatus(card.due);
+    const color = status ? dueColors[status] : colors.dim;
+    console.log(
+      `  ${color}${card.due}  ${describeDue(card.due!).padEnd(15)}${colors.reset} ${card.title} ${colors.dim}(${card.id}, ${formatColumnName(card.column)})${colors.reset}`
+    );
+  }
+  console.log();
+}
+
+const DEFAULT_RANGE_SINCE = '4w';
+
+/**
+ * Reads --since/--until for stats and charts. Both are whole local days and
+ * inclusive; the range defaults to the last four weeks.
+ */
+function parseDateRange(args: string[]): { since: string; until: string; rest: string[] } {
+  const sinceOption = extractOption(args, '--since');
+  const untilOption = extractOption(sinceOption.rest, '--until');
+  const since = parsePastDate(sinceOption.value ?? DEFAULT_RANGE_SINCE);
+  const until = untilOption.value ? parsePastDate(untilOption.value) : formatDate(new Date());
+
+  if (since > until) {
+    throw new Error('--since must not be after --until');
+  }
+  return { since, until, rest: untilOption.rest };
+}
+
+function formatDays(value: number | null): string {
+  return value === null ? '-' : `${value.toFixed(1)}d`;
+}
+
+function printSummaryRow(name: string, summary: DurationSummary): void {
+  const values = [summary.average, summary.median, summary.p85];
+  const cells = values.map((v) => formatDays(v).padStart(8));
+  console.log(
+    `  ${name.padEnd(16)}${cells.join('')}${colors.dim}${String(summary.count).padStart(8)}${colors.reset}`
+  );
+}
+
+async function handleStats(args: string[], json: boolean): Promise<void> {
+  const { since, until, rest } = parseDateRange(args);
+  if (rest.length > 0) {
+    throw new Error(`Unknown flag: ${rest[0]}`);
+  }
+
+  // until is inclusive, so count up to the start of the following day
+  const start = new Date(`${since}T00:00:00`);
+  const end = new Date(`${until}T00:00:00`);
+  end.setDate(end.getDate() + 1);
+
+  const board = await loadBoard();
+  const stats = computeStats(board, { since: start, until: end });
+
+  if (json) {
+    jsonOut({ since, until, ...stats });
+    return;
+  }
+
+  console.log();
+  console.log(
+    `${colors.bold}Stats ${since} → ${until}${colors.reset}  ${colors.dim}${stats.completed} completed, ${stats.open} open${colors.reset}`
+  );
+  console.log();
+  console.log(
+    `${colors.dim}  ${''.padEnd(16)}${['avg', 'median', '85th', 'cards'].map((h) => h.padStart(8)).join('')}${colors.reset}`
+  );
+  printSummaryRow('Lead time', stats.leadTime);
+  printSummaryRow('Cycle time', stats.cycleTime);
+  for (const [column, summary] of Object.entries(stats.timeInColumn)) {
+    printSummaryRow(`  ${formatColumnName(column)}`, summary);
+  }
+
+  console.log();
+  console.log(`${colors.bold}Throughput per week${colors.reset}`);
+  for (const { week, count } of stats.throughput) {
+    console.log(`  ${colors.dim}${week}${colors.reset}  ${'█'.repeat(count)} ${count}`);
+  }
+
+  console.log();
+  console.log(`${colors.bold}Cards${colors.reset}  ${colors.dim}(completed / open)${colors.reset}`);
+  for (const [priority, counts] of Object.entries(stats.byPriority)) {
+    const color = priorityColors[priority as Card['priority']];
+    console.log(
+      `  ${color}${priority.padEnd(14)}${colors.reset}${counts.completed} / ${counts.open}`
+    );
+  }
+  const labels = Object.entries(stats.byLabel).sort(([a], [b]) => a.localeCompare(b));
+  for (const [label, counts] of labels) {
+    console.log(
+      `  ${colors.cyan}${label.padEnd(14)}${colors.reset}${counts.completed} / ${counts.open}`
+    );
+  }
+  console.log();
+}
+
+async function handleChart(args: string[], json: boolean): Promise<void> {
+  const type = args[0];
+  if (!type || !isValidChartType(type)) {
+    throw new Error(`Usage: kanmd chart <${CHART_TYPES.join('|')}> [--since <date>] [--csv]`);
+  }
+
+  const { present: csv, rest: flags } = extractFlag(args.slice(1), '--csv');
+  const { since, until, rest } = parseDateRange(flags);
+  if (rest.length > 0) {
+    throw new Error(`Unknown flag: ${rest[0]}`);
+  }
+
+  const board = await loadBoard();
+
+  if (type === 'cfd') {
+    const points = cumulativeFlow(board, since, until);
+    if (json) {
+      jsonOut({ type, since, until, columns: board.columns, points });
+    } else if (csv) {
+      process.stdout.write(cfdCsv(points, board.columns));
+    } else {
+      printChart('Cumulative flow', since, until, renderCfd(points, board.columns));
+    }
+    return;
+  }
+
+  const points = burndown(board, since, until);
+  if (json) {
+    jsonOut({ type, since, until, points });
+  } else if (csv) {
+    process.stdout.write(burndownCsv(points));
+  } else {
+    printChart('Burndown', since, until, renderBurndown(points));
+  }
+}
+
+function printChart(title: string, since: string, until: string, lines: string[]): void {
+  console.log();
+  console.log(
+    `${colors.bold}${title}${colors.reset}  ${colors.dim}${since} → ${until}${colors.reset}`
+  );
+  console.log();
+  for (const line of lines) {
+    console.log(line ? `  ${line}` : '');
+  }
+  console.log();
+}
+
+function formatValue(field: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') return 'none';
+  if (field === 'checklist' && Array.isArray(value)) {
+    const done = value.filter((item: { checked: boolean }) => item.checked).length;
+    return `${done}/${value.length}`;
+  }
+  if (field === 'lease' && typeof value === 'object') {
+    return (value as { owner: string }).owner;
+  }
+  if (Array.isArray(value)) return value.join(', ') || 'none';
+  return String(value);
+}
+
+function describeChange(field: string, change: FieldChange): string {
+  if (field === 'description') return 'description edited';
+  return `${field}: ${formatValue(field, change.from)} → ${formatValue(field, change.to)}`;
+}
+
+function describeEvent(event: ActivityEvent): string {
+  const { changes } = event;
+  switch (event.action) {
+    case 'add':
+      return `created in ${formatColumnName(String(changes.column?.to))}`;
+    case 'delete':
+      return `deleted from ${formatColumnName(String(changes.column?.from))}`;
+    case 'move':
+      return `${formatColumnName(String(changes.column?.from))} → ${formatColumnName(String(changes.column?.to))}`;
+    case 'rename':
+      return `renamed from ${changes.id?.from}`;
+    case 'import':
+      return `imported into ${formatColumnName(String(changes.column?.to))}`;
+    default:
+      return Object.entries(changes)
+        .map(([field, change]) => describeChange(field, change))
+        .join('; ');
+  }
+}
+
+function printEvents(events: ActivityEvent[], showCard: boolean): void {
+  console.log();
+  for (const event of events) {
+    const time = event.time.replace('T', ' ').slice(0, 16);
+    const card = showCard ? ` ${colors.green}${event.card}${colors.reset}` : '';
+    console.log(
+      `  ${colors.dim}${time}${colors.reset}  ${colors.cyan}${event.actor}${colors.reset}  ${colors.bold}${event.action}${colors.reset}${card}  ${describeEvent(event)}`
+    );
+  }
+  console.log();
+}
+
+async function handleHistory(args: string[], json: boolean): Promise<void> {
+  const cardId = args[0];
+  if (!cardId) {
+    throw new Error('Usage: kanmd history <card-id>');
+  }
+
+  const events = await readActivity(getBoardStore(), { card: cardId });
+
+  if (json) {
+    jsonOut({ id: cardId, events });
+    return;
+  }
+  if (events.length === 0) {
+    console.log(`${colors.dim}No recorded activity for ${cardId}${colors.reset}`);
+    return;
+  }
+  printEvents(events, false);
+}
+
+async function handleLog(args: string[], json: boolean): Promise<void> {
+  let limit = 20;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--limit' || args[i] === '-n') {
+      limit = parseInt(args[++i], 10);
+      if (isNaN(limit) || limit < 1) {
+        throw new Error('Limit must be a positive integer');
+      }
+    } else {
+      throw new Error(`Unknown flag: ${args[i]}`);
+    }
+  }
+
+  // Newest first, like git log
+  const events = (await readActivity(getBoardStore(), { limit })).reverse();
+
+  if (json) {
+    jsonOut({ events });
+    return;
+  }
+  if (events.length === 0) {
+    console.log(`${colors.dim}No recorded activity${colors.reset}`);
+    return;
+  }
+  printEvents(events, true);
+}
+
+async function handleUndo(args: string[], json: boolean, kind: 'undo' | 'redo'): Promise<void> {
+  const count = args[0] === undefined ? 1 : parseInt(args[0], 10);
+  if (isNaN(count) || count < 1) {
+    throw new Error(`Usage: kanmd ${kind} [n]`);
+  }
+
+  const operations = kind === 'undo' ? await undo(count) : await redo(count);
+
+  if (json) {
+    const key = kind === 'undo' ? 'undone' : 'redone';
+    jsonOut({ [key]: operations.map(({ id, action, card }) => ({ id, action, card })) });
+    return;
+  }
+  const verb = kind === 'undo' ? 'Undid' : 'Redid';
+  for (const operation of operations) {
+    console.log(`${verb} ${operation.action} of ${colors.green}${operation.card}${colors.reset}`);
+  }
+}
+
+function printSyncChanges(target: string, changes: SyncChange[]): void {
+  if (changes.length === 0) return;
+  const signs = {
+    added: `${colors.green}+`,
+    updated: `${colors.yellow}~`,
+    deleted: `${colors.red}-`,
+  };
+  console.log(`${colors.bold}${target}:${colors.reset}`);
+  for (const { id, column, change } of changes) {
+    console.log(`  ${signs[change]}${colors.reset} ${id} ${colors.dim}(${column})${colors.reset}`);
+  }
+}
+
+async function handleSync(args: string[], json: boolean): Promise<void> {
+  const { value: prefer, rest } = extractOption(args, '--prefer');
+  if (rest.length > 0) {
+    throw new Error(`Usage: kanmd sync [--prefer ${SYNC_SIDES.join('|')}]`);
+  }
+  if (prefer !== undefined && !isValidSyncSide(prefer)) {
+    throw new KanmdError(
+      `Invalid side "${prefer}". Must be: ${SYNC_SIDES.join(', ')}`,
+      'INVALID_SYNC_SIDE'
+    );
+  }
+
+  const result = await syncBoardFile(prefer);
+
+  if (!json) {
+    printSyncChanges(BOARD_FILE, result.toFile);
+    printSyncChanges('Card files', result.toDirectories);
+  }
+  if (result.conflicts.length > 0) {
+    throw new KanmdError(
+      `Changed in both ${BOARD_FILE} and the card files: ${result.conflicts.join(', ')}. ` +
+        `Run kanmd sync --prefer ${SYNC_SIDES.join('|')} to pick which side wins.`,
+      'SYNC_CONFLICT',
+      { ...result }
+    );
+  }
+  if (json) {
+    jsonOut(result);
+  } else if (result.toFile.length === 0 && result.toDirectories.length === 0) {
+    console.log(`${colors.dim}${BOARD_FILE} and the card files are in sync${colors.reset}`);
+  }
+}
+
+const BOARD_FORMATS = ['obsidian'];
+
+function assertBoardFormat(format: string | undefined, usage: string): void {
+  if (format === undefined) throw new Error(usage);
+  if (!BOARD_FORMATS.includes(format)) {
+    throw new KanmdError(
+      `Unknown format "${format}". Must be: ${BOARD_FORMATS.join(', ')}`,
+      'INVALID_FORMAT'
+    );
+  }
+}
+
+async function handleImport(args: string[], json: boolean): Promise<void> {
+  const [format, file] = args;
+  const usage = 'Usage: kanmd import obsidian <file>';
+  assertBoardFormat(format, usage);
+  if (!file) throw new Error(usage);
+
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf-8');
+  } catch {
+    throw new KanmdError(`Cannot read "${file}"`, 'FILE_NOT_FOUND');
+  }
+  const result = await importObsidianBoard(text, file);
+
+  if (json) {
+    jsonOut({ ...result, cards: result.cards.map(cardToJson) });
+    return;
+  }
+  for (const column of result.columns) {
+    console.log(`Added column ${colors.green}${formatColumnName(column)}${colors.reset}`);
+  }
+  console.log(`Imported ${result.cards.length} card(s) from ${file}`);
+  if (result.skipped.length > 0) {
+    console.log(
+      `${colors.yellow}Skipped${colors.reset} ${result.skipped.length} already on the board or without a usable title: ${result.skipped.join(', ')}`
+    );
+  }
+}
+
+async function handleExport(args: string[], json: boolean): Promise<void> {
+  assertBoardFormat(args[0], 'Usage: kanmd export obsidian > board.md');
+  const markdown = await exportObsidianBoard();
+
+  if (json) {
+    jsonOut({ format: args[0], content: markdown });
+    return;
+  }
+  process.stdout.write(markdown);
+}
+
+async function handleRename(args: string[], json: boolean): Promise<void> {
+  const [cardId, newId] = args;
+
+  if (!cardId || !newId) {
+    throw new Error('Usage: kanmd rename <card-id> <new-id>');
+  }
+
+  const card = await renameCard(cardId, newId);
+
+  if (json) {
+    jsonOut(cardToJson(card));
+    return;
+  }
+  console.log(
+    `Renamed ${colors.dim}${cardId}${colors.reset} to ${colors.green}${card.id}${colors.reset}`
+  );
+}
+
+async function handleLink(args: string[], json: boolean, unlink: boolean): Promise<void> {
+  const [cardId, type, targetId] = args;
+  const command = unlink ? 'unlink' : 'link';
+
+  if (!cardId || !type || !targetId) {
+    throw new Error(`Usage: kanmd ${command} <card-id> <${LINK_TYPES.join('|')}> <card-id>`);
+  }
+  if (!isValidLinkType(type)) {
+    throw new KanmdError(
+      `Invalid link type "${type}". Must be: ${LINK_TYPES.join(', ')}`,
+      'INVALID_LINK'
+    );
+  }
+
+  if (unlink) {
+    await unlinkCards(cardId, type, targetId);
+  } else {
+    await linkCards(cardId, type, targetId);
+  }
+
+  if (json) {
+    jsonOut({ ok: true, id: cardId, type, target: targetId });
+    return;
+  }
+  const verb = unlink ? 'Unlinked' : 'Linked';
+  console.log(
+    `${verb} ${colors.green}${cardId}${colors.reset} ${type} ${colors.green}${targetId}${colors.reset}`
+  );
+}
+
+async function handlePriority(allArgs: string[], json: boolean): Promise<void> {
+  const { value: ifRevision, rest: args } = extractOption(allArgs, '--if-revision');
   const [cardId, priority] = args;
 
   if (!cardId || !priority) {
@@ -226,7 +1035,7 @@ async function handlePriority(args: string[], json: boolean): Promise<void> {
   }
 
   // Clear rank when priority changes (card moves to different priority group)
-  await editCard(cardId, { priority, rank: undefined });
+  await editCard(cardId, { priority, rank: undefined }, { ifRevision });
 
   if (json) {
     jsonOut({ ok: true, id: cardId, priority });
@@ -235,7 +1044,8 @@ async function handlePriority(args: string[], json: boolean): Promise<void> {
   console.log(`Set ${cardId} priority to ${priorityColors[priority]}${priority}${colors.reset}`);
 }
 
-async function handleRank(args: string[], json: boolean): Promise<void> {
+async function handleRank(allArgs: string[], json: boolean): Promise<void> {
+  const { value: ifRevision, rest: args } = extractOption(allArgs, '--if-revision');
   const [cardId, positionStr] = args;
 
   if (!cardId || !positionStr) {
@@ -247,7 +1057,7 @@ async function handleRank(args: string[], json: boolean): Promise<void> {
     throw new Error('Position must be a positive integer');
   }
 
-  await rankCard(cardId, position);
+  await rankCard(cardId, position, { ifRevision });
 
   if (json) {
     jsonOut({ ok: true, id: cardId, position });
@@ -256,10 +1066,13 @@ async function handleRank(args: string[], json: boolean): Promise<void> {
   console.log(`Moved ${colors.green}${cardId}${colors.reset} to position ${position}`);
 }
 
-async function handleEdit(args: string[], json: boolean): Promise<void> {
+async function handleEdit(allArgs: string[], json: boolean): Promise<void> {
+  const { value: ifRevision, rest: args } = extractOption(allArgs, '--if-revision');
   const cardId = args[0];
   if (!cardId) {
-    throw new Error('Usage: kanmd edit <card-id> [--title <text>] [-d <text>] [-l <labels>]');
+    throw new Error(
+      'Usage: kanmd edit <card-id> [--title <text>] [-d <text>] [-l <labels>] [--due <date>]'
+    );
   }
 
   const updates: Partial<Card> = {};
@@ -288,16 +1101,19 @@ async function handleEdit(args: string[], json: boolean): Promise<void> {
           .map((l) => l.trim())
           .filter(Boolean);
         break;
+      case '--due':
+        updates.due = value === 'none' ? undefined : parseDueDate(value);
+        break;
       default:
         throw new Error(`Unknown flag: ${flag}`);
     }
   }
 
   if (Object.keys(updates).length === 0) {
-    throw new Error('No updates provided. Use --title, --description, or --labels.');
+    throw new Error('No updates provided. Use --title, --description, --labels, or --due.');
   }
 
-  await editCard(cardId, updates);
+  await editCard(cardId, updates, { ifRevision });
 
   if (json) {
     const card = await getCard(cardId);
@@ -307,7 +1123,8 @@ async function handleEdit(args: string[], json: boolean): Promise<void> {
   console.log(`Updated ${colors.green}${cardId}${colors.reset}`);
 }
 
-async function handleChecklist(args: string[], json: boolean): Promise<void> {
+async function handleChecklist(allArgs: string[], json: boolean): Promise<void> {
+  const { value: ifRevision, rest: args } = extractOption(allArgs, '--if-revision');
   const subcommand = args[0];
   const cardId = args[1];
 
@@ -323,7 +1140,7 @@ async function handleChecklist(args: string[], json: boolean): Promise<void> {
       if (!text) {
         throw new Error('Usage: kanmd checklist add <card-id> <text>');
       }
-      const card = await checklistAdd(cardId, text);
+      const card = await checklistAdd(cardId, text, { ifRevision });
       if (json) {
         jsonOut(cardToJson(card));
         return;
@@ -342,7 +1159,7 @@ async function handleChecklist(args: string[], json: boolean): Promise<void> {
       if (isNaN(index) || index < 1) {
         throw new Error('Index must be a positive integer');
       }
-      const card = await checklistToggle(cardId, index);
+      const card = await checklistToggle(cardId, index, { ifRevision });
       const item = card.checklist[index - 1];
       if (json) {
         jsonOut(cardToJson(card));
@@ -363,7 +1180,7 @@ async function handleChecklist(args: string[], json: boolean): Promise<void> {
       if (isNaN(idx) || idx < 1) {
         throw new Error('Index must be a positive integer');
       }
-      const card = await checklistRemove(cardId, idx);
+      const card = await checklistRemove(cardId, idx, { ifRevision });
       if (json) {
         jsonOut(cardToJson(card));
         return;
@@ -378,6 +1195,198 @@ async function handleChecklist(args: string[], json: boolean): Promise<void> {
   }
 }
 
+async function handleColumn(args: string[], json: boolean): Promise<void> {
+  const subcommand = args[0];
+
+  switch (subcommand) {
+    case 'add': {
+      const [name, positionStr] = args.slice(1);
+      if (!name) {
+        throw new Error('Usage: kanmd column add <name> [position]');
+      }
+      let position: number | undefined;
+      if (positionStr !== undefined) {
+        position = parseInt(positionStr, 10);
+        if (isNaN(position) || position < 1) {
+          throw new Error('Position must be a positive integer');
+        }
+      }
+      const columns = await addColumn(name, position);
+      if (json) {
+        jsonOut({ ok: true, column: name, columns });
+        return;
+      }
+      console.log(`Added column ${colors.green}${formatColumnName(name)}${colors.reset}`);
+      break;
+    }
+    case 'rename': {
+      const [from, to] = args.slice(1);
+      if (!from || !to) {
+        throw new Error('Usage: kanmd column rename <column> <new-name>');
+      }
+      const columns = await renameColumn(from, to);
+      if (json) {
+        jsonOut({ ok: true, from, to, columns });
+        return;
+      }
+      console.log(
+        `Renamed ${formatColumnName(from)} to ${colors.green}${formatColumnName(to)}${colors.reset}`
+      );
+      break;
+    }
+    case 'remove':
+    case 'rm': {
+      const rest = args.slice(1);
+      let toColumn: string | undefined;
+      const toIndex = rest.indexOf('--to');
+      if (toIndex !== -1) {
+        toColumn = rest[toIndex + 1];
+        if (!toColumn) {
+          throw new Error('Missing value for --to');
+        }
+        rest.splice(toIndex, 2);
+      }
+      const name = rest[0];
+      if (!name) {
+        throw new Error('Usage: kanmd column remove <column> [--to <column>]');
+      }
+      const columns = await removeColumn(name, toColumn);
+      if (json) {
+        jsonOut(stripUndefined({ ok: true, column: name, movedTo: toColumn, columns }));
+        return;
+      }
+      const moved = toColumn ? ` (cards moved to ${formatColumnName(toColumn)})` : '';
+      console.log(`Removed column ${colors.red}${formatColumnName(name)}${colors.reset}${moved}`);
+      break;
+    }
+    case 'reorder': {
+      const order = args.slice(1);
+      if (order.length === 0) {
+        throw new Error('Usage: kanmd column reorder <column> <column> ...');
+      }
+      const columns = await reorderColumns(order);
+      if (json) {
+        jsonOut({ ok: true, columns });
+        return;
+      }
+      console.log(`Columns: ${columns.map(formatColumnName).join(' → ')}`);
+      break;
+    }
+    case 'wip': {
+      const [name, limitStr] = args.slice(1);
+      if (!name || !limitStr) {
+        throw new Error('Usage: kanmd column wip <column> <limit|none>');
+      }
+      let limit: number | undefined;
+      if (limitStr !== 'none') {
+        limit = parseInt(limitStr, 10);
+        if (isNaN(limit) || limit < 1) {
+          throw new Error('WIP limit must be a positive integer or "none"');
+        }
+      }
+      await setColumnWip(name, limit);
+      if (json) {
+        jsonOut({ ok: true, column: name, wip: limit ?? null });
+        return;
+      }
+      console.log(
+        limit === undefined
+          ? `Cleared WIP limit on ${formatColumnName(name)}`
+          : `Set WIP limit on ${formatColumnName(name)} to ${limit}`
+      );
+      break;
+    }
+    default:
+      throw new Error('Usage: kanmd column <add|rename|remove|reorder|wip> ...');
+  }
+}
+
+function highlight(text: string, ranges: Array<[number, number]>): string {
+  let out = '';
+  let last = 0;
+  for (const [start, end] of ranges) {
+    out +=
+      text.slice(last, start) + colors.bold + colors.yellow + text.slice(start, end) + colors.reset;
+    last = end;
+  }
+  return out + text.slice(last);
+}
+
+async function handleSearch(args: string[], json: boolean): Promise<void> {
+  let regex = false;
+  let caseSensitive = false;
+  const words: string[] = [];
+
+  for (const arg of args) {
+    if (arg === '--regex' || arg === '-e') {
+      regex = true;
+    } else if (arg === '--case-sensitive' || arg === '-s') {
+      caseSensitive = true;
+    } else {
+      words.push(arg);
+    }
+  }
+
+  const query = words.join(' ');
+  if (!query) {
+    throw new Error('Usage: kanmd search <text> [--regex] [--case-sensitive]');
+  }
+
+  const board = await loadBoard();
+  const results = searchCards(board.cards, query, { regex, caseSensitive });
+
+  if (json) {
+    jsonOut({
+      query,
+      results: results.map((r) => ({
+        id: r.card.id,
+        title: r.card.title,
+        column: r.card.column,
+        score: r.score,
+        matches: r.matches.map((m) => stripUndefined({ ...m })),
+      })),
+    });
+    return;
+  }
+
+  if (results.length === 0) {
+    console.log(`${colors.dim}No cards match "${query}"${colors.reset}`);
+    return;
+  }
+
+  console.log();
+  for (const { card, matches } of results) {
+    const pColor = priorityColors[card.priority];
+    console.log(
+      `${pColor}●${colors.reset} ${card.title} ${colors.dim}(${card.id}) in ${formatColumnName(card.column)}${colors.reset}`
+    );
+
+    // One snippet per field (and per label/checklist item)
+    const groups = new Map<string, SearchMatch[]>();
+    for (const match of matches) {
+      const key = match.item ? `${match.field} ${match.item}` : match.field;
+      groups.set(key, [...(groups.get(key) || []), match]);
+    }
+    for (const [key, group] of groups) {
+      const { field, item } = group[0];
+      const source =
+        field === 'title'
+          ? card.title
+          : field === 'description'
+            ? card.description
+            : field === 'label'
+              ? card.labels[item! - 1]
+              : card.checklist[item! - 1].text;
+      const snippet = makeSnippet(source, group);
+      console.log(
+        `    ${colors.dim}${key}:${colors.reset} ${highlight(snippet.text, snippet.ranges)}`
+      );
+    }
+  }
+  console.log();
+  console.log(`${colors.dim}${results.length} card(s) matched${colors.reset}`);
+}
+
 async function handleShow(args: string[], json: boolean): Promise<void> {
   const cardId = args[0];
   if (!cardId) {
@@ -386,8 +1395,37 @@ async function handleShow(args: string[], json: boolean): Promise<void> {
   await showCard(cardId, json);
 }
 
-async function handleWatch(): Promise<void> {
-  await watchBoard(getKanbanDir(), () => showBoard(false));
+async function handleServe(allArgs: string[], json: boolean): Promise<void> {
+  const { value: portOption, rest } = extractOption(allArgs, '--port');
+  if (rest.length > 0) {
+    throw new Error('Usage: kanmd serve [--port <port>]');
+  }
+  const port = portOption === undefined ? DEFAULT_PORT : Number(portOption);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new KanmdError(`Invalid port "${portOption}"`, 'INVALID_PORT');
+  }
+
+  const { url, close } = await startServer(port);
+  if (json) {
+    jsonOut({ url });
+  } else {
+    console.log(`Serving the board at ${colors.cyan}${url}${colors.reset} (Ctrl+C to stop)`);
+  }
+
+  const stop = async () => {
+    await close();
+    process.exit(0);
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+}
+
+async function handleWatch(json: boolean, layout: BoardLayout): Promise<void> {
+  if (json) {
+    await streamBoardEvents(getKanbanDir());
+    return;
+  }
+  await watchBoard(getKanbanDir(), (changes) => showBoard(false, [], layout, changes));
 }
 
 function showHelp(): void {
@@ -396,38 +1434,116 @@ ${colors.bold}kanmd${colors.reset} - Markdown-backed Kanban CLI
 
 ${colors.bold}Usage:${colors.reset}
   kanmd                                Show the board
+  kanmd ls [filters] [query]           Show matching cards
   kanmd show <card-id>                 Show card details
-  kanmd add <column> <title>           Add a card
-  kanmd move <card-id> <column>        Move a card
+  kanmd search <text>                  Search titles, labels, checklists, descriptions
+  kanmd add <column> <title>           Add a card (--force ignores WIP limit)
+  kanmd move <card-id> <column>        Move a card (--force ignores WIP limit)
   kanmd delete <card-id>               Delete a card
+  kanmd rename <card-id> <new-id>      Change a card's ID (updates links)
+  kanmd history <card-id>              Show a card's change history
+  kanmd log [-n 20]                    Show recent board activity
+  kanmd undo [n]                       Undo your last n operations (default 1)
+  kanmd redo [n]                       Redo what you last undid
+  kanmd sync [--prefer <side>]         Reconcile BOARD.md with the card files (file|directories)
+  kanmd import obsidian <file>         Add the lanes and cards of an Obsidian Kanban board
+  kanmd export obsidian                Print the board as an Obsidian Kanban board
+  kanmd link <id> <type> <id>          Link cards (blocks|blocked-by|parent|child)
+  kanmd unlink <id> <type> <id>        Remove a link
   kanmd priority <card-id> <p>         Set priority (high|medium|low)
   kanmd rank <card-id> <pos>           Set position within priority group
   kanmd edit <card-id> [options]       Edit card fields
+  kanmd due [--within 7d]              List open cards by due date
+  kanmd stats [--since 4w] [--until d] Lead/cycle time, throughput and card counts
+  kanmd chart cfd [--since 4w]         Cumulative flow diagram (--csv for the data)
+  kanmd chart burndown [--since d]     Burndown of open cards (--until sets the end)
+  kanmd assign <card-id> <who...>      Assign a card ("me" = current user)
+  kanmd unassign <card-id> [who...]    Remove assignees (all if none given)
+  kanmd mine                           Show cards assigned to the current user
+  kanmd claim <card-id> [--ttl 30m]    Take a lease on a card (fails if held by another)
+  kanmd renew <card-id> [--ttl 30m]    Extend your lease
+  kanmd release <card-id>              Drop your lease (--force drops anyone's)
   kanmd checklist add <id> <text>      Add checklist item
   kanmd checklist toggle <id> <index>  Toggle checklist item
   kanmd checklist remove <id> <index>  Remove checklist item
-  kanmd watch                          Watch board for changes
+  kanmd column add <name> [pos]        Add a column
+  kanmd column rename <col> <name>     Rename a column (moves its cards)
+  kanmd column remove <col> [--to c]   Remove a column (--to moves its cards)
+  kanmd column reorder <col> ...       Set column order
+  kanmd column wip <col> <n|none>      Set or clear a column's WIP limit
+  kanmd watch                          Watch board for changes (--json: NDJSON events)
+  kanmd ui                             Open the interactive board (q to quit)
+  kanmd serve [--port 4321]            Serve a JSON API and change events on localhost
+  kanmd mcp                            Run an MCP server on stdio for AI agents
   kanmd help                           Show this help
   kanmd --version                      Show version
 
+${colors.bold}List Filters:${colors.reset}
+  --label, -l <labels>           Cards with a label (comma = any of)
+  --priority, -p <p>             Cards with a priority (comma = any of)
+  --column, -c <columns>         Cards in a column (comma = any of)
+  --assignee, -a <who>           Cards assigned to someone ("me" = KANMD_USER)
+  --has-unchecked                Cards with unchecked checklist items
+  --updated-since <date>         Cards updated (or created) since a date
+  --created-since <date>         Cards created since a date
+  <query>                        e.g. "label:auth priority:high -label:wip"
+
+${colors.bold}Search Options:${colors.reset}
+  --regex, -e                    Treat the text as a regular expression
+  --case-sensitive, -s           Match case exactly
+
 ${colors.bold}Edit Options:${colors.reset}
   --title <text>                 Update the card title
   --description, -d <text>       Update the description
   --labels, -l <labels>          Set labels (comma-separated)
+  --due <date>                   Set due date (YYYY-MM-DD, today, +3d, +2w, none)
+
+${colors.bold}Board Layout:${colors.reset}
+  --layout <stacked|columns>     Stack columns (default) or draw them side by side
+                                 (board, ls, mine, watch; stacks when narrow or piped)
 
 ${colors.bold}JSON Output:${colors.reset}
   --json                         Output machine-readable JSON (all commands)
 
+${colors.bold}Workflow:${colors.reset}
+  --skip-workflow                Skip transition rules, entry gates and blockers (add, move)
+
+${colors.bold}Concurrency:${colors.reset}
+  --if-revision <rev>            Only change the card if it is still at this revision
+                                 (edit, move, priority, rank, checklist, assign, delete)
+
 ${colors.bold}Examples:${colors.reset}
   kanmd add todo "Build login page"
   kanmd move build-login-page in-progress
   kanmd priority build-login-page high
   kanmd rank build-login-page 1
   kanmd edit build-login-page --title "New title" --labels "feature,auth"
+  kanmd edit build-login-page --due +3d
+  kanmd due --within 7d --json
+  kanmd stats --since 2026-09-01 --json
+  kanmd chart burndown --since 2026-10-12 --until 2026-10-23
+  kanmd chart cfd --since 8w --csv > cfd.csv
+  kanmd assign build-login-page alice
+  KANMD_USER=agent-1 kanmd mine --json
+  KANMD_USER=agent-1 kanmd claim build-login-page --ttl 45m
   kanmd checklist add build-login-page "Write tests"
   kanmd checklist toggle build-login-page 1
   kanmd show build-login-page
   kanmd show build-login-page --json
+  kanmd edit build-login-page -d "Done" --if-revision 3f2a9c1b7d40
+  kanmd ls --label auth --has-unchecked
+  kanmd --layout columns
+  kanmd ls "label:auth priority:high -label:wip" --json
+  kanmd search "oauth" --json
+  kanmd column add blocked 3
+  kanmd column remove review --to done
+  kanmd link setup-database blocks build-login-page
+  kanmd link build-login-page parent auth-epic
+  kanmd history build-login-page
+  kanmd log -n 50 --json
+  kanmd undo 2
+  kanmd sync --prefer file
+  kanmd export obsidian > ~/notes/Project.md
   kanmd delete build-login-page
 `);
 }
@@ -436,25 +1552,50 @@ function showVersion(): void {
   console.log(`kanmd v${VERSION}`);
 }
 
-function extractJsonFlag(args: string[]): { json: boolean; rest: string[] } {
-  const jsonIndex = args.indexOf('--json');
-  if (jsonIndex === -1) return { json: false, rest: args };
+/**
+ * Removes `flag <value>` from args. Returns the value, or undefined when absent.
+ */
+function extractOption(args: string[], flag: string): { value?: string; rest: string[] } {
+  const index = args.indexOf(flag);
+  if (index === -1) return { rest: args };
+  if (index + 1 >= args.length) {
+    throw new Error(`Missing value for ${flag}`);
+  }
   const rest = [...args];
-  rest.splice(jsonIndex, 1);
-  return { json: true, rest };
+  const [, value] = rest.splice(index, 2);
+  return { value, rest };
+}
+
+function extractFlag(args: string[], flag: string): { present: boolean; rest: string[] } {
+  const index = args.indexOf(flag);
+  if (index === -1) return { present: false, rest: args };
+  const rest = [...args];
+  rest.splice(index, 1);
+  return { present: true, rest };
+}
+
+function extractJsonFlag(args: string[]): { json: boolean; rest: string[] } {
+  const { present, rest } = extractFlag(args, '--json');
+  return { json: present, rest };
 }
 
 async function main(): Promise<void> {
   const rawArgs = process.argv.slice(2);
-  const { json, rest: args } = extractJsonFlag(rawArgs);
-  const command = args[0];
+  const { json, rest } = extractJsonFlag(rawArgs);
 
   try {
+    // --layout, like --json, can go anywhere on the command line
+    const { value: layoutOption, rest: args } = extractOption(rest, '--layout');
+    const layout = parseLayout(layoutOption);
+    const command = args[0];
+
     switch (command) {
       case undefined:
+        await showBoard(json, [], layout);
+        break;
       case 'list':
       case 'ls':
-        await showBoard(json);
+        await handleList(args.slice(1), json, layout);
         break;
       case 'show':
       case 'view':
@@ -474,6 +1615,57 @@ async function main(): Promise<void> {
       case 'remove':
         await handleDelete(args.slice(1), json);
         break;
+      case 'assign':
+        await handleAssign(args.slice(1), json, false);
+        break;
+      case 'unassign':
+        await handleAssign(args.slice(1), json, true);
+        break;
+      case 'mine':
+        await handleMine(json, layout);
+        break;
+      case 'claim':
+      case 'renew':
+      case 'release':
+        await handleClaim(args.slice(1), json, command);
+        break;
+      case 'due':
+        await handleDue(args.slice(1), json);
+        break;
+      case 'history':
+        await handleHistory(args.slice(1), json);
+        break;
+      case 'log':
+        await handleLog(args.slice(1), json);
+        break;
+      case 'stats':
+        await handleStats(args.slice(1), json);
+        break;
+      case 'chart':
+        await handleChart(args.slice(1), json);
+        break;
+      case 'undo':
+      case 'redo':
+        await handleUndo(args.slice(1), json, command);
+        break;
+      case 'sync':
+        await handleSync(args.slice(1), json);
+        break;
+      case 'import':
+        await handleImport(args.slice(1), json);
+        break;
+      case 'export':
+        await handleExport(args.slice(1), json);
+        break;
+      case 'rename':
+        await handleRename(args.slice(1), json);
+        break;
+      case 'link':
+        await handleLink(args.slice(1), json, false);
+        break;
+      case 'unlink':
+        await handleLink(args.slice(1), json, true);
+        break;
       case 'priority':
       case 'pri':
         await handlePriority(args.slice(1), json);
@@ -488,9 +1680,26 @@ async function main(): Promise<void> {
       case 'cl':
         await handleChecklist(args.slice(1), json);
         break;
+      case 'column':
+      case 'col':
+        await handleColumn(args.slice(1), json);
+        break;
+      case 'search':
+      case 'find':
+        await handleSearch(args.slice(1), json);
+        break;
+      case 'ui':
+        await runUi();
+        break;
+      case 'serve':
+        await handleServe(args.slice(1), json);
+        break;
+      case 'mcp':
+        await runMcpServer(VERSION);
+        break;
       case 'watch':
       case 'tail':
-        await handleWatch();
+        await handleWatch(json, layout);
         break;
       case 'help':
       case '--help':
@@ -514,7 +1723,8 @@ async function main(): Promise<void> {
     if (json) {
       const error = err as Error;
       const code = err instanceof KanmdError ? (err as KanmdError).code : 'ERROR';
-      jsonOut({ error: error.message, code });
+      const details = err instanceof KanmdError ? (err as KanmdError).details : undefined;
+      jsonOut(stripUndefined({ error: error.message, code, details }));
       process.exit(1);
     }
     console.error(`${colors.red}Error:${colors.reset} ${(err as Error).message}`);
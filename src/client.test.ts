@@ -0,0 +1,149 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { readActivity } from './activity.js';
+import { createBoard } from './client.js';
+import { createDirectoryStore, createMemoryStore } from './store.js';
+import { KanmdError } from './types.js';
+import type { Priority } from './types.js';
+
+const ROOT = path.join(os.tmpdir(), 'kanmd-client-test');
+const FIRST_DIR = path.join(ROOT, 'first');
+const SECOND_DIR = path.join(ROOT, 'second');
+
+async function setupBoard(dir: string): Promise<void> {
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, 'board.yaml'), 'columns:\n  - todo\n  - doing\n  - done\n');
+}
+
+describe('createBoard', () => {
+  beforeEach(async () => {
+    await fs.rm(ROOT, { recursive: true, force: true });
+    await setupBoard(FIRST_DIR);
+    await setupBoard(SECOND_DIR);
+  });
+
+  afterEach(async () => {
+    await fs.rm(ROOT, { recursive: true, force: true });
+  });
+
+  test('requires a directory or store', () => {
+    expect(() => createBoard({ dir: '' })).toThrow(KanmdError);
+    expect(() => createBoard({})).toThrow(KanmdError);
+  });
+
+  test('adds, moves, edits, ranks and deletes cards', async () => {
+    const board = createBoard({ dir: FIRST_DIR });
+
+    const added = await board.add('todo', 'Task A', { priority: 'high' });
+    expect(added).toMatchObject({ id: 'task-a', column: 'todo', priority: 'high' });
+    await board.add('doing', 'Task B', { priority: 'high' });
+
+    const moved = await board.move('task-a', 'doing');
+    expect(moved.column).toBe('doing');
+
+    const edited = await board.edit('task-a', { labels: ['api'], due: '2026-11-01' });
+    expect(edited).toMatchObject({ labels: ['api'], due: '2026-11-01' });
+
+    const ranked = await board.rank('task-a', 1);
+    expect(ranked.rank).toBe(1);
+    const reprioritized = await board.edit('task-a', { priority: 'low' });
+    expect(reprioritized.rank).toBeUndefined();
+
+    await board.delete('task-b');
+    expect((await board.load()).cards.map((c) => c.id)).toEqual(['task-a']);
+    await expect(board.get('task-b')).rejects.toMatchObject({ code: 'CARD_NOT_FOUND' });
+  });
+
+  test('adds, toggles and removes checklist items', async () => {
+    const board = createBoard({ dir: FIRST_DIR });
+    await board.add('todo', 'Task A');
+
+    await board.checklist.add('task-a', 'Write tests');
+    const toggled = await board.checklist.toggle('task-a', 1);
+    expect(toggled.checklist).toEqual([{ text: 'Write tests', checked: true }]);
+
+    const removed = await board.checklist.remove('task-a', 1);
+    expect(removed.checklist).toEqual([]);
+  });
+
+  test('queries cards in board order', async () => {
+    const board = createBoard({ dir: FIRST_DIR });
+    await board.add('doing', 'Task A', { priority: 'high' });
+    await board.add('todo', 'Task B', { priority: 'low' });
+    await board.add('todo', 'Task C', { priority: 'high' });
+    await board.edit('task-b', { labels: ['api'] });
+
+    expect((await board.query()).map((c) => c.id)).toEqual(['task-c', 'task-b', 'task-a']);
+    expect((await board.query('label:api')).map((c) => c.id)).toEqual(['task-b']);
+    expect((await board.query('priority:high -column:doing')).map((c) => c.id)).toEqual(['task-c']);
+  });
+
+  test('keeps boards in one process apart, even when used concurrently', async () => {
+    const first = createBoard({ dir: FIRST_DIR, user: 'alice' });
+    const second = createBoard({ dir: SECOND_DIR, user: 'bob' });
+
+    await Promise.all([
+      first.add('todo', 'First task'),
+      second.add('todo', 'Second task'),
+      first.add('doing', 'Another first task'),
+    ]);
+
+    expect((await first.query()).map((c) => c.id).sort()).toEqual([
+      'another-first-task',
+      'first-task',
+    ]);
+    expect((await second.query()).map((c) => c.id)).toEqual(['second-task']);
+
+    const firstActors = (await readActivity(createDirectoryStore(FIRST_DIR))).map((e) => e.actor);
+    const secondActors = (await readActivity(createDirectoryStore(SECOND_DIR))).map((e) => e.actor);
+    expect(firstActors).toEqual(['alice', 'alice']);
+    expect(secondActors).toEqual(['bob']);
+  });
+
+  test('works on a board held in memory', async () => {
+    const store = createMemoryStore({ 'board.yaml': 'columns:\n  - todo\n  - done\n' });
+    const board = createBoard({ store, user: 'alice' });
+
+    await board.add('todo', 'Task A');
+    await board.move('task-a', 'done');
+    await board.edit('task-a', { title: 'Renamed' });
+
+    expect((await board.query()).map((c) => [c.id, c.column, c.title])).toEqual([
+      ['task-a', 'done', 'Renamed'],
+    ]);
+    expect(await store.read('done/task-a.md')).toContain('# Renamed');
+    expect((await readActivity(store)).map((e) => e.action)).toEqual(['add', 'move', 'edit']);
+    await expect(fs.access(path.join(ROOT, 'done'))).rejects.toThrow();
+  });
+
+  test('enforces the same rules as the CLI', async () => {
+    const board = createBoard({ dir: FIRST_DIR });
+    const card = await board.add('todo', 'Task A');
+
+    await expect(board.edit('task-a', { title: 'New' }, { ifRevision: '0' })).rejects.toMatchObject(
+      { code: 'CONFLICT' }
+    );
+    const edited = await board.edit('task-a', { title: 'New' }, { ifRevision: card.revision });
+    expect(edited.title).toBe('New');
+
+    await expect(board.move('task-a', 'nope')).rejects.toMatchObject({
+      code: 'COLUMN_NOT_FOUND',
+    });
+  });
+
+  test('rejects invalid priorities from untyped callers', async () => {
+    const board = createBoard({ dir: FIRST_DIR });
+    const bogus = 'bogus' as Priority;
+
+    await expect(board.add('todo', 'Task A', { priority: bogus })).rejects.toMatchObject({
+      code: 'INVALID_PRIORITY',
+    });
+    await board.add('todo', 'Task A');
+    await expect(board.edit('task-a', { priority: bogus })).rejects.toMatchObject({
+      code: 'INVALID_PRIORITY',
+    });
+    expect((await board.get('task-a')).priority).toBe('medium');
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  addCard,
+  checklistAdd,
+  checklistRemove,
+  checklistToggle,
+  deleteCard,
+  editCard,
+  getCard,
+  loadBoard,
+  moveCard,
+  rankCard,
+  withBoardContext,
+} from './files.js';
+import type { BoardContext } from './files.js';
+import { filterCards, parseQuery } from './query.js';
+import { sortCards } from './render.js';
+import { createDirectoryStore } from './store.js';
+import type { BoardStore } from './store.js';
+import { isValidPriority, KanmdError } from './types.js';
+import type { Board, Card, MutationOptions, PlacementOptions, Priority } from './types.js';
+
+export interface BoardOptions {
+  /** The board directory, holding board.yaml (e.g. "my-project/.kanmd"); a default board is created if missing */
+  dir?: string;
+  /** Where the board is kept, in place of `dir` (e.g. createMemoryStore()) */
+  store?: BoardStore;
+  /** Who changes are recorded as in the activity log; defaults to KANMD_USER */
+  user?: string;
+}
+
+export interface AddCardOptions extends PlacementOptions {
+  priority?: Priority;
+}
+
+/** Fields `edit` can change. Setting `due` to undefined clears it. */
+export type CardUpdates = Partial<
+  Pick<Card, 'title' | 'description' | 'labels' | 'due' | 'priority'>
+>;
+
+/**
+ * One board's operations. Each works like the matching CLI command: WIP
+ * limits, workflow rules, revisions, the activity log and undo all apply.
+ */
+export interface BoardClient {
+  /** Where the board is kept */
+  readonly store: BoardStore;
+  load(): Promise<Board>;
+  get(cardId: string): Promise<Card>;
+  /**
+   * Cards in board order (by column, then priority and rank). `filter` uses
+   * the `kanmd ls` query syntax, e.g. "label:auth priority:high -label:wip".
+   */
+  query(filter?: string): Promise<Card[]>;
+  add(column: string, title: string, options?: AddCardOptions): Promise<Card>;
+  move(cardId: string, column: string, options?: PlacementOptions & MutationOptions): Promise<Card>;
+  edit(cardId: string, updates: CardUpdates, options?: MutationOptions): Promise<Card>;
+  /** Sets the card's 1-based position within its priority group */
+  rank(cardId: string, position: number, options?: MutationOptions): Promise<Card>;
+  delete(cardId: string, options?: MutationOptions): Promise<void>;
+  checklist: {
+    add(cardId: string, text: string, options?: MutationOptions): Promise<Card>;
+    /** `index` is 1-based, as in the CLI */
+    toggle(cardId: string, index: number, options?: MutationOptions): Promise<Card>;
+    remove(cardId: string, index: number, options?: MutationOptions): Promise<Card>;
+  };
+}
+
+/**
+ * Opens the board in `options.dir` or `options.store`. Clients for different
+ * boards can be used side by side in one process; KANMD_DIR and the working
+ * directory are ignored.
+ */
+// TypeScript checks priorities, but plain JavaScript callers can pass anything
+function assertPriority(priority: unknown): void {
+  if (!isValidPriority(String(priority))) {
+    throw new KanmdError(
+      `Invalid priority "${priority}". Must be: high, medium, or low`,
+      'INVALID_PRIORITY'
+    );
+  }
+}
+
+export function createBoard(options: BoardOptions): BoardClient {
+  const { dir, store, user } = options ?? {};
+  if (store === undefined && (typeof dir !== 'string' || !dir)) {
+    throw new KanmdError('createBoard needs a board directory or store', 'INVALID_OPTIONS');
+  }
+  const context: BoardContext = { store: store ?? createDirectoryStore(dir!), user };
+  const run = <T>(fn: () => Promise<T>): Promise<T> => withBoardContext(context, fn);
+
+  return {
+    store: context.store,
+    load: () => run(loadBoard),
+    get: (cardId) => run(() => getCard(cardId)),
+    query: (filter) =>
+      run(async () => {
+        const board = await loadBoard();
+        const cards = filter ? filterCards(board.cards, parseQuery(filter)) : board.cards;
+        return board.columns.flatMap((column) =>
+          sortCards(cards.filter((c) => c.column === column))
+        );
+      }),
+    add: (column, title, { priority = 'medium', ...placement } = {}) =>
+      run(async () => {
+        assertPriority(priority);
+        return addCard(column, title, priority, placement);
+      }),
+    move: (cardId, column, moveOptions) =>
+      run(async () => {
+        await moveCard(cardId, column, moveOptions);
+        return getCard(cardId);
+      }),
+    edit: (cardId, updates, editOptions) =>
+      run(async () => {
+        if ('priority' in updates) assertPriority(updates.priority);
+        // Changing priority moves the card to another group, so its rank no longer applies
+        const changes: Partial<Card> =
+          'priority' in updates ? { ...updates, rank: undefined } : updates;
+        await editCard(cardId, changes, editOptions);
+        return getCard(cardId);
+      }),
+    rank: (cardId, position, rankOptions) =>
+      run(async () => {
+        await rankCard(cardId, position, rankOptions);
+        return getCard(cardId);
+      }),
+    delete: (cardId, deleteOptions) => run(() => deleteCard(cardId, deleteOptions)),
+    checklist: {
+      add: (cardId, text, checklistOptions) =>
+        run(() => checklistAdd(cardId, text, checklistOptions)),
+      toggle: (cardId, index, checklistOptions) =>
+        run(() => checklistToggle(cardId, index, checklistOptions)),
+      remove: (cardId, index, checklistOptions) =>
+        run(() => checklistRemove(cardId, index, checklistOptions)),
+    },
+  };
+}
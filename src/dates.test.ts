@@ -0,0 +1,77 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  daysUntil,
+  dueStatus,
+  formatDate,
+  parseDueDate,
+  parseDuration,
+  parsePastDate,
+} from './dates.js';
+import { KanmdError } from './types.js';
+
+// Local noon avoids surprises around midnight in any timezone
+const NOW = new Date(2026, 9, 19, 12, 0, 0);
+
+describe('parseDueDate', () => {
+  test('accepts ISO dates as-is', () => {
+    expect(parseDueDate('2026-11-01', NOW)).toBe('2026-11-01');
+  });
+
+  test('resolves keywords and relative offsets', () => {
+    expect(parseDueDate('today', NOW)).toBe('2026-10-19');
+    expect(parseDueDate('Tomorrow', NOW)).toBe('2026-10-20');
+    expect(parseDueDate('+3d', NOW)).toBe('2026-10-22');
+    expect(parseDueDate('+2w', NOW)).toBe('2026-11-02');
+  });
+
+  test('rejects invalid input', () => {
+    expect(() => parseDueDate('2026-02-30', NOW)).toThrow(KanmdError);
+    expect(() => parseDueDate('next week', NOW)).toThrow('Invalid due date');
+    expect(() => parseDueDate('-3d', NOW)).toThrow('Invalid due date');
+  });
+});
+
+describe('parsePastDate', () => {
+  test('treats durations as lookbacks', () => {
+    expect(parsePastDate('7d', NOW)).toBe('2026-10-12');
+    expect(parsePastDate('4w', NOW)).toBe('2026-09-21');
+  });
+
+  test('accepts anything parseDueDate does', () => {
+    expect(parsePastDate('2026-09-01', NOW)).toBe('2026-09-01');
+    expect(parsePastDate('today', NOW)).toBe('2026-10-19');
+    expect(() => parsePastDate('last week', NOW)).toThrow(KanmdError);
+  });
+});
+
+describe('parseDuration', () => {
+  test('parses days and weeks', () => {
+    expect(parseDuration('7d')).toBe(7);
+    expect(parseDuration('2w')).toBe(14);
+    expect(parseDuration('5')).toBe(5);
+  });
+
+  test('rejects other units', () => {
+    expect(() => parseDuration('1m')).toThrow('Invalid duration');
+  });
+});
+
+describe('dueStatus', () => {
+  test('classifies by days left', () => {
+    expect(dueStatus('2026-10-18', NOW)).toBe('overdue');
+    expect(dueStatus('2026-10-19', NOW)).toBe('today');
+    expect(dueStatus('2026-10-21', NOW)).toBe('soon');
+    expect(dueStatus('2026-10-22', NOW)).toBeUndefined();
+  });
+
+  test('ignores missing or malformed dates', () => {
+    expect(dueStatus(undefined, NOW)).toBeUndefined();
+    expect(dueStatus('soon', NOW)).toBeUndefined();
+  });
+
+  test('daysUntil counts calendar days', () => {
+    expect(daysUntil('2026-10-18', NOW)).toBe(-1);
+    expect(daysUntil('2026-11-19', NOW)).toBe(31);
+    expect(formatDate(NOW)).toBe('2026-10-19');
+  });
+});
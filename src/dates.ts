@@ -0,0 +1,97 @@
+import { KanmdError } from './types.js';
+
+/** Cards due within this many days (and not yet overdue) count as due soon */
+export const DUE_SOON_DAYS = 2;
+
+export type DueStatus = 'overdue' | 'today' | 'soon';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const RELATIVE = /^\+(\d+)([dw])$/;
+
+/**
+ * Formats a date as YYYY-MM-DD in local time.
+ */
+export function formatDate(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+function isCalendarDate(value: string): boolean {
+  const match = ISO_DATE.exec(value);
+  if (!match) return false;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Parses a due date given as YYYY-MM-DD, "today", "tomorrow" or a relative
+ * offset such as "+3d" or "+2w". Returns a YYYY-MM-DD string.
+ */
+export function parseDueDate(input: string, now: Date = new Date()): string {
+  const value = input.trim().toLowerCase();
+
+  if (isCalendarDate(value)) return value;
+  if (value === 'today') return formatDate(now);
+  if (value === 'tomorrow') return addDays(now, 1);
+
+  const relative = RELATIVE.exec(value);
+  if (relative) {
+    const amount = Number(relative[1]) * (relative[2] === 'w' ? 7 : 1);
+    return addDays(now, amount);
+  }
+
+  throw new KanmdError(
+    `Invalid due date "${input}". Use YYYY-MM-DD, today, tomorrow, or +Nd/+Nw.`,
+    'INVALID_DATE'
+  );
+}
+
+/**
+ * Parses a window such as "7d", "2w" or a plain number of days.
+ */
+export function parseDuration(input: string): number {
+  const match = /^(\d+)([dw]?)$/.exec(input.trim().toLowerCase());
+  if (!match) {
+    throw new KanmdError(`Invalid duration "${input}". Use e.g. 7d or 2w.`, 'INVALID_DATE');
+  }
+  return Number(match[1]) * (match[2] === 'w' ? 7 : 1);
+}
+
+/**
+ * Parses the start of a date range: anything parseDueDate accepts, or a
+ * lookback such as "30d" or "4w" meaning that long ago. Returns YYYY-MM-DD.
+ */
+export function parsePastDate(input: string, now: Date = new Date()): string {
+  if (/^\d+[dw]$/.test(input.trim().toLowerCase())) {
+    return addDays(now, -parseDuration(input));
+  }
+  return parseDueDate(input, now);
+}
+
+function addDays(date: Date, days: number): string {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+  return formatDate(result);
+}
+
+/**
+ * Whole days from today until `due` (negative when overdue).
+ */
+export function daysUntil(due: string, now: Date = new Date()): number {
+  const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  const [year, month, day] = due.split('-').map(Number);
+  return Math.round((Date.UTC(year, month - 1, day) - today) / DAY_MS);
+}
+
+export function dueStatus(due: string | undefined, now: Date = new Date()): DueStatus | undefined {
+  if (!due || !isCalendarDate(due)) return undefined;
+
+  const days = daysUntil(due, now);
+  if (days < 0) return 'overdue';
+  if (days === 0) return 'today';
+  if (days <= DUE_SOON_DAYS) return 'soon';
+  return undefined;
+}
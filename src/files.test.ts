@@ -3,9 +3,6 @@ import fs from 'fs/promises';
 import path from 'path';
 import {
   validatePathComponent,
-  parseFrontmatter,
-  parseCard,
-  serializeCard,
   addCard,
   loadBoard,
   moveCard,
@@ -16,8 +13,28 @@ import {
   checklistAdd,
   checklistToggle,
   checklistRemove,
+  addColumn,
+  renameColumn,
+  removeColumn,
+  reorderColumns,
+  setColumnWip,
+  linkCards,
+  unlinkCards,
+  renameCard,
+  assignCard,
+  unassignCard,
+  getCurrentUser,
+  claimCard,
+  renewClaim,
+  releaseClaim,
+  undo,
+  redo,
 } from './files.js';
+import { readActivity } from './activity.js';
+import { parseCard, parseFrontmatter, serializeCard } from './card.js';
+import { createDirectoryStore } from './store.js';
 import { KanmdError } from './types.js';
+import type { PlacementOptions } from './types.js';
 
 const KANBAN_DIR = process.env.KANMD_DIR!;
 
@@ -201,6 +218,49 @@ rank: not-a-number
     const result = parseFrontmatter(markdown);
     expect(result.frontmatter.rank).toBeUndefined();
   });
+
+  test('parses YAML list syntax for labels', () => {
+    const markdown = `---
+labels:
+  - bug
+  - "needs: triage"
+---
+
+# Title`;
+
+    const result = parseFrontmatter(markdown);
+    expect(result.frontmatter.labels).toEqual(['bug', 'needs: triage']);
+  });
+
+  test('only ends frontmatter at a standalone --- line', () => {
+    const markdown = `---
+note: "before --- after"
+---
+
+# Title --- with dashes`;
+
+    const result = parseFrontmatter(markdown);
+    expect(result.frontmatter.note).toBe('before --- after');
+    expect(result.content).toBe('# Title --- with dashes');
+  });
+
+  test('reports YAML errors with file and line', () => {
+    const markdown = `---
+priority: high
+labels: [bug
+---
+
+# Title`;
+
+    try {
+      parseFrontmatter(markdown, 'todo/broken.md');
+      throw new Error('Expected parse error');
+    } catch (err) {
+      expect(err).toBeInstanceOf(KanmdError);
+      expect((err as KanmdError).code).toBe('YAML_PARSE_ERROR');
+      expect((err as KanmdError).message).toStartWith('todo/broken.md:3:');
+    }
+  });
 });
 
 describe('parseCard', () => {
@@ -297,6 +357,48 @@ rank: 2
     const card = parseCard(markdown, 'my-card.md', 'todo');
     expect(card.rank).toBe(2);
   });
+
+  test('keeps unknown frontmatter keys in order', () => {
+    const markdown = `---
+priority: medium
+owner: sam
+labels:
+estimate: 3
+---
+
+# My Card`;
+
+    const card = parseCard(markdown, 'my-card.md', 'todo');
+    expect(card.extraFrontmatter).toEqual({ owner: 'sam', estimate: 3 });
+    expect(Object.keys(card.extraFrontmatter!)).toEqual(['owner', 'estimate']);
+  });
+
+  test('keeps unknown sections in order', () => {
+    const markdown = `# Title
+
+## Notes
+Some notes.
+
+## Description
+Desc.
+
+## Acceptance Criteria
+- Works
+  - Nested`;
+
+    const card = parseCard(markdown, 'test.md', 'todo');
+    expect(card.description).toBe('Desc.');
+    expect(card.extraSections).toEqual([
+      { heading: 'Notes', body: 'Some notes.' },
+      { heading: 'Acceptance Criteria', body: '- Works\n  - Nested' },
+    ]);
+  });
+
+  test('leaves extras undefined when there are none', () => {
+    const card = parseCard('# Plain', 'plain.md', 'todo');
+    expect(card.extraFrontmatter).toBeUndefined();
+    expect(card.extraSections).toBeUndefined();
+  });
 });
 
 describe('serializeCard', () => {
@@ -433,6 +535,127 @@ describe('serializeCard', () => {
 
     expect(parsed.rank).toBe(3);
   });
+
+  test('quotes values that need it', () => {
+    const card = {
+      title: 'Quoted',
+      labels: ['needs: triage', 'a,b'],
+      created: '2024-01-15',
+      extraFrontmatter: { owner: 'true', notes: 'line one\nline two' },
+    };
+
+    const parsed = parseCard(serializeCard(card), 'quoted.md', 'todo');
+    expect(parsed.labels).toEqual(['needs: triage', 'a,b']);
+    expect(parsed.extraFrontmatter).toEqual({ owner: 'true', notes: 'line one\nline two' });
+  });
+
+  test('round-trips unknown frontmatter and sections', () => {
+    const markdown = `---
+priority: high
+labels: bug
+created: 2024-01-15
+owner: sam
+---
+
+# Title
+
+## Description
+Desc.
+
+## Checklist
+- [ ] Item
+
+## Notes
+Line one
+
+Line two
+`;
+
+    const card = parseCard(markdown, 'title.md', 'todo');
+    expect(serializeCard(card)).toBe(markdown);
+  });
+
+  test('round-trips text between the title and the first section', () => {
+    const markdown = `---
+priority: medium
+labels:
+created: 2024-01-15
+---
+
+# Title
+
+Context written before any section.
+
+## Description
+Desc.
+`;
+
+    const card = parseCard(markdown, 'title.md', 'todo');
+    expect(card.preamble).toBe('Context written before any section.');
+    expect(serializeCard(card)).toBe(markdown);
+  });
+
+  test('round-trips checklist lines that are not items', () => {
+    const markdown = `---
+priority: medium
+labels:
+created: 2024-01-15
+---
+
+# Title
+
+## Checklist
+Before release:
+- [ ] Tag
+  (ask Sam first)
+
+- [x] Changelog
+`;
+
+    const card = parseCard(markdown, 'title.md', 'todo');
+    expect(card.checklist).toHaveLength(2);
+    expect(serializeCard(card)).toBe(markdown);
+    expect(
+      serializeCard({ ...card, checklist: [card.checklist[0], { text: 'Docs', checked: false }] })
+    ).toContain('- [ ] Tag\n  (ask Sam first)\n\n- [ ] Docs\n');
+  });
+
+  test('round-trips sections written before Description', () => {
+    const markdown = `---
+priority: medium
+labels:
+created: 2024-01-15
+---
+
+# Title
+
+## Context
+Why this matters.
+
+## Checklist
+- [ ] Item
+
+## Description
+Desc.
+
+## Notes
+More.
+`;
+
+    const card = parseCard(markdown, 'title.md', 'todo');
+    expect(card.sectionOrder).toEqual(['Context', 'Checklist', 'Description', 'Notes']);
+    expect(serializeCard(card)).toBe(markdown);
+    expect(serializeCard({ ...card, description: 'Edited.' })).toBe(
+      markdown.replace('Desc.', 'Edited.')
+    );
+  });
+
+  test('leaves the layout fields unset for cards in the usual layout', () => {
+    const card = parseCard('# Title\n\n## Description\nDesc.\n\n## Notes\nMore.', 'a.md', 'todo');
+    expect(card.preamble).toBeUndefined();
+    expect(card.checklistNotes).toBeUndefined();
+    expect(card.sectionOrder).toBeUndefined();
+  });
 });
 
 describe('addCard', () => {
@@ -554,6 +777,21 @@ describe('editCard', () => {
     expect(card.description).toBe('Added description');
   });
 
+  test('keeps hand-written sections and frontmatter', async () => {
+    const cardPath = path.join(KANBAN_DIR, 'todo', 'hand-edited.md');
+    await fs.writeFile(
+      cardPath,
+      `---\npriority: medium\nlabels:\ncreated: 2024-01-15\nowner: sam\n---\n\n# Hand Edited\n\n## Acceptance Criteria\n- Must work\n`
+    );
+
+    await editCard('hand-edited', { title: 'Renamed' });
+
+    const content = await fs.readFile(cardPath, 'utf-8');
+    expect(content).toContain('owner: sam');
+    expect(content).toContain('## Acceptance Criteria\n- Must work');
+    expect(content).toContain('# Renamed');
+  });
+
   test('rejects invalid card ID', async () => {
     await expect(editCard('../etc', { title: 'Hacked' })).rejects.toThrow(KanmdError);
   });
@@ -594,6 +832,63 @@ describe('loadBoard', () => {
     expect(board.columns).toEqual(['todo', 'in-progress', 'done']);
   });
 
+  test('reads columns written in flow style with comments', async () => {
+    await fs.writeFile(
+      path.join(KANBAN_DIR, 'board.yaml'),
+      '# My board\nname: "Board: main"\ncolumns: [todo, done] # two only\n'
+    );
+    const board = await loadBoard();
+    expect(board.columns).toEqual(['todo', 'done']);
+  });
+
+  test('reports board.yaml syntax errors', async () => {
+    await fs.writeFile(path.join(KANBAN_DIR, 'board.yaml'), 'columns:\n  - todo\n - done\n');
+    await expect(loadBoard()).rejects.toThrow('board.yaml:3:');
+  });
+
+  test('rejects a columns value that is not a list', async () => {
+    await fs.writeFile(path.join(KANBAN_DIR, 'board.yaml'), 'columns: todo\n');
+    await expect(loadBoard()).rejects.toThrow('"columns" must be a list');
+  });
+
+  test('reports directories with cards missing from board.yaml', async () => {
+    await fs.mkdir(path.join(KANBAN_DIR, 'archive'));
+    await fs.writeFile(path.join(KANBAN_DIR, 'archive', 'old.md'), '# Old\n');
+    await fs.mkdir(path.join(KANBAN_DIR, 'empty-dir'));
+
+    const board = await loadBoard();
+    expect(board.orphanedColumns).toEqual(['archive']);
+  });
+
+  test('reports cards with broken frontmatter and loads the rest', async () => {
+    await addCard('todo', 'Task 1');
+    const broken = '---\nassignee: @alice\n---\n\n# Broken\n';
+    await fs.writeFile(path.join(KANBAN_DIR, 'todo', 'broken.md'), broken);
+
+    const board = await loadBoard();
+    expect(board.cards.map((c) => c.id)).toEqual(['task-1']);
+    expect(board.invalidCards).toEqual([
+      {
+        id: 'broken',
+        column: 'todo',
+        error: expect.stringContaining('todo/broken.md:2:'),
+        content: broken,
+        revision: expect.any(String),
+      },
+    ]);
+
+    await expect(getCard('broken')).rejects.toMatchObject({ code: 'INVALID_CARD' });
+    await expect(moveCard('broken', 'done')).rejects.toMatchObject({ code: 'INVALID_CARD' });
+    await expect(removeColumn('todo', 'done')).rejects.toMatchObject({ code: 'INVALID_CARD' });
+
+    await deleteCard('broken');
+    expect((await loadBoard()).invalidCards).toEqual([]);
+
+    // Undo puts the file back exactly as it was
+    await undo();
+    expect(await fs.readFile(path.join(KANBAN_DIR, 'todo', 'broken.md'), 'utf-8')).toBe(broken);
+  });
+
   test('loads all cards from columns', async () => {
     await addCard('todo', 'Task 1');
     await addCard('todo', 'Task 2');
@@ -972,3 +1267,890 @@ describe('checklistRemove', () => {
     expect(card.updated).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/);
   });
 });
+
+describe('addColumn', () => {
+  beforeEach(setupTestBoard);
+  afterEach(cleanupTestBoard);
+
+  test('appends a column and creates its directory', async () => {
+    const columns = await addColumn('review');
+    expect(columns).toEqual(['todo', 'in-progress', 'done', 'review']);
+
+    const board = await loadBoard();
+    expect(board.columns).toEqual(columns);
+    const stat = await fs.stat(path.join(KANBAN_DIR, 'review'));
+    expect(stat.isDirectory()).toBe(true);
+  });
+
+  test('inserts at a position', async () => {
+    const columns = await addColumn('backlog', 1);
+    expect(columns).toEqual(['backlog', 'todo', 'in-progress', 'done']);
+  });
+
+  test('keeps other board.yaml keys', async () => {
+    await addColumn('review');
+    const content = await fs.readFile(path.join(KANBAN_DIR, 'board.yaml'), 'utf-8');
+    expect(content).toContain('name: Project Board');
+  });
+
+  test('keeps comments in board.yaml', async () => {
+    await fs.writeFile(
+      path.join(KANBAN_DIR, 'board.yaml'),
+      '# Team board\nname: Project Board  # shown in the UI\n\n# Our lanes\ncolumns: [todo, done]\n\n# Who I am\nuser: sam\n'
+    );
+    await addColumn('review', 2);
+    await setColumnWip('review', 2);
+
+    const content = await fs.readFile(path.join(KANBAN_DIR, 'board.yaml'), 'utf-8');
+    expect(content).toBe(
+      '# Team board\nname: Project Board  # shown in the UI\n\n# Our lanes\ncolumns:\n  - todo\n  - name: review\n    wip: 2\n  - done\n\n# Who I am\nuser: sam\n'
+    );
+  });
+
+  test('rejects duplicate and invalid names', async () => {
+    await expect(addColumn('todo')).rejects.toThrow('already exists');
+    await expect(addColumn('../etc')).rejects.toThrow(KanmdError);
+  });
+});
+
+describe('renameColumn', () => {
+  beforeEach(setupTestBoard);
+  afterEach(cleanupTestBoard);
+
+  test('renames the column and moves its cards', async () => {
+    await addCard('in-progress', 'Task A');
+    const columns = await renameColumn('in-progress', 'doing');
+    expect(columns).toEqual(['todo', 'doing', 'done']);
+
+    const card = await getCard('task-a');
+    expect(card.column).toBe('doing');
+  });
+
+  test('rejects unknown source and existing target', async () => {
+    await expect(renameColumn('nope', 'other')).rejects.toThrow("doesn't exist");
+    await expect(renameColumn('todo', 'done')).rejects.toThrow('already exists');
+  });
+
+  test('refuses to overwrite a directory with files', async () => {
+    await fs.mkdir(path.join(KANBAN_DIR, 'archive'));
+    await fs.writeFile(path.join(KANBAN_DIR, 'archive', 'old.md'), '# Old\n');
+    await expect(renameColumn('todo', 'archive')).rejects.toThrow('not empty');
+  });
+});
+
+describe('removeColumn', () => {
+  beforeEach(setupTestBoard);
+  afterEach(cleanupTestBoard);
+
+  test('removes an empty column', async () => {
+    const columns = await removeColumn('in-progress');
+    expect(columns).toEqual(['todo', 'done']);
+
+    const exists = await fs
+      .access(path.join(KANBAN_DIR, 'in-progress'))
+      .then(() => true)
+      .catch(() => false);
+    expect(exists).toBe(false);
+  });
+
+  test('refuses when the column has cards', async () => {
+    await addCard('todo', 'Task A');
+    try {
+      await removeColumn('todo');
+      throw new Error('Expected removeColumn to fail');
+    } catch (err) {
+      expect((err as KanmdError).code).toBe('COLUMN_NOT_EMPTY');
+    }
+  });
+
+  test('moves cards to the --to column', async () => {
+    await addCard('todo', 'Task A');
+    await removeColumn('todo', 'done');
+
+    const board = await loadBoard();
+    expect(board.columns).toEqual(['in-progress', 'done']);
+    expect(board.cards.find((c) => c.id === 'task-a')?.column).toBe('done');
+  });
+
+  test('moves cards even past the target WIP limit', async () => {
+    await setColumnWip('done', 1);
+    await addCard('done', 'Already Done');
+    await addCard('todo', 'Task A');
+    await removeColumn('todo', 'done');
+
+    const board = await loadBoard();
+    expect(board.cards.filter((c) => c.column === 'done')).toHaveLength(2);
+  });
+
+  test('rejects an invalid target', async () => {
+    await expect(removeColumn('todo', 'todo')).rejects.toThrow(KanmdError);
+    await expect(removeColumn('todo', 'nope')).rejects.toThrow("doesn't exist");
+  });
+});
+
+describe('reorderColumns', () => {
+  beforeEach(setupTestBoard);
+  afterEach(cleanupTestBoard);
+
+  test('writes the new order', async () => {
+    await reorderColumns(['done', 'todo', 'in-progress']);
+    const board = await loadBoard();
+    expect(board.columns).toEqual(['done', 'todo', 'in-progress']);
+  });
+
+  test('requires every column exactly once', async () => {
+    await expect(reorderColumns(['todo', 'done'])).rejects.toThrow('exactly once');
+    await expect(reorderColumns(['todo', 'todo', 'done'])).rejects.toThrow('exactly once');
+    await expect(reorderColumns(['todo', 'done', 'nope'])).rejects.toThrow('exactly once');
+  });
+});
+
+describe('WIP limits', () => {
+  beforeEach(async () => {
+    await setupTestBoard();
+    await fs.writeFile(
+      path.join(KANBAN_DIR, 'board.yaml'),
+      `columns:
+  - todo
+  - name: in-progress
+    wip: 2
+  - done
+`
+    );
+  });
+  afterEach(cleanupTestBoard);
+
+  async function expectWipError(promise: Promise<unknown>): Promise<void> {
+    try {
+      await promise;
+      throw new Error('Expected WIP limit error');
+    } catch (err) {
+      expect((err as KanmdError).code).toBe('WIP_LIMIT_EXCEEDED');
+    }
+  }
+
+  test('loads per-column settings', async () => {
+    const board = await loadBoard();
+    expect(board.columns).toEqual(['todo', 'in-progress', 'done']);
+    expect(board.columnSettings['in-progress']).toEqual({ wip: 2 });
+    expect(board.columnSettings.todo).toEqual({});
+  });
+
+  test('rejects an invalid limit in board.yaml', async () => {
+    await fs.writeFile(
+      path.join(KANBAN_DIR, 'board.yaml'),
+      'columns:\n  - name: todo\n    wip: lots\n'
+    );
+    await expect(loadBoard()).rejects.toThrow('must be a positive integer');
+  });
+
+  test('addCard refuses when the column is full', async () => {
+    await addCard('in-progress', 'Task A');
+    await addCard('in-progress', 'Task B');
+    await expectWipError(addCard('in-progress', 'Task C'));
+  });
+
+  test('moveCard refuses when the column is full', async () => {
+    await addCard('in-progress', 'Task A');
+    await addCard('in-progress', 'Task B');
+    await addCard('todo', 'Task C');
+    await expectWipError(moveCard('task-c', 'in-progress'));
+  });
+
+  test('force overrides the limit', async () => {
+    await addCard('in-progress', 'Task A');
+    await addCard('in-progress', 'Task B');
+    await addCard('in-progress', 'Task C', 'medium', { force: true });
+    await addCard('todo', 'Task D');
+    await moveCard('task-d', 'in-progress', { force: true });
+
+    const board = await loadBoard();
+    expect(board.cards.filter((c) => c.column === 'in-progress')).toHaveLength(4);
+  });
+
+  test('setColumnWip updates and clears limits', async () => {
+    await setColumnWip('todo', 5);
+    let board = await loadBoard();
+    expect(board.columnSettings.todo).toEqual({ wip: 5 });
+
+    await setColumnWip('in-progress', undefined);
+    board = await loadBoard();
+    expect(board.columnSettings['in-progress']).toEqual({});
+
+    const content = await fs.readFile(path.join(KANBAN_DIR, 'board.yaml'), 'utf-8');
+    expect(content).toContain('  - in-progress\n');
+  });
+
+  test('setColumnWip rejects bad input', async () => {
+    await expect(setColumnWip('nope', 3)).rejects.toThrow("doesn't exist");
+    await expect(setColumnWip('todo', 0)).rejects.toThrow('positive integer');
+  });
+
+  test('column commands keep settings', async () => {
+    await renameColumn('in-progress', 'doing');
+    await reorderColumns(['doing', 'todo', 'done']);
+    await addColumn('review');
+
+    const board = await loadBoard();
+    expect(board.columns).toEqual(['doing', 'todo', 'done', 'review']);
+    expect(board.columnSettings.doing).toEqual({ wip: 2 });
+  });
+});
+
+describe('workflow rules', () => {
+  beforeEach(async () => {
+    await setupTestBoard();
+    await fs.mkdir(path.join(KANBAN_DIR, 'review'), { recursive: true });
+    await fs.writeFile(
+      path.join(KANBAN_DIR, 'board.yaml'),
+      `columns:
+  - todo
+  - name: in-progress
+    requires: [description]
+  - review
+  - name: done
+    requires:
+      - checklist-complete
+      - labels
+transitions:
+  - todo -> in-progress -> review -> done
+  - review -> in-progress
+`
+    );
+  });
+  afterEach(cleanupTestBoard);
+
+  async function moveError(
+    cardId: string,
+    column: string,
+    options: PlacementOptions = {}
+  ): Promise<KanmdError> {
+    try {
+      await moveCard(cardId, column, options);
+    } catch (err) {
+      return err as KanmdError;
+    }
+    throw new Error('Expected moveCard to fail');
+  }
+
+  test('loads transitions and gates', async () => {
+    const board = await loadBoard();
+    expect(board.transitions?.todo).toEqual(['in-progress']);
+    expect(board.columnSettings.done.requires).toEqual(['checklist-complete', 'labels']);
+  });
+
+  test('refuses moves that skip a step', async () => {
+    await addCard('todo', 'Task A');
+    const err = await moveError('task-a', 'done');
+    expect(err.code).toBe('TRANSITION_NOT_ALLOWED');
+    expect(err.details).toEqual({ from: 'todo', to: 'done', allowed: ['in-progress'] });
+  });
+
+  test('lists every failed gate', async () => {
+    await addCard('review', 'Task A');
+    await checklistAdd('task-a', 'Unfinished');
+
+    const err = await moveError('task-a', 'done');
+    expect(err.code).toBe('GATE_FAILED');
+    expect(err.details?.failed).toEqual([
+      { gate: 'checklist-complete', message: '1 of 1 checklist item(s) unchecked' },
+      { gate: 'labels', message: 'Card must have at least one label' },
+    ]);
+    expect(err.message).toContain('checklist-complete');
+  });
+
+  test('allows the move once gates pass', async () => {
+    await addCard('todo', 'Task A');
+    await editCard('task-a', { description: 'Ready to start' });
+    await moveCard('task-a', 'in-progress');
+    await moveCard('task-a', 'review');
+    await checklistAdd('task-a', 'Done item');
+    await checklistToggle('task-a', 1);
+    await editCard('task-a', { labels: ['feature'] });
+    await moveCard('task-a', 'done');
+
+    expect((await getCard('task-a')).column).toBe('done');
+  });
+
+  test('skipWorkflow skips the rules, force does not', async () => {
+    await addCard('todo', 'Task A');
+    expect((await moveError('task-a', 'done', { force: true })).code).toBe(
+      'TRANSITION_NOT_ALLOWED'
+    );
+
+    await moveCard('task-a', 'done', { skipWorkflow: true });
+    expect((await getCard('task-a')).column).toBe('done');
+  });
+
+  test('adding a card checks the column entry gates', async () => {
+    await expect(addCard('in-progress', 'Task A')).rejects.toMatchObject({
+      code: 'GATE_FAILED',
+    });
+    await expect(addCard('in-progress', 'Task A', 'medium', { force: true })).rejects.toThrow(
+      'Cannot add "task-a" to "in-progress"'
+    );
+
+    await addCard('in-progress', 'Task A', 'medium', { skipWorkflow: true });
+    expect((await getCard('task-a')).column).toBe('in-progress');
+  });
+
+  test('column rename and remove keep transitions in sync', async () => {
+    await renameColumn('review', 'qa');
+    let content = await fs.readFile(path.join(KANBAN_DIR, 'board.yaml'), 'utf-8');
+    expect(content).toContain('todo -> in-progress -> qa -> done');
+
+    await removeColumn('qa');
+    content = await fs.readFile(path.join(KANBAN_DIR, 'board.yaml'), 'utf-8');
+    expect(content).not.toContain('qa');
+
+    const board = await loadBoard();
+    expect(board.transitions).toEqual({ todo: ['in-progress'] });
+  });
+
+  test('removing the middle of the only chain lifts the transition rules', async () => {
+    await fs.writeFile(
+      path.join(KANBAN_DIR, 'board.yaml'),
+      'columns:\n  - todo\n  - review\n  - done\ntransitions:\n  - todo -> review -> done\n'
+    );
+    await removeColumn('review');
+
+    const content = await fs.readFile(path.join(KANBAN_DIR, 'board.yaml'), 'utf-8');
+    expect(content).not.toContain('transitions');
+    expect((await loadBoard()).transitions).toBeUndefined();
+
+    await addCard('todo', 'Task A');
+    await moveCard('task-a', 'done');
+    expect((await getCard('task-a')).column).toBe('done');
+  });
+});
+
+describe('due dates', () => {
+  beforeEach(setupTestBoard);
+  afterEach(cleanupTestBoard);
+
+  test('round-trips the due field', () => {
+    const card = parseCard('---\ndue: 2026-11-01\n---\n\n# Task\n', 'task.md', 'todo');
+    expect(card.due).toBe('2026-11-01');
+    expect(card.extraFrontmatter).toBeUndefined();
+    expect(serializeCard(card)).toContain('due: 2026-11-01\n');
+  });
+
+  test('editCard sets and clears the due date', async () => {
+    await addCard('todo', 'Task A');
+    await editCard('task-a', { due: '2026-11-01' });
+    expect((await getCard('task-a')).due).toBe('2026-11-01');
+
+    await editCard('task-a', { due: undefined });
+    expect((await getCard('task-a')).due).toBeUndefined();
+  });
+});
+
+describe('column entry times', () => {
+  beforeEach(setupTestBoard);
+  afterEach(cleanupTestBoard);
+
+  test('round-trips the entered map', () => {
+    const markdown =
+      '---\nentered:\n  todo: 2026-10-01T10:00:00.000Z\n  done: 2026-10-03T10:00:00.000Z\n---\n\n# Task\n';
+    const card = parseCard(markdown, 'task.md', 'done');
+    expect(card.entered).toEqual({
+      todo: '2026-10-01T10:00:00.000Z',
+      done: '2026-10-03T10:00:00.000Z',
+    });
+    expect(card.extraFrontmatter).toBeUndefined();
+    expect(parseCard(serializeCard(card), 'task.md', 'done').entered).toEqual(card.entered);
+  });
+
+  test('records when a card is added and each time it moves', async () => {
+    const card = await addCard('todo', 'Task A');
+    expect(card.entered).toEqual({ todo: card.created });
+
+    await moveCard('task-a', 'in-progress');
+    await moveCard('task-a', 'done');
+
+    const moved = await getCard('task-a');
+    expect(Object.keys(moved.entered!)).toEqual(['todo', 'in-progress', 'done']);
+    expect(moved.entered!.done).toBe(moved.updated!);
+  });
+
+  test('renaming a column renames its entry times', async () => {
+    await addCard('todo', 'Task A');
+    await moveCard('task-a', 'done');
+    await renameColumn('todo', 'backlog');
+
+    const card = await getCard('task-a');
+    expect(Object.keys(card.entered!)).toEqual(['backlog', 'done']);
+  });
+
+  test('renaming a column leaves no entry time edits to undo', async () => {
+    await addCard('todo', 'Task A');
+    await moveCard('task-a', 'done');
+    await renameColumn('todo', 'backlog');
+
+    const events = await readActivity(createDirectoryStore(KANBAN_DIR));
+    expect(events.map((e) => e.action)).toEqual(['add', 'move']);
+    // The last operation is still the move, whose column is gone
+    await expect(undo()).rejects.toMatchObject({ code: 'UNDO_CONFLICT' });
+    expect(Object.keys((await getCard('task-a')).entered!)).toEqual(['backlog', 'done']);
+  });
+});
+
+describe('card relationships', () => {
+  beforeEach(async () => {
+    await setupTestBoard();
+    await addCard('todo', 'Epic');
+    await addCard('todo', 'Setup db');
+    await addCard('todo', 'Login');
+  });
+
+  afterEach(cleanupTestBoard);
+
+  test('parses and serializes blocked_by and parent', () => {
+    const { frontmatter } = parseFrontmatter('---\nblocked_by: a, b\nparent: epic\n---\n');
+    expect(frontmatter.blocked_by).toEqual(['a', 'b']);
+    expect(frontmatter.parent).toBe('epic');
+
+    const card = parseCard(
+      '---\nblocked_by: [setup-db]\nparent: epic\n---\n\n# Login\n',
+      'login.md',
+      'todo'
+    );
+    expect(card.blockedBy).toEqual(['setup-db']);
+    expect(card.extraFrontmatter).toBeUndefined();
+
+    const output = serializeCard(card);
+    expect(output).toContain('blocked_by: [setup-db]\n');
+    expect(output).toContain('parent: epic\n');
+  });
+
+  test('link stores blocks and child on the other card', async () => {
+    await linkCards('setup-db', 'blocks', 'login');
+    await linkCards('epic', 'child', 'login');
+    await linkCards('setup-db', 'blocks', 'login');
+
+    const login = await getCard('login');
+    expect(login.blockedBy).toEqual(['setup-db']);
+    expect(login.parent).toBe('epic');
+  });
+
+  test('rejects self links, unknown cards and cycles', async () => {
+    await linkCards('login', 'blocked-by', 'setup-db');
+    await linkCards('login', 'parent', 'epic');
+
+    await expect(linkCards('login', 'blocks', 'login')).rejects.toThrow('itself');
+    await expect(linkCards('login', 'blocks', 'nope')).rejects.toThrow('not found');
+    await expect(linkCards('login', 'blocks', 'setup-db')).rejects.toThrow('cycle');
+    await expect(linkCards('epic', 'parent', 'login')).rejects.toThrow('ancestor');
+  });
+
+  test('unlink removes the link and fails when not linked', async () => {
+    await linkCards('login', 'blocked-by', 'setup-db');
+    await unlinkCards('setup-db', 'blocks', 'login');
+
+    expect((await getCard('login')).blockedBy).toBeUndefined();
+    await expect(unlinkCards('setup-db', 'blocks', 'login')).rejects.toThrow('not linked');
+  });
+
+  test('refuses to move into done while a blocker is open', async () => {
+    await linkCards('setup-db', 'blocks', 'login');
+
+    try {
+      await moveCard('login', 'done');
+      expect.unreachable();
+    } catch (err) {
+      expect((err as KanmdError).code).toBe('CARD_BLOCKED');
+      expect((err as KanmdError).details).toEqual({
+        blockedBy: [{ id: 'setup-db', column: 'todo' }],
+      });
+    }
+
+    await moveCard('login', 'in-progress');
+    await moveCard('setup-db', 'done');
+    await moveCard('login', 'done');
+    expect((await getCard('login')).column).toBe('done');
+  });
+
+  test('delete and rename keep references valid', async () => {
+    await linkCards('setup-db', 'blocks', 'login');
+    await linkCards('login', 'parent', 'epic');
+
+    await renameCard('setup-db', 'setup-database');
+    expect((await getCard('login')).blockedBy).toEqual(['setup-database']);
+    await expect(getCard('setup-db')).rejects.toThrow('not found');
+
+    await renameCard('epic', 'auth-epic');
+    expect((await getCard('login')).parent).toBe('auth-epic');
+
+    await deleteCard('setup-database');
+    await deleteCard('auth-epic');
+    const login = await getCard('login');
+    expect(login.blockedBy).toBeUndefined();
+    expect(login.parent).toBeUndefined();
+  });
+
+  test('rename refuses an existing ID', async () => {
+    await expect(renameCard('login', 'epic')).rejects.toThrow('already exists');
+  });
+});
+
+describe('assignees', () => {
+  beforeEach(setupTestBoard);
+  afterEach(async () => {
+    delete process.env.KANMD_USER;
+    await cleanupTestBoard();
+  });
+
+  test('writes one assignee as a value and several as a list', () => {
+    const card = parseCard('---\nassignee: alice\n---\n\n# Task\n', 'task.md', 'todo');
+    expect(card.assignees).toEqual(['alice']);
+    expect(serializeCard(card)).toContain('assignee: alice\n');
+
+    card.assignees = ['alice', 'agent-1'];
+    expect(serializeCard(card)).toContain('assignee: [alice, agent-1]\n');
+  });
+
+  test('assign adds without duplicates', async () => {
+    await addCard('todo', 'Task A');
+    await assignCard('task-a', ['alice']);
+    const card = await assignCard('task-a', ['alice', 'bob', 'bob']);
+    expect(card.assignees).toEqual(['alice', 'bob']);
+    expect((await getCard('task-a')).assignees).toEqual(['alice', 'bob']);
+  });
+
+  test('unassign removes named or all assignees', async () => {
+    await addCard('todo', 'Task A');
+    await assignCard('task-a', ['alice', 'bob']);
+
+    await expect(unassignCard('task-a', ['carol'])).rejects.toThrow('not assigned');
+    expect((await unassignCard('task-a', ['alice'])).assignees).toEqual(['bob']);
+    await unassignCard('task-a');
+    expect((await getCard('task-a')).assignees).toBeUndefined();
+  });
+
+  test('current user comes from KANMD_USER, then board.yaml', async () => {
+    delete process.env.KANMD_USER;
+    expect(await getCurrentUser()).toBeUndefined();
+
+    await fs.appendFile(path.join(KANBAN_DIR, 'board.yaml'), 'user: alice\n');
+    expect(await getCurrentUser()).toBe('alice');
+
+    process.env.KANMD_USER = 'agent-1';
+    expect(await getCurrentUser()).toBe('agent-1');
+  });
+});
+
+describe('claims', () => {
+  const TTL = 30 * 60 * 1000;
+
+  beforeEach(async () => {
+    await setupTestBoard();
+    await addCard('todo', 'Task A');
+  });
+  afterEach(cleanupTestBoard);
+
+  async function expireLease(cardId: string): Promise<void> {
+    const card = await getCard(cardId);
+    await editCard(cardId, { lease: { ...card.lease!, expires: '2020-01-01T00:00:00.000Z' } });
+  }
+
+  test('stores the lease in frontmatter', async () => {
+    const card = await claimCard('task-a', 'agent-1', TTL);
+    const content = await fs.readFile(path.join(KANBAN_DIR, 'todo', 'task-a.md'), 'utf-8');
+    expect(content).toContain('claimed_by: agent-1\n');
+    expect(content).toContain(`claimed_until: ${card.lease!.expires}\n`);
+    expect((await getCard('task-a')).lease).toEqual(card.lease);
+  });
+
+  test('refuses a live lease held by someone else', async () => {
+    await claimCard('task-a', 'agent-1', TTL);
+    try {
+      await claimCard('task-a', 'agent-2', TTL);
+      expect.unreachable();
+    } catch (err) {
+      expect((err as KanmdError).code).toBe('ALREADY_CLAIMED');
+      expect((err as KanmdError).details?.owner).toBe('agent-1');
+    }
+  });
+
+  test('only one of several concurrent claims wins', async () => {
+    const results = await Promise.allSettled(
+      ['a', 'b', 'c', 'd'].map((owner) => claimCard('task-a', owner, TTL))
+    );
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    expect(await fs.readdir(KANBAN_DIR)).not.toContain('.task-a.lock');
+  });
+
+  test('an expired lease can be taken over', async () => {
+    await claimCard('task-a', 'agent-1', TTL);
+    await expireLease('task-a');
+    expect((await claimCard('task-a', 'agent-2', TTL)).lease?.owner).toBe('agent-2');
+  });
+
+  test('renew extends only your own lease', async () => {
+    await expect(renewClaim('task-a', 'agent-1', TTL)).rejects.toThrow('not claimed');
+    await claimCard('task-a', 'agent-1', TTL);
+    await expireLease('task-a');
+
+    await expect(renewClaim('task-a', 'agent-2', TTL)).rejects.toThrow('claimed by agent-1');
+    const renewed = await renewClaim('task-a', 'agent-1', TTL);
+    expect(Date.parse(renewed.lease!.expires)).toBeGreaterThan(Date.now());
+  });
+
+  test('release requires the owner unless forced', async () => {
+    await claimCard('task-a', 'agent-1', TTL);
+    await expect(releaseClaim('task-a', 'agent-2')).rejects.toThrow('claimed by agent-1');
+
+    await releaseClaim('task-a', 'agent-2', { force: true });
+    expect((await getCard('task-a')).lease).toBeUndefined();
+    await expect(releaseClaim('task-a', 'agent-1')).rejects.toThrow('not claimed');
+  });
+});
+
+describe('optimistic concurrency', () => {
+  beforeEach(async () => {
+    await setupTestBoard();
+    await addCard('todo', 'Task A');
+  });
+  afterEach(cleanupTestBoard);
+
+  async function conflictError(promise: Promise<unknown>): Promise<KanmdError> {
+    try {
+      await promise;
+    } catch (err) {
+      return err as KanmdError;
+    }
+    throw new Error('Expected a conflict');
+  }
+
+  test('revision is a content hash that changes on every write', async () => {
+    const before = (await getCard('task-a')).revision;
+    expect(before).toMatch(/^[0-9a-f]{12}$/);
+
+    await editCard('task-a', { description: 'Changed' });
+    const after = (await getCard('task-a')).revision;
+    expect(after).not.toBe(before);
+
+    // Hand edits count too
+    const cardPath = path.join(KANBAN_DIR, 'todo', 'task-a.md');
+    await fs.appendFile(cardPath, '\nMore notes\n');
+    expect((await getCard('task-a')).revision).not.toBe(after);
+  });
+
+  test('addCard and mutations return the new revision', async () => {
+    const card = await checklistAdd('task-a', 'Step');
+    expect(card.revision).toBe((await getCard('task-a')).revision);
+  });
+
+  test('ifRevision rejects a stale revision with CONFLICT', async () => {
+    const { revision } = await getCard('task-a');
+    await editCard('task-a', { title: 'First' }, { ifRevision: revision });
+
+    const err = await conflictError(
+      editCard('task-a', { title: 'Second' }, { ifRevision: revision })
+    );
+    expect(err.code).toBe('CONFLICT');
+    expect(err.details?.expected).toBe(revision);
+    expect((await getCard('task-a')).title).toBe('First');
+
+    expect((await conflictError(deleteCard('task-a', { ifRevision: revision }))).code).toBe(
+      'CONFLICT'
+    );
+    expect((await conflictError(moveCard('task-a', 'done', { ifRevision: revision }))).code).toBe(
+      'CONFLICT'
+    );
+  });
+
+  test('concurrent updates are retried instead of lost', async () => {
+    await Promise.all(['one', 'two', 'three', 'four'].map((text) => checklistAdd('task-a', text)));
+
+    const card = await getCard('task-a');
+    expect(card.checklist.map((item) => item.text).sort()).toEqual(['four', 'one', 'three', 'two']);
+  });
+
+  test('concurrent rank changes leave a consistent order', async () => {
+    await addCard('todo', 'Task B');
+    await addCard('todo', 'Task C');
+    await Promise.all([rankCard('task-c', 1), rankCard('task-b', 1)]);
+
+    const board = await loadBoard();
+    const ranks = board.cards.map((c) => c.rank).sort();
+    expect(ranks).toEqual([1, 2, 3]);
+  });
+});
+
+describe('activity log', () => {
+  beforeEach(async () => {
+    await setupTestBoard();
+    process.env.KANMD_USER = 'alice';
+  });
+  afterEach(async () => {
+    delete process.env.KANMD_USER;
+    await cleanupTestBoard();
+  });
+
+  test('records each mutation with actor and changes', async () => {
+    await addCard('todo', 'Task A');
+    await editCard('task-a', { priority: 'high' });
+    await checklistAdd('task-a', 'Step');
+    await moveCard('task-a', 'done');
+    await deleteCard('task-a');
+
+    const events = await readActivity(createDirectoryStore(KANBAN_DIR));
+    expect(events.map((e) => e.action)).toEqual(['add', 'edit', 'checklist', 'move', 'delete']);
+    expect(events.every((e) => e.actor === 'alice' && e.card === 'task-a')).toBe(true);
+    expect(events[1].changes).toEqual({ priority: { from: 'medium', to: 'high' } });
+    expect(events[3].changes.column).toEqual({ from: 'todo', to: 'done' });
+  });
+
+  test('rank logs only the card that was ranked', async () => {
+    await addCard('todo', 'Task A');
+    await addCard('todo', 'Task B');
+    await rankCard('task-b', 1);
+
+    const events = await readActivity(createDirectoryStore(KANBAN_DIR));
+    expect(events.filter((e) => e.action === 'rank').map((e) => e.card)).toEqual(['task-b']);
+  });
+
+  test('failed and no-op mutations are not logged', async () => {
+    await addCard('todo', 'Task A');
+    await assignCard('task-a', ['bob']);
+    await assignCard('task-a', ['bob']);
+    await expect(moveCard('task-a', 'nowhere')).rejects.toThrow();
+
+    expect((await readActivity(createDirectoryStore(KANBAN_DIR))).map((e) => e.action)).toEqual([
+      'add',
+      'assign',
+    ]);
+  });
+});
+
+describe('undo and redo', () => {
+  beforeEach(async () => {
+    await setupTestBoard();
+    process.env.KANMD_USER = 'alice';
+  });
+  afterEach(async () => {
+    delete process.env.KANMD_USER;
+    await cleanupTestBoard();
+  });
+
+  test('undoes a move', async () => {
+    await addCard('todo', 'Task A');
+    await moveCard('task-a', 'done');
+
+    const [operation] = await undo();
+    expect(operation.action).toBe('move');
+    expect((await getCard('task-a')).column).toBe('todo');
+  });
+
+  test('ranking a card to its current position leaves nothing to undo', async () => {
+    await addCard('todo', 'Task A');
+    await moveCard('task-a', 'done');
+    await rankCard('task-a', 1);
+    await rankCard('task-a', 1);
+
+    const journal = await fs.readFile(path.join(KANBAN_DIR, 'journal.jsonl'), 'utf-8');
+    expect(journal).not.toContain('"changes":[]');
+
+    const [rank, move] = await undo(2);
+    expect([rank.action, move.action]).toEqual(['rank', 'move']);
+    expect((await getCard('task-a')).column).toBe('todo');
+  });
+
+  test('undoing an edit restores the file exactly', async () => {
+    await addCard('todo', 'Task A');
+    const cardPath = path.join(KANBAN_DIR, 'todo', 'task-a.md');
+    const original = await fs.readFile(cardPath, 'utf-8');
+
+    await editCard('task-a', { title: 'Renamed', description: 'Notes' });
+    await undo();
+
+    expect(await fs.readFile(cardPath, 'utf-8')).toBe(original);
+  });
+
+  test('undoing a delete brings back the card and its references', async () => {
+    await addCard('todo', 'Task A');
+    await addCard('todo', 'Task B');
+    await linkCards('task-b', 'blocked-by', 'task-a');
+    await deleteCard('task-a');
+    expect((await getCard('task-b')).blockedBy).toBeUndefined();
+
+    await undo();
+
+    expect((await getCard('task-a')).title).toBe('Task A');
+    expect((await getCard('task-b')).blockedBy).toEqual(['task-a']);
+  });
+
+  test('undoes several operations and redoes them in order', async () => {
+    await addCard('todo', 'Task A');
+    await checklistAdd('task-a', 'Step');
+    await moveCard('task-a', 'done');
+
+    const undone = await undo(2);
+    expect(undone.map((op) => op.action)).toEqual(['move', 'checklist']);
+    let card = await getCard('task-a');
+    expect(card.column).toBe('todo');
+    expect(card.checklist).toEqual([]);
+
+    await redo(2);
+    card = await getCard('task-a');
+    expect(card.column).toBe('done');
+    expect(card.checklist).toHaveLength(1);
+  });
+
+  test('undoing an add removes the card', async () => {
+    await addCard('todo', 'Task A');
+    await undo();
+    await expect(getCard('task-a')).rejects.toThrow('not found');
+  });
+
+  test('refuses when the card changed since the operation', async () => {
+    await addCard('todo', 'Task A');
+    await editCard('task-a', { description: 'Mine' });
+
+    process.env.KANMD_USER = 'bob';
+    await editCard('task-a', { description: 'Theirs' });
+    process.env.KANMD_USER = 'alice';
+
+    const err = await undo().catch((e) => e);
+    expect(err).toBeInstanceOf(KanmdError);
+    expect(err.code).toBe('UNDO_CONFLICT');
+    expect(err.details.card).toBe('task-a');
+    expect((await getCard('task-a')).description).toBe('Theirs');
+  });
+
+  test("only undoes the current user's operations", async () => {
+    await addCard('todo', 'Task A');
+    process.env.KANMD_USER = 'bob';
+    await addCard('todo', 'Task B');
+    process.env.KANMD_USER = 'alice';
+
+    const [operation] = await undo();
+    expect(operation.card).toBe('task-a');
+    expect((await getCard('task-b')).title).toBe('Task B');
+  });
+
+  test('a new operation clears redo', async () => {
+    await addCard('todo', 'Task A');
+    await moveCard('task-a', 'done');
+    await undo();
+    await editCard('task-a', { priority: 'high' });
+
+    await expect(redo()).rejects.toMatchObject({ code: 'NOTHING_TO_REDO' });
+  });
+
+  test('throws when there is nothing to undo', async () => {
+    await expect(undo()).rejects.toMatchObject({ code: 'NOTHING_TO_UNDO' });
+  });
+
+  test('logs undo and redo in the activity log', async () => {
+    await addCard('todo', 'Task A');
+    await moveCard('task-a', 'done');
+    await undo();
+    await redo();
+
+    const events = await readActivity(createDirectoryStore(KANBAN_DIR), { card: 'task-a' });
+    expect(events.map((e) => e.action)).toEqual(['add', 'move', 'undo', 'redo']);
+    expect(events[2].changes.column).toEqual({ from: 'done', to: 'todo' });
+  });
+});
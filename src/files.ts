@@ -1,22 +1,104 @@
-import fs from 'fs/promises';
+import { AsyncLocalStorage } from 'async_hooks';
+import { userInfo } from 'os';
 import path from 'path';
-import type { Card, Board, Priority } from './types.js';
+import type {
+  Card,
+  Board,
+  ColumnSettings,
+  InvalidCard,
+  MutationOptions,
+  PlacementOptions,
+  Priority,
+} from './types.js';
 import { KanmdError } from './types.js';
+import { isPlainObject, parseYamlSource, updateYamlKeys } from './yaml.js';
+import { cardIdFromTitle, contentRevision, parseCard, serializeCard } from './card.js';
+import {
+  assertGatesPass,
+  assertMoveAllowed,
+  parseGates,
+  parseTransitions,
+  rewriteTransitions,
+} from './workflow.js';
+import { dependsOn, doneColumn, isAncestor, openBlockers } from './relations.js';
+import type { LinkType } from './relations.js';
+import { activeLease, leaseExpiry } from './lease.js';
+import { appendActivity, diffCards } from './activity.js';
+import { appendJournal, newOperationId, readJournal, undoStacks } from './journal.js';
+import type { FileState, JournalChange, JournalOperation } from './journal.js';
+import { SYNC_STATE_FILE, createBoardFileStore, planSync, syncRevision } from './boardfile.js';
+import type { BoardFileOptions, SyncSide } from './boardfile.js';
+import { createDirectoryStore } from './store.js';
+import type { BoardStore } from './store.js';
+import type { ActivityAction } from './activity.js';
+
+export interface BoardContext {
+  /** Where the board's files are kept */
+  store: BoardStore;
+  /** Who changes are recorded as, in place of KANMD_USER */
+  user?: string;
+}
+
+const boardContext = new AsyncLocalStorage<BoardContext>();
 
-const KANBAN_DIR = process.env.KANMD_DIR
-  ? path.resolve(process.env.KANMD_DIR)
-  : path.join(process.cwd(), '.kanmd');
+/**
+ * Runs `fn` against the board in `context.store`. Everything in this module
+ * called from inside `fn`, including after an await, uses that board instead
+ * of the default one, so several boards can be used in one process.
+ */
+export function withBoardContext<T>(context: BoardContext, fn: () => Promise<T>): Promise<T> {
+  return boardContext.run(context, fn);
+}
 
+/**
+ * The default board directory: KANMD_DIR, else .kanmd in the working directory.
+ */
 export function getKanbanDir(): string {
-  return KANBAN_DIR;
+  return process.env.KANMD_DIR
+    ? path.resolve(process.env.KANMD_DIR)
+    : path.join(process.cwd(), '.kanmd');
+}
+
+/**
+ * The board being worked on: the store set by withBoardContext, else the
+ * default board directory.
+ */
+export function getBoardStore(): BoardStore {
+  return boardContext.getStore()?.store ?? createDirectoryStore(getKanbanDir());
+}
+
+const STORAGE_MODES = ['directories', 'file'] as const;
+type StorageMode = (typeof STORAGE_MODES)[number];
+
+/**
+ * How board.yaml's `storage` says cards are kept: a directory per column
+ * (the default) or a single BOARD.md file.
+ */
+function storageMode(config: Record<string, unknown>): StorageMode {
+  const storage = config.storage ?? 'directories';
+  if (!STORAGE_MODES.includes(storage as StorageMode)) {
+    throw new KanmdError(
+      `board.yaml: "storage" must be one of: ${STORAGE_MODES.join(', ')}`,
+      'INVALID_BOARD_CONFIG'
+    );
+  }
+  return storage as StorageMode;
+}
+
+function boardFileOptions(config: Record<string, unknown>): BoardFileOptions {
+  const title = typeof config.name === 'string' && config.name ? config.name : 'Board';
+  return { title, columns: parseColumns(config) };
 }
 
-interface Frontmatter {
-  priority?: string;
-  labels?: string[];
-  created?: string;
-  updated?: string;
-  rank?: number;
+/**
+ * The store card files are read from and written to: the board's store, or a
+ * view of its BOARD.md when board.yaml has `storage: file`.
+ */
+async function cardStore(config?: Record<string, unknown>): Promise<BoardStore> {
+  const store = getBoardStore();
+  config ??= await readBoardConfig();
+  if (storageMode(config) === 'directories') return store;
+  return createBoardFileStore(store, boardFileOptions(config));
 }
 
 /**
@@ -35,241 +117,487 @@ export function validatePathComponent(component: string): void {
   }
 }
 
+const DEFAULT_BOARD = `name: Project Board
+columns:
+  - todo
+  - in-progress
+  - review
+  - done
+`;
+
+export async function ensureBoard(): Promise<void> {
+  const store = getBoardStore();
+  await store.createDir('');
+  if ((await store.read('board.yaml')) === null) {
+    await store.create('board.yaml', DEFAULT_BOARD);
+  }
+}
+
+/**
+ * Reads board.yaml as a mapping. Keys kanmd doesn't use (e.g. name) are kept
+ * so writeBoardConfig can put them back.
+ */
+async function readBoardConfig(): Promise<Record<string, unknown>> {
+  await ensureBoard();
+
+  const source = (await getBoardStore().read('board.yaml')) ?? DEFAULT_BOARD;
+  const config = parseYamlSource(source, 'board.yaml');
+  if (config === null) return {};
+  if (!isPlainObject(config)) {
+    throw new KanmdError(
+      'board.yaml must be a mapping with a "columns" list',
+      'INVALID_BOARD_CONFIG'
+    );
+  }
+  return config;
+}
+
+/**
+ * Writes `config` to board.yaml. Only the top-level keys that changed are
+ * rewritten, so the user's comments and layout around them are kept.
+ */
+async function writeBoardConfig(config: Record<string, unknown>): Promise<void> {
+  const store = getBoardStore();
+  const source = (await store.read('board.yaml')) ?? DEFAULT_BOARD;
+  const parsed = parseYamlSource(source, 'board.yaml');
+  const current = isPlainObject(parsed) ? parsed : {};
+
+  const changes: Record<string, unknown> = {};
+  for (const key of new Set([...Object.keys(current), ...Object.keys(config)])) {
+    if (JSON.stringify(current[key]) !== JSON.stringify(config[key])) {
+      changes[key] = config[key];
+    }
+  }
+  await store.write('board.yaml', updateYamlKeys(source, changes));
+}
+
 /**
- * Ensures a target path is contained within the base path.
- * Prevents directory traversal attacks.
+ * Returns the raw column entries from board.yaml. An entry is either a column
+ * name or a mapping with a `name` key plus per-column settings (e.g. `wip: 3`).
  */
-function assertPathWithinBase(targetPath: string, basePath: string): void {
-  const resolved = path.resolve(targetPath);
-  const baseResolved = path.resolve(basePath);
-  if (!resolved.startsWith(baseResolved + path.sep) && resolved !== baseResolved) {
-    throw new KanmdError('Invalid path', 'PATH_TRAVERSAL');
+function columnEntries(config: Record<string, unknown>): unknown[] {
+  if (config.columns === undefined || config.columns === null) return [];
+  if (!Array.isArray(config.columns)) {
+    throw new KanmdError('board.yaml: "columns" must be a list', 'INVALID_BOARD_CONFIG');
   }
+  return config.columns;
 }
 
-export function parseFrontmatter(markdown: string): { frontmatter: Frontmatter; content: string } {
-  const frontmatter: Frontmatter = {};
-  let content = markdown;
+function columnEntryName(entry: unknown): string {
+  if (typeof entry === 'string' || typeof entry === 'number') {
+    return String(entry);
+  }
+  if (isPlainObject(entry) && (typeof entry.name === 'string' || typeof entry.name === 'number')) {
+    return String(entry.name);
+  }
+  throw new KanmdError(
+    `board.yaml: column entries must be names or have a "name" key, got ${JSON.stringify(entry)}`,
+    'INVALID_BOARD_CONFIG'
+  );
+}
 
-  if (markdown.startsWith('---')) {
-    const endIndex = markdown.indexOf('---', 3);
-    if (endIndex !== -1) {
-      const yamlBlock = markdown.slice(3, endIndex).trim();
-      content = markdown.slice(endIndex + 3).trim();
+function parseColumns(config: Record<string, unknown>): string[] {
+  return columnEntries(config).map(columnEntryName);
+}
 
-      for (const line of yamlBlock.split('\n')) {
-        const colonIndex = line.indexOf(':');
-        if (colonIndex === -1) continue;
+function parseColumnSettings(config: Record<string, unknown>): Record<string, ColumnSettings> {
+  const settings: Record<string, ColumnSettings> = {};
 
-        const key = line.slice(0, colonIndex).trim();
-        const value = line.slice(colonIndex + 1).trim();
+  for (const entry of columnEntries(config)) {
+    const name = columnEntryName(entry);
+    const columnSettings: ColumnSettings = {};
 
-        if (key === 'labels') {
-          if (value === '') {
-            frontmatter.labels = [];
-          } else {
-            frontmatter.labels = value
-              .split(',')
-              .map((l) => l.trim())
-              .filter(Boolean);
-          }
-        } else if (key === 'rank') {
-          const parsed = parseInt(value, 10);
-          if (!isNaN(parsed)) {
-            frontmatter.rank = parsed;
-          }
-        } else {
-          (frontmatter as Record<string, string>)[key] = value;
-        }
+    if (isPlainObject(entry) && entry.wip !== undefined && entry.wip !== null) {
+      if (typeof entry.wip !== 'number' || !Number.isInteger(entry.wip) || entry.wip < 1) {
+        throw new KanmdError(
+          `board.yaml: "wip" for column "${name}" must be a positive integer`,
+          'INVALID_BOARD_CONFIG'
+        );
       }
+      columnSettings.wip = entry.wip;
+    }
+
+    if (isPlainObject(entry) && entry.requires !== undefined && entry.requires !== null) {
+      columnSettings.requires = parseGates(entry.requires, name);
     }
+
+    settings[name] = columnSettings;
   }
 
-  return { frontmatter, content };
+  return settings;
 }
 
-export function parseCard(markdown: string, filename: string, column: string): Card {
-  const { frontmatter, content } = parseFrontmatter(markdown);
-  const lines = content.split('\n');
-
-  const card: Card = {
-    id: filename.replace('.md', ''),
-    title: '',
-    priority: (frontmatter.priority as Card['priority']) || 'medium',
-    labels: frontmatter.labels || [],
-    created: frontmatter.created || '',
-    updated: frontmatter.updated,
-    description: '',
-    checklist: [],
-    column,
-    rank: frontmatter.rank,
-  };
+/**
+ * Throws WIP_LIMIT_EXCEEDED if adding one more card to `column` would go past its limit.
+ */
+function assertWipLimit(board: Board, column: string, options: PlacementOptions): void {
+  const limit = board.columnSettings[column]?.wip;
+  if (limit === undefined || options.force) return;
 
-  let section = 'header';
-  const descriptionLines: string[] = [];
+  const count = board.cards.filter((c) => c.column === column).length;
+  if (count >= limit) {
+    throw new KanmdError(
+      `Column "${column}" is at its WIP limit (${count}/${limit}). Use --force to override.`,
+      'WIP_LIMIT_EXCEEDED'
+    );
+  }
+}
 
-  for (const line of lines) {
-    const trimmed = line.trim();
+/**
+ * Finds directories holding cards that aren't listed in board.yaml, so their
+ * cards don't silently disappear from the board.
+ */
+async function findOrphanedColumns(store: BoardStore, columns: string[]): Promise<string[]> {
+  const orphaned: string[] = [];
 
-    if (trimmed.startsWith('# ') && !card.title) {
-      card.title = trimmed.slice(2).trim();
+  for (const entry of await store.list('')) {
+    if (!entry.directory || entry.name.startsWith('.') || columns.includes(entry.name)) {
       continue;
     }
-
-    if (trimmed === '## Description') {
-      section = 'description';
-      continue;
+    const files = await store.list(entry.name);
+    if (files.some((f) => !f.directory && f.name.endsWith('.md'))) {
+      orphaned.push(entry.name);
     }
+  }
 
-    if (trimmed === '## Checklist') {
-      section = 'checklist';
-      continue;
-    }
+  return orphaned.sort();
+}
 
-    if (trimmed.startsWith('## ')) {
-      section = 'other';
-      continue;
-    }
+/**
+ * Returns who "me" is: the user given to withBoardContext, the KANMD_USER
+ * environment variable, or the `user` key in board.yaml. Undefined when none
+ * is set.
+ */
+export async function getCurrentUser(): Promise<string | undefined> {
+  const fromContext = boardContext.getStore()?.user?.trim();
+  if (fromContext) return fromContext;
 
-    if (section === 'description') {
-      descriptionLines.push(line);
-    } else if (section === 'checklist') {
-      const checkMatch = trimmed.match(/^- \[([ x])\] (.+)$/);
-      if (checkMatch) {
-        card.checklist.push({
-          checked: checkMatch[1] === 'x',
-          text: checkMatch[2],
-        });
+  const fromEnv = process.env.KANMD_USER?.trim();
+  if (fromEnv) return fromEnv;
+
+  const config = await readBoardConfig();
+  if (typeof config.user === 'string' && config.user.trim()) {
+    return config.user.trim();
+  }
+  return undefined;
+}
+
+export async function loadBoard(): Promise<Board> {
+  const config = await readBoardConfig();
+  const store = await cardStore(config);
+  const columns = parseColumns(config);
+  const columnSettings = parseColumnSettings(config);
+  const transitions = parseTransitions(config.transitions, columns);
+
+  // Ensure column directories exist
+  for (const col of columns) {
+    await store.createDir(col);
+  }
+
+  // Load all cards
+  const cards: Card[] = [];
+  const invalidCards: InvalidCard[] = [];
+
+  for (const column of columns) {
+    for (const entry of await store.list(column)) {
+      if (entry.directory || !entry.name.endsWith('.md')) continue;
+      // Deleted between listing and reading, skip
+      const content = await store.read(`${column}/${entry.name}`);
+      if (content === null) continue;
+      const revision = contentRevision(content);
+      try {
+        cards.push({ ...parseCard(content, entry.name, column), revision });
+      } catch (err) {
+        // One broken file shouldn't stop every command from loading the board
+        if (!(err instanceof KanmdError)) throw err;
+        const id = entry.name.slice(0, -'.md'.length);
+        invalidCards.push({ id, column, error: err.message, content, revision });
       }
     }
   }
 
-  card.description = descriptionLines.join('\n').trim();
-  return card;
+  const orphanedColumns = await findOrphanedColumns(store, columns);
+
+  return { columns, columnSettings, transitions, cards, orphanedColumns, invalidCards };
+}
+
+function invalidCardError(card: InvalidCard): KanmdError {
+  return new KanmdError(
+    `Card "${card.id}" can't be read: ${card.error}. Fix the file or delete the card.`,
+    'INVALID_CARD',
+    { id: card.id, column: card.column }
+  );
 }
 
-export function serializeCard(card: Partial<Card>): string {
-  const lines: string[] = [];
+/** Looks up a card, telling a card that doesn't exist apart from one whose file is broken */
+function findCard(board: Board, cardId: string): Card {
+  const card = board.cards.find((c) => c.id === cardId);
+  if (card) return card;
+
+  const invalid = board.invalidCards.find((c) => c.id === cardId);
+  if (invalid) throw invalidCardError(invalid);
+  throw new KanmdError(`Card "${cardId}" not found`, 'CARD_NOT_FOUND');
+}
 
-  lines.push('---');
-  lines.push(`priority: ${card.priority || 'medium'}`);
+/**
+ * Refuses to move a card into the done column while any of its blockers is still open.
+ */
+function assertNotBlocked(board: Board, card: Card, toColumn: string): void {
+  if (toColumn !== doneColumn(board)) return;
 
-  const labels = card.labels || [];
-  if (labels.length > 0) {
-    lines.push(`labels: ${labels.join(', ')}`);
-  } else {
-    lines.push('labels:');
+  const blockers = openBlockers(board, card);
+  if (blockers.length > 0) {
+    throw new KanmdError(
+      `Cannot move "${card.id}" to "${toColumn}": blocked by ${blockers.map((b) => `${b.id} (${b.column})`).join(', ')}`,
+      'CARD_BLOCKED',
+      { blockedBy: blockers.map((b) => ({ id: b.id, column: b.column })) }
+    );
   }
+}
+
+function cardFilePath(card: Pick<Card, 'id' | 'column'>): string {
+  return `${card.column}/${card.id}.md`;
+}
+
+/**
+ * Runs `fn` while holding the card's lock file, so a read-check-write can't
+ * interleave with another process.
+ */
+async function withCardLock<T>(cardId: string, fn: () => Promise<T>): Promise<T> {
+  await ensureBoard();
+
+  const lockError = () =>
+    new KanmdError(`Card "${cardId}" is locked by another process`, 'CARD_LOCKED');
+  return getBoardStore().lock(`.${cardId}.lock`, lockError, fn);
+}
+
+/**
+ * Locks several cards at once. Locks are always taken in ID order so two
+ * writers can't deadlock.
+ */
+async function withCardLocks<T>(cardIds: string[], fn: () => Promise<T>): Promise<T> {
+  const ids = [...new Set(cardIds)].sort();
+  const run = ids.reduceRight<() => Promise<T>>((next, id) => () => withCardLock(id, next), fn);
+  return run();
+}
+
+interface CardChange {
+  original: Card;
+  /** The new version of the card, or null to delete it */
+  updated: Card | null;
+}
 
-  lines.push(`created: ${card.created || new Date().toISOString()}`);
-  if (card.updated) {
-    lines.push(`updated: ${card.updated}`);
+async function writeChange(store: BoardStore, { original, updated }: CardChange): Promise<void> {
+  const fromPath = cardFilePath(original);
+  if (updated === null) {
+    await store.delete(fromPath);
+    return;
   }
-  if (card.rank !== undefined) {
-    lines.push(`rank: ${card.rank}`);
+
+  const toPath = cardFilePath(updated);
+  const content = serializeCard(updated);
+
+  if (toPath === fromPath) {
+    await store.write(toPath, content);
+    return;
   }
-  lines.push('---');
-  lines.push('');
-  lines.push(`# ${card.title || 'Untitled'}`);
 
-  if (card.description) {
-    lines.push('');
-    lines.push('## Description');
-    lines.push(card.description);
+  // Moving or renaming: write the new file first, then delete the old one.
+  // Fail if target already exists (e.g., from a previous failed move)
+  if (!(await store.create(toPath, content))) {
+    throw new KanmdError(
+      `Card "${updated.id}" already exists in ${updated.column}. Remove the duplicate first.`,
+      'CARD_EXISTS'
+    );
   }
+  await store.delete(fromPath);
+}
 
-  if (card.checklist && card.checklist.length > 0) {
-    lines.push('');
-    lines.push('## Checklist');
-    for (const item of card.checklist) {
-      const checkbox = item.checked ? '[x]' : '[ ]';
-      lines.push(`- ${checkbox} ${item.text}`);
+/**
+ * Applies changes only if none of the card files changed since they were read
+ * (compare-and-set on each card's revision). Returns false, writing nothing,
+ * when another process got there first. Successful commits are journaled as
+ * one operation so they can be undone together; bookkeeping changes made
+ * without an operation aren't journaled.
+ */
+async function commitCards(
+  changes: CardChange[],
+  operation?: { action: ActivityAction; card: string }
+): Promise<boolean> {
+  // An empty operation would leave an undo step that changes nothing
+  if (changes.length === 0) return true;
+
+  return withCardLocks(
+    changes.map((c) => c.original.id),
+    async () => {
+      const store = await cardStore();
+      const journal: JournalChange[] = [];
+      for (const { original, updated } of changes) {
+        const content = await store.read(cardFilePath(original));
+        if (content === null || contentRevision(content) !== original.revision) return false;
+        journal.push({
+          before: { path: cardFilePath(original), content },
+          after: updated && { path: cardFilePath(updated), content: serializeCard(updated) },
+        });
+      }
+      for (const change of changes) {
+        await writeChange(store, change);
+      }
+      if (operation) await journalOperation(operation.action, operation.card, journal);
+      return true;
     }
-  }
+  );
+}
 
-  return lines.join('\n') + '\n';
+async function journalOperation(
+  action: ActivityAction,
+  cardId: string,
+  changes: JournalChange[]
+): Promise<void> {
+  await appendJournal(getBoardStore(), {
+    type: 'op',
+    id: newOperationId(),
+    time: new Date().toISOString(),
+    actor: await currentActor(),
+    action,
+    card: cardId,
+    changes,
+  });
 }
 
-export async function ensureBoard(): Promise<void> {
-  await fs.mkdir(KANBAN_DIR, { recursive: true });
+const MAX_CONFLICT_ATTEMPTS = 5;
 
-  const boardPath = path.join(KANBAN_DIR, 'board.yaml');
-  try {
-    await fs.access(boardPath);
-  } catch (err) {
-    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
-      const defaultBoard = `name: Project Board
-columns:
-  - todo
-  - in-progress
-  - review
-  - done
-`;
-      await fs.writeFile(boardPath, defaultBoard);
-    } else {
-      throw err;
+/**
+ * Runs `attempt` until it commits (returns a value). An attempt that hits a
+ * conflict returns undefined and is retried on fresh data, unless the caller
+ * pinned a revision, in which case it fails with CONFLICT straight away.
+ */
+async function retryOnConflict<T>(
+  cardId: string,
+  options: MutationOptions,
+  attempt: () => Promise<T | undefined>
+): Promise<T> {
+  for (let i = 1; ; i++) {
+    const result = await attempt();
+    if (result !== undefined) return result;
+
+    if (options.ifRevision !== undefined || i >= MAX_CONFLICT_ATTEMPTS) {
+      throw new KanmdError(
+        `Card "${cardId}" was changed by another process. Reload it and try again.`,
+        'CONFLICT',
+        { id: cardId }
+      );
     }
   }
 }
 
-export async function loadBoard(): Promise<Board> {
-  await ensureBoard();
+async function loadForMutation(
+  cardId: string,
+  options: MutationOptions
+): Promise<{ board: Board; card: Card }> {
+  const board = await loadBoard();
+  const card = findCard(board, cardId);
+
+  if (options.ifRevision !== undefined && card.revision !== options.ifRevision) {
+    throw new KanmdError(
+      `Card "${cardId}" is at revision ${card.revision}, not ${options.ifRevision}`,
+      'CONFLICT',
+      { id: cardId, expected: options.ifRevision, actual: card.revision }
+    );
+  }
+  return { board, card };
+}
+
+/**
+ * Who to record in the activity log: the current user, else the OS login.
+ */
+async function currentActor(): Promise<string> {
+  const user = await getCurrentUser();
+  if (user) return user;
+  try {
+    return userInfo().username;
+  } catch {
+    return 'unknown';
+  }
+}
 
-  // Read board config (YAML format)
-  const boardPath = path.join(KANBAN_DIR, 'board.yaml');
-  const boardContent = await fs.readFile(boardPath, 'utf-8');
+/**
+ * Appends an event describing the change from `before` to `after` to the
+ * board's activity log. Called only after the change has been written.
+ */
+async function recordActivity(
+  action: ActivityAction,
+  before: Card | null,
+  after: Card | null,
+  cardId = (after || before)!.id
+): Promise<void> {
+  await appendActivity(getBoardStore(), {
+    time: new Date().toISOString(),
+    actor: await currentActor(),
+    action,
+    card: cardId,
+    changes: diffCards(before, after),
+  });
+}
 
-  const columns: string[] = [];
-  let inColumnsSection = false;
+/**
+ * Read-modify-write of a single card. `mutate` receives a freshly loaded board
+ * and card and returns the new card, or the same card object to skip the write.
+ */
+async function mutateCard(
+  cardId: string,
+  action: ActivityAction,
+  options: MutationOptions,
+  mutate: (card: Card, board: Board) => Card
+): Promise<Card> {
+  return retryOnConflict(cardId, options, async () => {
+    const { board, card } = await loadForMutation(cardId, options);
+    const updated = mutate(card, board);
+    if (updated === card) return card;
 
-  for (const line of boardContent.split('\n')) {
-    const trimmed = line.trim();
-    if (trimmed === 'columns:') {
-      inColumnsSection = true;
-      continue;
-    }
-    // Stop if we hit another top-level key
-    if (inColumnsSection && !line.startsWith(' ') && !line.startsWith('\t') && trimmed !== '') {
-      break;
+    if (!(await commitCards([{ original: card, updated }], { action, card: cardId }))) {
+      return undefined;
     }
-    if (inColumnsSection && trimmed.startsWith('- ')) {
-      columns.push(trimmed.slice(2).trim());
-    }
-  }
+    await recordActivity(action, card, updated);
+    return { ...updated, revision: contentRevision(serializeCard(updated)) };
+  });
+}
 
-  // Ensure column directories exist
-  for (const col of columns) {
-    await fs.mkdir(path.join(KANBAN_DIR, col), { recursive: true });
-  }
+/**
+ * Changes that rewrite blocked_by/parent references to `cardId` on other cards.
+ * `replacement` is the new ID, or null to drop the reference.
+ */
+function referenceChanges(board: Board, cardId: string, replacement: string | null): CardChange[] {
+  const changes: CardChange[] = [];
 
-  // Load all cards
-  const cards: Card[] = [];
+  for (const other of board.cards) {
+    if (other.id === cardId) continue;
 
-  for (const column of columns) {
-    const columnPath = path.join(KANBAN_DIR, column);
-    try {
-      const files = await fs.readdir(columnPath);
-      for (const file of files) {
-        if (file.endsWith('.md')) {
-          const content = await fs.readFile(path.join(columnPath, file), 'utf-8');
-          cards.push(parseCard(content, file, column));
-        }
-      }
-    } catch (err) {
-      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
-        throw err;
-      }
-      // Column dir doesn't exist yet, skip
+    const referencesBlocker = other.blockedBy?.includes(cardId) ?? false;
+    const referencesParent = other.parent === cardId;
+    if (!referencesBlocker && !referencesParent) continue;
+
+    const updated: Card = { ...other, updated: new Date().toISOString() };
+    if (referencesBlocker) {
+      const blockedBy = other.blockedBy!.flatMap((id) =>
+        id !== cardId ? [id] : replacement ? [replacement] : []
+      );
+      updated.blockedBy = blockedBy.length > 0 ? blockedBy : undefined;
+    }
+    if (referencesParent) {
+      updated.parent = replacement ?? undefined;
     }
+    changes.push({ original: other, updated });
   }
 
-  return { columns, cards };
+  return changes;
 }
 
 export async function addCard(
   column: string,
   title: string,
-  priority: Priority = 'medium'
+  priority: Priority = 'medium',
+  options: PlacementOptions = {}
 ): Promise<Card> {
   // Validate column name before any operations
   validatePathComponent(column);
@@ -283,12 +611,9 @@ export async function addCard(
     );
   }
 
-  const id = title
-    .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, '')
-    .replace(/\s+/g, '-')
-    .replace(/-+/g, '-')
-    .substring(0, 50);
+  assertWipLimit(board, column, options);
+
+  const id = cardIdFromTitle(title);
 
   // Validate generated ID
   if (!id || !/^[a-z0-9-]+$/.test(id)) {
@@ -298,279 +623,1041 @@ export async function addCard(
     );
   }
 
+  const created = new Date().toISOString();
   const card: Card = {
     id,
     title,
     priority,
     labels: [],
-    created: new Date().toISOString(),
+    created,
     description: '',
     checklist: [],
     column,
+    entered: { [column]: created },
   };
-
-  const cardPath = path.join(KANBAN_DIR, column, `${id}.md`);
-
-  // Verify path is within kanban directory
-  assertPathWithinBase(cardPath, KANBAN_DIR);
+  if (!options.skipWorkflow) {
+    assertGatesPass(board, card, column, 'add');
+  }
 
   // Atomic exclusive file creation - fails if file exists
-  try {
-    await fs.writeFile(cardPath, serializeCard(card), { flag: 'wx' });
-  } catch (err) {
-    if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
-      throw new KanmdError(`Card "${id}" already exists in ${column}`, 'CARD_EXISTS');
-    }
-    throw err;
+  const content = serializeCard(card);
+  if (!(await (await cardStore()).create(cardFilePath(card), content))) {
+    throw new KanmdError(`Card "${id}" already exists in ${column}`, 'CARD_EXISTS');
   }
 
-  return card;
+  await journalOperation('add', id, [
+    { before: null, after: { path: cardFilePath(card), content } },
+  ]);
+  await recordActivity('add', null, card);
+  return { ...card, revision: contentRevision(content) };
 }
 
-export async function moveCard(cardId: string, toColumn: string): Promise<void> {
+export async function moveCard(
+  cardId: string,
+  toColumn: string,
+  options: PlacementOptions & MutationOptions = {}
+): Promise<void> {
   // Validate inputs
   validatePathComponent(cardId);
   validatePathComponent(toColumn);
 
-  const board = await loadBoard();
+  await mutateCard(cardId, 'move', options, (card, board) => {
+    if (!board.columns.includes(toColumn)) {
+      throw new KanmdError(
+        `Column "${toColumn}" doesn't exist. Available: ${board.columns.join(', ')}`,
+        'COLUMN_NOT_FOUND'
+      );
+    }
 
-  if (!board.columns.includes(toColumn)) {
-    throw new KanmdError(
-      `Column "${toColumn}" doesn't exist. Available: ${board.columns.join(', ')}`,
-      'COLUMN_NOT_FOUND'
-    );
-  }
+    if (card.column === toColumn) {
+      throw new KanmdError(`Card is already in "${toColumn}"`, 'ALREADY_IN_COLUMN');
+    }
 
-  const card = board.cards.find((c) => c.id === cardId);
-  if (!card) {
-    throw new KanmdError(`Card "${cardId}" not found`, 'CARD_NOT_FOUND');
+    if (!options.skipWorkflow) {
+      assertMoveAllowed(board, card, toColumn);
+      assertNotBlocked(board, card, toColumn);
+    }
+    assertWipLimit(board, toColumn, options);
+
+    // Clear rank when moving to a new column (card sorts to end)
+    // Set updated timestamp and record when the card entered the column
+    const now = new Date().toISOString();
+    return {
+      ...card,
+      column: toColumn,
+      rank: undefined,
+      updated: now,
+      entered: { ...card.entered, [toColumn]: now },
+    };
+  });
+}
+
+export async function deleteCard(cardId: string, options: MutationOptions = {}): Promise<void> {
+  validatePathComponent(cardId);
+
+  const committed = await retryOnConflict(cardId, options, async () => {
+    const invalid = (await loadBoard()).invalidCards.find((c) => c.id === cardId);
+    if (invalid) return (await deleteInvalidCard(invalid, options)) ? [] : undefined;
+
+    const { board, card } = await loadForMutation(cardId, options);
+    // Don't leave other cards pointing at a card that no longer exists
+    const changes = [{ original: card, updated: null }, ...referenceChanges(board, cardId, null)];
+    return (await commitCards(changes, { action: 'delete', card: cardId })) ? changes : undefined;
+  });
+
+  for (const { original, updated } of committed) {
+    await recordActivity(updated ? 'edit' : 'delete', original, updated);
   }
+}
 
-  if (card.column === toColumn) {
-    throw new KanmdError(`Card is already in "${toColumn}"`, 'ALREADY_IN_COLUMN');
+/**
+ * Deletes a card file that can't be parsed, journaled so undo restores it as
+ * it was. Other cards can't be checked for links to it, since its ID is all
+ * that's known about it.
+ */
+async function deleteInvalidCard(card: InvalidCard, options: MutationOptions): Promise<boolean> {
+  if (options.ifRevision !== undefined && card.revision !== options.ifRevision) {
+    throw new KanmdError(
+      `Card "${card.id}" is at revision ${card.revision}, not ${options.ifRevision}`,
+      'CONFLICT',
+      { id: card.id, expected: options.ifRevision, actual: card.revision }
+    );
   }
 
-  // Clear rank when moving to a new column (card sorts to end)
-  // Set updated timestamp
-  const updatedCard = { ...card, rank: undefined, updated: new Date().toISOString() };
-  const fromPath = path.join(KANBAN_DIR, card.column, `${cardId}.md`);
-  const toPath = path.join(KANBAN_DIR, toColumn, `${cardId}.md`);
+  const file = cardFilePath(card);
+  return withCardLocks([card.id], async () => {
+    const store = await cardStore();
+    const content = await store.read(file);
+    if (content === null || contentRevision(content) !== card.revision) return false;
+
+    await store.delete(file);
+    await journalOperation('delete', card.id, [{ before: { path: file, content }, after: null }]);
+    await appendActivity(getBoardStore(), {
+      time: new Date().toISOString(),
+      actor: await currentActor(),
+      action: 'delete',
+      card: card.id,
+      changes: { column: { from: card.column, to: undefined } },
+    });
+    return true;
+  });
+}
 
-  // Verify paths are within kanban directory
-  assertPathWithinBase(fromPath, KANBAN_DIR);
-  assertPathWithinBase(toPath, KANBAN_DIR);
+export async function getCard(cardId: string): Promise<Card> {
+  validatePathComponent(cardId);
 
-  // Write updated card (without rank) to new location, then delete old file
-  // Use 'wx' flag to fail if target already exists (e.g., from a previous failed move)
-  try {
-    await fs.writeFile(toPath, serializeCard(updatedCard), { flag: 'wx' });
-  } catch (err) {
-    if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
-      throw new KanmdError(
-        `Card "${cardId}" already exists in ${toColumn}. Remove the duplicate first.`,
-        'CARD_EXISTS'
-      );
-    }
-    throw err;
-  }
-  await fs.unlink(fromPath);
+  return findCard(await loadBoard(), cardId);
 }
 
-export async function deleteCard(cardId: string): Promise<void> {
+export async function editCard(
+  cardId: string,
+  updates: Partial<Card>,
+  options: MutationOptions = {}
+): Promise<void> {
   validatePathComponent(cardId);
 
-  const board = await loadBoard();
-  const card = board.cards.find((c) => c.id === cardId);
+  await mutateCard(cardId, 'edit', options, (card) => ({
+    ...card,
+    ...updates,
+    updated: new Date().toISOString(),
+  }));
+}
 
-  if (!card) {
-    throw new KanmdError(`Card "${cardId}" not found`, 'CARD_NOT_FOUND');
+function assertChecklistIndex(card: Card, index: number): void {
+  if (index < 1 || index > card.checklist.length) {
+    throw new KanmdError(
+      `Index ${index} out of range. Card has ${card.checklist.length} checklist item(s).`,
+      'INVALID_INDEX'
+    );
   }
+}
 
-  const cardPath = path.join(KANBAN_DIR, card.column, `${cardId}.md`);
-  assertPathWithinBase(cardPath, KANBAN_DIR);
+export async function checklistAdd(
+  cardId: string,
+  text: string,
+  options: MutationOptions = {}
+): Promise<Card> {
+  validatePathComponent(cardId);
 
-  await fs.unlink(cardPath);
+  return mutateCard(cardId, 'checklist', options, (card) => ({
+    ...card,
+    checklist: [...card.checklist, { text, checked: false }],
+    updated: new Date().toISOString(),
+  }));
 }
 
-export async function getCard(cardId: string): Promise<Card> {
+export async function checklistToggle(
+  cardId: string,
+  index: number,
+  options: MutationOptions = {}
+): Promise<Card> {
   validatePathComponent(cardId);
 
-  const board = await loadBoard();
-  const card = board.cards.find((c) => c.id === cardId);
+  return mutateCard(cardId, 'checklist', options, (card) => {
+    assertChecklistIndex(card, index);
+    const checklist = card.checklist.map((item, i) =>
+      i === index - 1 ? { ...item, checked: !item.checked } : item
+    );
+    return { ...card, checklist, updated: new Date().toISOString() };
+  });
+}
 
-  if (!card) {
-    throw new KanmdError(`Card "${cardId}" not found`, 'CARD_NOT_FOUND');
-  }
+export async function checklistRemove(
+  cardId: string,
+  index: number,
+  options: MutationOptions = {}
+): Promise<Card> {
+  validatePathComponent(cardId);
 
-  return card;
+  return mutateCard(cardId, 'checklist', options, (card) => {
+    assertChecklistIndex(card, index);
+    const checklist = card.checklist.filter((_, i) => i !== index - 1);
+    // Lines below the removed item stay below the item that was before it
+    const checklistNotes = card.checklistNotes?.map((note) =>
+      note.after >= index ? { ...note, after: note.after - 1 } : note
+    );
+    return { ...card, checklist, checklistNotes, updated: new Date().toISOString() };
+  });
 }
 
-export async function editCard(cardId: string, updates: Partial<Card>): Promise<void> {
+export async function rankCard(
+  cardId: string,
+  newPosition: number,
+  options: MutationOptions = {}
+): Promise<void> {
   validatePathComponent(cardId);
 
-  const board = await loadBoard();
-  const card = board.cards.find((c) => c.id === cardId);
+  if (newPosition < 1) {
+    throw new KanmdError('Position must be 1 or greater', 'INVALID_POSITION');
+  }
+
+  await retryOnConflict(cardId, options, async () => {
+    const { board, card } = await loadForMutation(cardId, options);
+
+    // Get all cards in the same column and priority group
+    const groupCards = board.cards.filter(
+      (c) => c.column === card.column && c.priority === card.priority
+    );
+
+    // Sort the group by current rank (unranked cards go to the end)
+    groupCards.sort((a, b) => {
+      const aRank = a.rank ?? Number.MAX_SAFE_INTEGER;
+      const bRank = b.rank ?? Number.MAX_SAFE_INTEGER;
+      if (aRank !== bRank) return aRank - bRank;
+      return a.created.localeCompare(b.created) || a.id.localeCompare(b.id);
+    });
+
+    // Remove the target card from its current position
+    const cardIndex = groupCards.findIndex((c) => c.id === cardId);
+    if (cardIndex !== -1) {
+      groupCards.splice(cardIndex, 1);
+    }
+
+    // Insert at new position (1-indexed, so position 1 = index 0)
+    const insertIndex = Math.min(newPosition - 1, groupCards.length);
+    groupCards.splice(insertIndex, 0, card);
+
+    // Renumber all cards in the group (1, 2, 3, ...), only writing cards whose
+    // rank actually changed. The whole group is committed together.
+    const changes: CardChange[] = groupCards
+      .map((c, i) => ({ c, newRank: i + 1 }))
+      .filter(({ c, newRank }) => c.rank !== newRank)
+      .map(({ c, newRank }) => ({
+        original: c,
+        updated: { ...c, rank: newRank, updated: new Date().toISOString() },
+      }));
+
+    // Already at that position: nothing to write or journal
+    if (changes.length === 0) return true;
+    if (!(await commitCards(changes, { action: 'rank', card: cardId }))) return undefined;
+
+    // Other cards in the group are only renumbered; the log records the card that was ranked
+    const ranked = changes.find((c) => c.original.id === cardId);
+    if (ranked) {
+      await recordActivity('rank', ranked.original, ranked.updated);
+    }
+    return true;
+  });
+}
+
+export async function addColumn(name: string, position?: number): Promise<string[]> {
+  validatePathComponent(name);
+
+  const config = await readBoardConfig();
+  const columns = parseColumns(config);
 
-  if (!card) {
-    throw new KanmdError(`Card "${cardId}" not found`, 'CARD_NOT_FOUND');
+  if (columns.includes(name)) {
+    throw new KanmdError(`Column "${name}" already exists`, 'COLUMN_EXISTS');
+  }
+  if (position !== undefined && position < 1) {
+    throw new KanmdError('Position must be 1 or greater', 'INVALID_POSITION');
   }
 
-  const updatedCard = { ...card, ...updates, updated: new Date().toISOString() };
-  const cardPath = path.join(KANBAN_DIR, card.column, `${cardId}.md`);
-  assertPathWithinBase(cardPath, KANBAN_DIR);
+  // Insert at position (1-indexed), or append
+  const entries = [...columnEntries(config)];
+  const insertIndex =
+    position === undefined ? entries.length : Math.min(position - 1, entries.length);
+  entries.splice(insertIndex, 0, name);
 
-  // Atomic write: write to temp file, then rename
-  const tempPath = cardPath + '.tmp';
-  await fs.writeFile(tempPath, serializeCard(updatedCard));
-  await fs.rename(tempPath, cardPath);
+  await (await cardStore(config)).createDir(name);
+  await writeBoardConfig({ ...config, columns: entries });
+  return entries.map(columnEntryName);
 }
 
-export async function checklistAdd(cardId: string, text: string): Promise<Card> {
-  validatePathComponent(cardId);
+export async function renameColumn(from: string, to: string): Promise<string[]> {
+  validatePathComponent(from);
+  validatePathComponent(to);
 
-  const board = await loadBoard();
-  const card = board.cards.find((c) => c.id === cardId);
+  const config = await readBoardConfig();
+  const columns = parseColumns(config);
+
+  if (!columns.includes(from)) {
+    throw new KanmdError(
+      `Column "${from}" doesn't exist. Available: ${columns.join(', ')}`,
+      'COLUMN_NOT_FOUND'
+    );
+  }
+  if (columns.includes(to)) {
+    throw new KanmdError(`Column "${to}" already exists`, 'COLUMN_EXISTS');
+  }
+
+  const entries = columnEntries(config).map((entry) => {
+    if (columnEntryName(entry) !== from) return entry;
+    return isPlainObject(entry) ? { ...entry, name: to } : to;
+  });
+  const updated: Record<string, unknown> = { ...config, columns: entries };
+  if (config.transitions !== undefined) {
+    updated.transitions = rewriteTransitions(config.transitions, (c) => (c === from ? to : c));
+  }
+  const store = await cardStore(updated);
 
-  if (!card) {
-    throw new KanmdError(`Card "${cardId}" not found`, 'CARD_NOT_FOUND');
+  // An empty leftover directory can be replaced; one with files is left for the user to sort out
+  if (!(await store.removeDir(to))) {
+    throw new KanmdError(
+      `Directory "${to}" already exists and is not empty. Move or remove it first.`,
+      'COLUMN_EXISTS'
+    );
   }
 
-  card.checklist.push({ text, checked: false });
-  const updatedCard = { ...card, updated: new Date().toISOString() };
-  const cardPath = path.join(KANBAN_DIR, card.column, `${cardId}.md`);
-  assertPathWithinBase(cardPath, KANBAN_DIR);
+  // Renaming the directory moves its cards along with it
+  await store.createDir(from);
+  await store.rename(from, to);
+  await writeBoardConfig(updated);
 
-  const tempPath = cardPath + '.tmp';
-  await fs.writeFile(tempPath, serializeCard(updatedCard));
-  await fs.rename(tempPath, cardPath);
+  // Keep column entry times (used by stats) under the column's new name. Like
+  // the rename itself this isn't journaled: undoing it would only leave the
+  // cards naming a column that no longer exists.
+  const board = await loadBoard();
+  for (const { id } of board.cards.filter((c) => c.entered?.[from] !== undefined)) {
+    await retryOnConflict(id, {}, async () => {
+      const card = (await loadBoard()).cards.find((c) => c.id === id);
+      if (card?.entered?.[from] === undefined) return true;
+      const entered = Object.fromEntries(
+        Object.entries(card.entered).map(([column, time]) => [column === from ? to : column, time])
+      );
+      return (await commitCards([{ original: card, updated: { ...card, entered } }])) || undefined;
+    });
+  }
 
-  return { ...updatedCard, checklist: card.checklist };
+  return entries.map(columnEntryName);
 }
 
-export async function checklistToggle(cardId: string, index: number): Promise<Card> {
-  validatePathComponent(cardId);
+export async function removeColumn(name: string, toColumn?: string): Promise<string[]> {
+  validatePathComponent(name);
+  if (toColumn !== undefined) {
+    validatePathComponent(toColumn);
+  }
 
   const board = await loadBoard();
-  const card = board.cards.find((c) => c.id === cardId);
 
-  if (!card) {
-    throw new KanmdError(`Card "${cardId}" not found`, 'CARD_NOT_FOUND');
+  if (!board.columns.includes(name)) {
+    throw new KanmdError(
+      `Column "${name}" doesn't exist. Available: ${board.columns.join(', ')}`,
+      'COLUMN_NOT_FOUND'
+    );
   }
 
-  if (index < 1 || index > card.checklist.length) {
+  const cards = board.cards.filter((c) => c.column === name);
+  const invalid = board.invalidCards.find((c) => c.column === name);
+  if (invalid) throw invalidCardError(invalid);
+
+  if (toColumn !== undefined) {
+    if (toColumn === name) {
+      throw new KanmdError('Cannot move cards into the column being removed', 'INVALID_TARGET');
+    }
+    if (!board.columns.includes(toColumn)) {
+      throw new KanmdError(
+        `Column "${toColumn}" doesn't exist. Available: ${board.columns.join(', ')}`,
+        'COLUMN_NOT_FOUND'
+      );
+    }
+  } else if (cards.length > 0) {
     throw new KanmdError(
-      `Index ${index} out of range. Card has ${card.checklist.length} checklist item(s).`,
-      'INVALID_INDEX'
+      `Column "${name}" has ${cards.length} card(s). Move them first or pass --to <column>.`,
+      'COLUMN_NOT_EMPTY'
     );
   }
 
-  card.checklist[index - 1].checked = !card.checklist[index - 1].checked;
-  const updatedCard = { ...card, updated: new Date().toISOString() };
-  const cardPath = path.join(KANBAN_DIR, card.column, `${cardId}.md`);
-  assertPathWithinBase(cardPath, KANBAN_DIR);
+  // Removing a column is an explicit admin action, so WIP limits and workflow rules don't block it
+  for (const card of cards) {
+    await moveCard(card.id, toColumn!, { force: true, skipWorkflow: true });
+  }
+
+  const config = await readBoardConfig();
+  const entries = columnEntries(config).filter((entry) => columnEntryName(entry) !== name);
+  const updated: Record<string, unknown> = { ...config, columns: entries };
+  if (config.transitions !== undefined) {
+    const transitions = rewriteTransitions(config.transitions, (c) => (c === name ? null : c));
+    if (transitions === undefined) delete updated.transitions;
+    else updated.transitions = transitions;
+  }
+  await writeBoardConfig(updated);
+  const remaining = entries.map(columnEntryName);
 
-  const tempPath = cardPath + '.tmp';
-  await fs.writeFile(tempPath, serializeCard(updatedCard));
-  await fs.rename(tempPath, cardPath);
+  if (!(await (await cardStore(updated)).removeDir(name))) {
+    throw new KanmdError(
+      `Removed "${name}" from board.yaml, but its directory still contains non-card files`,
+      'COLUMN_NOT_EMPTY'
+    );
+  }
 
-  return { ...updatedCard, checklist: card.checklist };
+  return remaining;
 }
 
-export async function checklistRemove(cardId: string, index: number): Promise<Card> {
-  validatePathComponent(cardId);
+export async function reorderColumns(order: string[]): Promise<string[]> {
+  const config = await readBoardConfig();
+  const columns = parseColumns(config);
 
-  const board = await loadBoard();
-  const card = board.cards.find((c) => c.id === cardId);
+  const sameSet =
+    order.length === columns.length &&
+    new Set(order).size === order.length &&
+    order.every((c) => columns.includes(c));
 
-  if (!card) {
-    throw new KanmdError(`Card "${cardId}" not found`, 'CARD_NOT_FOUND');
+  if (!sameSet) {
+    throw new KanmdError(
+      `New order must list every column exactly once: ${columns.join(', ')}`,
+      'INVALID_COLUMN_ORDER'
+    );
   }
 
-  if (index < 1 || index > card.checklist.length) {
+  const entries = columnEntries(config);
+  const reordered = order.map((name) => entries.find((e) => columnEntryName(e) === name));
+  await writeBoardConfig({ ...config, columns: reordered });
+  return order;
+}
+
+/**
+ * Sets or clears (limit undefined) the WIP limit of a column.
+ */
+export async function setColumnWip(name: string, limit: number | undefined): Promise<void> {
+  validatePathComponent(name);
+
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    throw new KanmdError('WIP limit must be a positive integer', 'INVALID_WIP_LIMIT');
+  }
+
+  const config = await readBoardConfig();
+  const columns = parseColumns(config);
+
+  if (!columns.includes(name)) {
     throw new KanmdError(
-      `Index ${index} out of range. Card has ${card.checklist.length} checklist item(s).`,
-      'INVALID_INDEX'
+      `Column "${name}" doesn't exist. Available: ${columns.join(', ')}`,
+      'COLUMN_NOT_FOUND'
     );
   }
 
-  card.checklist.splice(index - 1, 1);
-  const updatedCard = { ...card, updated: new Date().toISOString() };
-  const cardPath = path.join(KANBAN_DIR, card.column, `${cardId}.md`);
-  assertPathWithinBase(cardPath, KANBAN_DIR);
+  const entries = columnEntries(config).map((entry) => {
+    if (columnEntryName(entry) !== name) return entry;
 
-  const tempPath = cardPath + '.tmp';
-  await fs.writeFile(tempPath, serializeCard(updatedCard));
-  await fs.rename(tempPath, cardPath);
+    const updated: Record<string, unknown> = isPlainObject(entry) ? { ...entry } : { name };
+    if (limit === undefined) {
+      delete updated.wip;
+    } else {
+      updated.wip = limit;
+    }
+    // Collapse back to a bare name when no settings remain
+    return Object.keys(updated).length === 1 ? updated.name : updated;
+  });
+
+  await writeBoardConfig({ ...config, columns: entries });
+}
 
-  return { ...updatedCard, checklist: card.checklist };
+/**
+ * Resolves "A <type> B" into the card that stores the link and the value it stores.
+ * Only blocked_by and parent are written to disk; blocks/child are their inverses.
+ */
+function resolveLink(
+  cardId: string,
+  type: LinkType,
+  targetId: string
+): { ownerId: string; field: 'blockedBy' | 'parent'; value: string } {
+  switch (type) {
+    case 'blocks':
+      return { ownerId: targetId, field: 'blockedBy', value: cardId };
+    case 'blocked-by':
+      return { ownerId: cardId, field: 'blockedBy', value: targetId };
+    case 'parent':
+      return { ownerId: cardId, field: 'parent', value: targetId };
+    case 'child':
+      return { ownerId: targetId, field: 'parent', value: cardId };
+  }
 }
 
-export async function rankCard(cardId: string, newPosition: number): Promise<void> {
+export async function linkCards(cardId: string, type: LinkType, targetId: string): Promise<Card> {
   validatePathComponent(cardId);
+  validatePathComponent(targetId);
 
-  if (newPosition < 1) {
-    throw new KanmdError('Position must be 1 or greater', 'INVALID_POSITION');
+  if (cardId === targetId) {
+    throw new KanmdError('A card cannot be linked to itself', 'INVALID_LINK');
   }
 
-  const board = await loadBoard();
-  const card = board.cards.find((c) => c.id === cardId);
+  const { ownerId, field, value } = resolveLink(cardId, type, targetId);
+
+  return mutateCard(ownerId, 'link', {}, (owner, board) => {
+    for (const id of [cardId, targetId]) findCard(board, id);
+
+    if (field === 'blockedBy') {
+      if (owner.blockedBy?.includes(value)) return owner;
+      if (dependsOn(board, value, ownerId)) {
+        throw new KanmdError(
+          `Linking would create a dependency cycle between "${ownerId}" and "${value}"`,
+          'LINK_CYCLE'
+        );
+      }
+      return {
+        ...owner,
+        blockedBy: [...(owner.blockedBy || []), value],
+        updated: new Date().toISOString(),
+      };
+    }
+
+    if (owner.parent === value) return owner;
+    if (isAncestor(board, ownerId, value)) {
+      throw new KanmdError(
+        `Linking would make "${ownerId}" its own ancestor via "${value}"`,
+        'LINK_CYCLE'
+      );
+    }
+    return { ...owner, parent: value, updated: new Date().toISOString() };
+  });
+}
+
+export async function unlinkCards(cardId: string, type: LinkType, targetId: string): Promise<Card> {
+  validatePathComponent(cardId);
+  validatePathComponent(targetId);
 
-  if (!card) {
-    throw new KanmdError(`Card "${cardId}" not found`, 'CARD_NOT_FOUND');
+  const { ownerId, field, value } = resolveLink(cardId, type, targetId);
+
+  return mutateCard(ownerId, 'unlink', {}, (owner) => {
+    const linked =
+      field === 'blockedBy' ? owner.blockedBy?.includes(value) : owner.parent === value;
+    if (!linked) {
+      throw new KanmdError(`"${cardId}" is not linked as ${type} "${targetId}"`, 'NOT_LINKED');
+    }
+
+    const updatedCard: Card = { ...owner, updated: new Date().toISOString() };
+    if (field === 'blockedBy') {
+      const blockedBy = owner.blockedBy!.filter((id) => id !== value);
+      updatedCard.blockedBy = blockedBy.length > 0 ? blockedBy : undefined;
+    } else {
+      updatedCard.parent = undefined;
+    }
+    return updatedCard;
+  });
+}
+
+/**
+ * Changes a card's ID (its filename) and updates every card that refers to it.
+ */
+export async function renameCard(cardId: string, newId: string): Promise<Card> {
+  validatePathComponent(cardId);
+  validatePathComponent(newId);
+
+  const committed = await retryOnConflict(cardId, {}, async () => {
+    const { board, card } = await loadForMutation(cardId, {});
+    if (board.cards.some((c) => c.id === newId)) {
+      throw new KanmdError(`Card "${newId}" already exists`, 'CARD_EXISTS');
+    }
+
+    const renamed = { ...card, id: newId, updated: new Date().toISOString() };
+    const changes = [
+      { original: card, updated: renamed },
+      ...referenceChanges(board, cardId, newId),
+    ];
+    return (await commitCards(changes, { action: 'rename', card: newId })) ? changes : undefined;
+  });
+
+  for (const { original, updated } of committed) {
+    await recordActivity(updated!.id === newId ? 'rename' : 'edit', original, updated);
   }
+  const renamed = committed[0].updated!;
+  return { ...renamed, revision: contentRevision(serializeCard(renamed)) };
+}
+
+export async function assignCard(
+  cardId: string,
+  assignees: string[],
+  options: MutationOptions = {}
+): Promise<Card> {
+  validatePathComponent(cardId);
+
+  return mutateCard(cardId, 'assign', options, (card) => {
+    const current = card.assignees || [];
+    const added = assignees.filter(
+      (who, i) => !current.includes(who) && assignees.indexOf(who) === i
+    );
+    if (added.length === 0) return card;
+
+    return { ...card, assignees: [...current, ...added], updated: new Date().toISOString() };
+  });
+}
+
+/**
+ * Removes the given assignees, or every assignee when none are given.
+ */
+export async function unassignCard(
+  cardId: string,
+  assignees: string[] = [],
+  options: MutationOptions = {}
+): Promise<Card> {
+  validatePathComponent(cardId);
 
-  // Get all cards in the same column and priority group
-  const groupCards = board.cards.filter(
-    (c) => c.column === card.column && c.priority === card.priority
+  return mutateCard(cardId, 'unassign', options, (card) => {
+    const current = card.assignees || [];
+    const missing = assignees.filter((who) => !current.includes(who));
+    if (missing.length > 0) {
+      throw new KanmdError(
+        `"${missing.join(', ')}" ${missing.length === 1 ? 'is' : 'are'} not assigned to "${cardId}"`,
+        'NOT_ASSIGNED'
+      );
+    }
+
+    const remaining = assignees.length > 0 ? current.filter((who) => !assignees.includes(who)) : [];
+    return {
+      ...card,
+      assignees: remaining.length > 0 ? remaining : undefined,
+      updated: new Date().toISOString(),
+    };
+  });
+}
+
+function alreadyClaimed(card: Card, owner: string, expires: string): KanmdError {
+  return new KanmdError(
+    `Card "${card.id}" is claimed by ${owner} until ${expires}`,
+    'ALREADY_CLAIMED',
+    { owner, expires }
   );
+}
+
+/**
+ * Takes a lease on a card for `ttlMs`. Fails with ALREADY_CLAIMED while someone
+ * else holds a live lease; claiming your own card again extends it.
+ */
+export async function claimCard(cardId: string, owner: string, ttlMs: number): Promise<Card> {
+  validatePathComponent(cardId);
+
+  return mutateCard(cardId, 'claim', {}, (card) => {
+    const lease = activeLease(card);
+    if (lease && lease.owner !== owner) {
+      throw alreadyClaimed(card, lease.owner, lease.expires);
+    }
+    return { ...card, lease: { owner, expires: leaseExpiry(ttlMs) } };
+  });
+}
+
+/**
+ * Extends a lease held by `owner`. An expired lease can be renewed as long as
+ * nobody else has claimed the card in the meantime.
+ */
+export async function renewClaim(cardId: string, owner: string, ttlMs: number): Promise<Card> {
+  validatePathComponent(cardId);
+
+  return mutateCard(cardId, 'renew', {}, (card) => {
+    if (!card.lease) {
+      throw new KanmdError(`Card "${cardId}" is not claimed`, 'NOT_CLAIMED');
+    }
+    if (card.lease.owner !== owner) {
+      throw alreadyClaimed(card, card.lease.owner, card.lease.expires);
+    }
+    return { ...card, lease: { owner, expires: leaseExpiry(ttlMs) } };
+  });
+}
+
+/**
+ * Drops the lease on a card. Only the owner can release a live lease unless
+ * `force` is set; expired leases can be cleared by anyone.
+ */
+export async function releaseClaim(
+  cardId: string,
+  owner: string,
+  options: { force?: boolean } = {}
+): Promise<Card> {
+  validatePathComponent(cardId);
 
-  // Sort the group by current rank (unranked cards go to the end)
-  groupCards.sort((a, b) => {
-    const aRank = a.rank ?? Number.MAX_SAFE_INTEGER;
-    const bRank = b.rank ?? Number.MAX_SAFE_INTEGER;
-    if (aRank !== bRank) return aRank - bRank;
-    return a.created.localeCompare(b.created);
+  return mutateCard(cardId, 'release', {}, (card) => {
+    if (!card.lease) {
+      throw new KanmdError(`Card "${cardId}" is not claimed`, 'NOT_CLAIMED');
+    }
+    const lease = activeLease(card);
+    if (lease && lease.owner !== owner && !options.force) {
+      throw alreadyClaimed(card, lease.owner, lease.expires);
+    }
+    return { ...card, lease: undefined };
   });
+}
 
-  // Remove the target card from its current position
-  const cardIndex = groupCards.findIndex((c) => c.id === cardId);
-  if (cardIndex !== -1) {
-    groupCards.splice(cardIndex, 1);
+/** The card in a journaled file, or null when there's no file or it can't be parsed */
+function journalCard(file: FileState | null): Card | null {
+  if (!file) return null;
+  try {
+    return parseCard(file.content, path.basename(file.path), path.dirname(file.path));
+  } catch (err) {
+    if (!(err instanceof KanmdError)) throw err;
+    return null;
   }
+}
 
-  // Insert at new position (1-indexed, so position 1 = index 0)
-  const insertIndex = Math.min(newPosition - 1, groupCards.length);
-  groupCards.splice(insertIndex, 0, card);
+/**
+ * Puts the files touched by `operation` back to their state before it (undo)
+ * or after it (redo). Refuses with UNDO_CONFLICT, changing nothing, if any of
+ * them has been changed since.
+ */
+async function replayOperation(operation: JournalOperation, kind: 'undo' | 'redo'): Promise<void> {
+  const steps = operation.changes.map(({ before, after }) =>
+    kind === 'undo' ? { expected: after, restore: before } : { expected: before, restore: after }
+  );
+  const files = steps.flatMap(({ expected, restore }) => [expected, restore]);
+  const cardIds = files.flatMap((file) => (file ? [path.basename(file.path, '.md')] : []));
+  const expectedPaths = new Set(steps.flatMap(({ expected }) => (expected ? [expected.path] : [])));
+
+  const conflict = (file: FileState, reason: string) => {
+    const card = path.basename(file.path, '.md');
+    return new KanmdError(
+      `Cannot ${kind} ${operation.action} of "${operation.card}": ${reason}`,
+      'UNDO_CONFLICT',
+      { operation: operation.id, card }
+    );
+  };
 
-  // Renumber all cards in the group (1, 2, 3, ...)
-  // Collect updates first, write to temp files, then rename all (reduces inconsistency window)
-  const updates: Array<{ cardPath: string; tempPath: string; content: string }> = [];
+  const store = await cardStore();
+  await withCardLocks(cardIds, async () => {
+    const board = await loadBoard();
 
-  for (let i = 0; i < groupCards.length; i++) {
-    const c = groupCards[i];
-    const newRank = i + 1;
+    for (const { expected, restore } of steps) {
+      const file = (expected || restore)!;
+      const card = path.basename(file.path, '.md');
+      const current = await store.read(file.path);
+      if (expected && current !== expected.content) {
+        throw conflict(expected, `card "${card}" has changed since`);
+      }
+      if (!restore) continue;
 
-    // Only update cards whose rank actually changed
-    if (c.rank !== newRank) {
-      const cardPath = path.join(KANBAN_DIR, c.column, `${c.id}.md`);
-      assertPathWithinBase(cardPath, KANBAN_DIR);
+      if (!board.columns.includes(path.dirname(restore.path))) {
+        throw conflict(restore, `column "${path.dirname(restore.path)}" no longer exists`);
+      }
+      if (!expectedPaths.has(restore.path) && (await store.read(restore.path))) {
+        throw conflict(restore, `card "${path.basename(restore.path, '.md')}" exists again`);
+      }
+    }
 
-      const updatedCard = { ...c, rank: newRank, updated: new Date().toISOString() };
-      updates.push({
-        cardPath,
-        tempPath: cardPath + '.tmp',
-        content: serializeCard(updatedCard),
-      });
+    for (const { expected, restore } of steps) {
+      if (expected && expected.path !== restore?.path) {
+        await store.delete(expected.path);
+      }
     }
+    for (const { restore } of steps) {
+      if (!restore) continue;
+      await store.write(restore.path, restore.content);
+    }
+  });
+
+  for (const { expected, restore } of steps) {
+    const file = (restore || expected)!;
+    await recordActivity(
+      kind,
+      journalCard(expected),
+      journalCard(restore),
+      path.basename(file.path, '.md')
+    );
   }
+}
+
+async function replayJournal(kind: 'undo' | 'redo', count: number): Promise<JournalOperation[]> {
+  const store = getBoardStore();
+  await ensureBoard();
+  const actor = await currentActor();
+  const replayed: JournalOperation[] = [];
+
+  while (replayed.length < count) {
+    const { done, undone } = undoStacks(await readJournal(store), actor);
+    const stack = kind === 'undo' ? done : undone;
+    const operation = stack[stack.length - 1];
+    if (!operation) break;
+
+    await replayOperation(operation, kind);
+    await appendJournal(store, {
+      type: kind,
+      id: operation.id,
+      time: new Date().toISOString(),
+      actor,
+    });
+    replayed.push(operation);
+  }
+
+  if (replayed.length === 0) {
+    throw new KanmdError(
+      `Nothing to ${kind}`,
+      kind === 'undo' ? 'NOTHING_TO_UNDO' : 'NOTHING_TO_REDO'
+    );
+  }
+  return replayed;
+}
+
+/**
+ * Reverts the current user's last `count` operations, newest first. Stops at
+ * the first one whose cards have been changed since (UNDO_CONFLICT).
+ */
+export async function undo(count = 1): Promise<JournalOperation[]> {
+  return replayJournal('undo', count);
+}
+
+/**
+ * Re-applies the last `count` undone operations. Any new operation by the same
+ * user clears what can be redone.
+ */
+export async function redo(count = 1): Promise<JournalOperation[]> {
+  return replayJournal('redo', count);
+}
+
+/**
+ * Adds cards brought in from another tool as one operation, so a single undo
+ * removes them all. `source` names where they came from in the journal.
+ * Cards whose ID is already on the board, or isn't a valid ID, are skipped.
+ */
+export async function importCards(
+  cards: Card[],
+  source: string
+): Promise<{ imported: Card[]; skipped: Card[] }> {
+  const board = await loadBoard();
+  const taken = new Set(board.cards.map((c) => c.id));
+  const imported: Card[] = [];
+  const skipped: Card[] = [];
+
+  for (const card of cards) {
+    if (!board.columns.includes(card.column)) {
+      throw new KanmdError(
+        `Column "${card.column}" doesn't exist. Available: ${board.columns.join(', ')}`,
+        'COLUMN_NOT_FOUND'
+      );
+    }
+    if (!/^[a-z0-9-]+$/.test(card.id) || taken.has(card.id)) {
+      skipped.push(card);
+      continue;
+    }
+    taken.add(card.id);
+    imported.push(card);
+  }
+
+  const written = await withCardLocks(
+    imported.map((c) => c.id),
+    async () => {
+      const store = await cardStore();
+      const journal: JournalChange[] = [];
+      const written: Card[] = [];
+      for (const card of imported) {
+        const content = serializeCard(card);
+        // Added by someone else since the board was loaded
+        if (!(await store.create(cardFilePath(card), content))) {
+          skipped.push(card);
+          continue;
+        }
+        journal.push({ before: null, after: { path: cardFilePath(card), content } });
+        written.push({ ...card, revision: contentRevision(content) });
+      }
+      if (journal.length > 0) await journalOperation('import', source, journal);
+      return written;
+    }
+  );
+
+  for (const card of written) {
+    await recordActivity('import', null, card);
+  }
+  return { imported: written, skipped };
+}
+
+export interface SyncChange {
+  id: string;
+  /** The card's column after the sync, or before it for a deleted card */
+  column: string;
+  change: 'added' | 'updated' | 'deleted';
+}
+
+export interface SyncResult {
+  /** Changes copied from the column directories into BOARD.md */
+  toFile: SyncChange[];
+  /** Changes copied from BOARD.md into the column directories */
+  toDirectories: SyncChange[];
+  /** IDs of cards changed on both sides, left as they are */
+  conflicts: string[];
+}
+
+/**
+ * Reads every card on one side of a sync, keyed by ID. Columns other than
+ * board.yaml's are refused rather than dropped.
+ */
+async function readSyncSide(
+  store: BoardStore,
+  columns: string[],
+  side: SyncSide
+): Promise<Map<string, Card>> {
+  const cards = new Map<string, Card>();
+  for (const entry of await store.list('')) {
+    if (!entry.directory || entry.name.startsWith('.') || columns.includes(entry.name)) continue;
+    if (side === 'file') {
+      throw new KanmdError(
+        `BOARD.md has a column "${entry.name}" that isn't in board.yaml`,
+        'COLUMN_NOT_FOUND'
+      );
+    }
+  }
+
+  for (const column of columns) {
+    for (const entry of await store.list(column)) {
+      if (entry.directory || !entry.name.endsWith('.md')) continue;
+      const id = entry.name.slice(0, -'.md'.length);
+      if (!id) {
+        throw new KanmdError(
+          `BOARD.md has a card in "${column}" without a usable ID`,
+          'INVALID_TITLE'
+        );
+      }
+      validatePathComponent(id);
+      const content = await store.read(`${column}/${entry.name}`);
+      if (content === null) continue;
+      const existing = cards.get(id);
+      if (existing) {
+        throw new KanmdError(
+          `Card "${id}" is in both ${existing.column} and ${column}. Remove the duplicate first.`,
+          'CARD_EXISTS'
+        );
+      }
+      cards.set(id, parseCard(content, entry.name, column));
+    }
+  }
+  return cards;
+}
+
+async function readSyncState(store: BoardStore): Promise<Record<string, string>> {
+  const text = await store.read(SYNC_STATE_FILE);
+  if (text === null) return {};
+  try {
+    const state = JSON.parse(text) as { cards?: unknown };
+    return isPlainObject(state.cards) ? (state.cards as Record<string, string>) : {};
+  } catch {
+    throw new KanmdError(`${SYNC_STATE_FILE} is not valid JSON`, 'INVALID_SYNC_STATE');
+  }
+}
+
+/**
+ * Brings BOARD.md and the column directories back in line after either was
+ * edited by hand. Each card changed on one side since the last sync is copied
+ * to the other; cards changed on both are reported as conflicts and left
+ * alone, unless `prefer` says which side wins. Changes to the side board.yaml
+ * stores cards in are journaled, so `kanmd undo` reverts them.
+ */
+export async function syncBoardFile(prefer?: SyncSide): Promise<SyncResult> {
+  const config = await readBoardConfig();
+  const columns = parseColumns(config);
+  const store = getBoardStore();
+  const stores: Record<SyncSide, BoardStore> = {
+    file: createBoardFileStore(store, boardFileOptions(config)),
+    directories: store,
+  };
+  const live: SyncSide = storageMode(config) === 'file' ? 'file' : 'directories';
+  for (const column of columns) {
+    await stores.file.createDir(column);
+  }
+
+  const sides = {
+    file: await readSyncSide(stores.file, columns, 'file'),
+    directories: await readSyncSide(stores.directories, columns, 'directories'),
+  };
+  // Cards written into BOARD.md by hand get a created time, and are rewritten
+  // there with it and their ID
+  const created = new Date().toISOString();
+  const normalize = new Set<string>();
+  for (const card of sides.file.values()) {
+    if (card.created) continue;
+    card.created = created;
+    normalize.add(card.id);
+  }
+
+  // A side with no cards at all (e.g. BOARD.md not written yet) is filled
+  // from the other rather than treated as every card having been deleted
+  const emptySide = sides.file.size === 0 || sides.directories.size === 0;
+  const base = emptySide ? {} : await readSyncState(store);
+  const plan = planSync(sides.file, sides.directories, base, prefer);
+  for (const id of normalize) {
+    if (!plan.toFile.has(id) && plan.toDirectories.has(id)) {
+      plan.toFile.set(id, sides.file.get(id)!);
+    }
+  }
+
+  const result: SyncResult = { toFile: [], toDirectories: [], conflicts: plan.conflicts };
+  const targets: Array<[SyncSide, Map<string, Card | null>, SyncChange[]]> = [
+    ['file', plan.toFile, result.toFile],
+    ['directories', plan.toDirectories, result.toDirectories],
+  ];
+  const ids = targets.flatMap(([, changes]) => [...changes.keys()]);
+
+  const applied = await withCardLocks(ids, async () => {
+    const journal: JournalChange[] = [];
+    const activity: Array<[Card | null, Card | null]> = [];
+
+    for (const [side, changes, report] of targets) {
+      const target = stores[side];
+      for (const [id, updated] of changes) {
+        const original = sides[side].get(id) ?? null;
+        const before = original && {
+          path: cardFilePath(original),
+          content: (await target.read(cardFilePath(original)))!,
+        };
+
+        if (original && (!updated || cardFilePath(original) !== cardFilePath(updated))) {
+          await target.delete(cardFilePath(original));
+        }
+        let after: FileState | null = null;
+        if (updated) {
+          await target.write(cardFilePath(updated), serializeCard(updated));
+          after = {
+            path: cardFilePath(updated),
+            content: (await target.read(cardFilePath(updated)))!,
+          };
+        }
+
+        if (before?.content !== after?.content && side === live) journal.push({ before, after });
+        // Rewriting a hand-written card in BOARD.md isn't a change to report
+        if (side === 'file' && normalize.has(id)) continue;
+
+        const change = !original ? 'added' : !updated ? 'deleted' : 'updated';
+        report.push({ id, column: (updated || original)!.column, change });
+        if (side === live) activity.push([original, updated]);
+      }
+    }
+
+    if (journal.length > 0) await journalOperation('sync', 'BOARD.md', journal);
+    return activity;
+  });
 
-  // Phase 1: Write all temp files
-  for (const update of updates) {
-    await fs.writeFile(update.tempPath, update.content);
+  // The next sync compares against the cards as they are now
+  const state: Record<string, string> = { ...plan.state };
+  for (const id of normalize) {
+    if (plan.toFile.has(id)) state[id] = syncRevision(sides.file.get(id)!);
   }
+  await store.write(SYNC_STATE_FILE, JSON.stringify({ cards: state }, null, 2) + '\n');
 
-  // Phase 2: Rename all temp files to final (atomic per-file)
-  for (const update of updates) {
-    await fs.rename(update.tempPath, update.cardPath);
+  for (const [before, after] of applied) {
+    await recordActivity('sync', before, after);
   }
+  return result;
 }
@@ -0,0 +1,19 @@
+// Library entry point: `import { createBoard } from 'kanmd'`
+
+export { createBoard } from './client.js';
+export type { AddCardOptions, BoardClient, BoardOptions, CardUpdates } from './client.js';
+export { createDirectoryStore, createMemoryStore } from './store.js';
+export type { BoardStore, DirectoryStore, StoreEntry } from './store.js';
+export { KanmdError, PRIORITIES } from './types.js';
+export type {
+  Board,
+  Card,
+  ChecklistItem,
+  ChecklistNote,
+  ColumnSettings,
+  InvalidCard,
+  Lease,
+  MutationOptions,
+  PlacementOptions,
+  Priority,
+} from './types.js';
@@ -0,0 +1,84 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { JOURNAL_FILE, appendJournal, readJournal, undoStacks } from './journal.js';
+import type { JournalEntry, JournalOperation } from './journal.js';
+import { createDirectoryStore } from './store.js';
+import type { BoardStore } from './store.js';
+
+function op(id: string, actor = 'alice'): JournalOperation {
+  return {
+    type: 'op',
+    id,
+    time: '2026-10-19T10:00:00.000Z',
+    actor,
+    action: 'edit',
+    card: 'task',
+    changes: [],
+  };
+}
+
+function marker(type: 'undo' | 'redo', id: string, actor = 'alice'): JournalEntry {
+  return { type, id, time: '2026-10-19T10:00:00.000Z', actor };
+}
+
+const ids = (ops: JournalOperation[]) => ops.map((o) => o.id);
+
+describe('undoStacks', () => {
+  test('operations can be undone newest first', () => {
+    const { done, undone } = undoStacks([op('a'), op('b'), op('c')], 'alice');
+    expect(ids(done)).toEqual(['a', 'b', 'c']);
+    expect(undone).toEqual([]);
+  });
+
+  test('undo moves an operation to the redo stack and redo moves it back', () => {
+    const entries = [op('a'), op('b'), marker('undo', 'b'), marker('undo', 'a')];
+    let stacks = undoStacks(entries, 'alice');
+    expect(ids(stacks.done)).toEqual([]);
+    expect(ids(stacks.undone)).toEqual(['b', 'a']);
+
+    stacks = undoStacks([...entries, marker('redo', 'a')], 'alice');
+    expect(ids(stacks.done)).toEqual(['a']);
+    expect(ids(stacks.undone)).toEqual(['b']);
+  });
+
+  test('a new operation clears the redo stack', () => {
+    const entries = [op('a'), marker('undo', 'a'), op('b')];
+    const { done, undone } = undoStacks(entries, 'alice');
+    expect(ids(done)).toEqual(['b']);
+    expect(undone).toEqual([]);
+  });
+
+  test('ignores other actors', () => {
+    const entries = [op('a'), op('b', 'bob'), marker('undo', 'a', 'bob')];
+    expect(ids(undoStacks(entries, 'alice').done)).toEqual(['a']);
+    expect(ids(undoStacks(entries, 'bob').done)).toEqual(['b']);
+  });
+});
+
+describe('journal file', () => {
+  let dir: string;
+  let store: BoardStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kanmd-journal-'));
+    store = createDirectoryStore(dir);
+  });
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('round-trips entries and skips truncated lines', async () => {
+    await appendJournal(store, op('a'));
+    await fs.appendFile(path.join(dir, JOURNAL_FILE), '{"type":"op","id":\n');
+    await appendJournal(store, marker('undo', 'a'));
+
+    const entries = await readJournal(store);
+    expect(entries.map((e) => e.type)).toEqual(['op', 'undo']);
+  });
+
+  test('a missing journal is empty', async () => {
+    expect(await readJournal(store)).toEqual([]);
+  });
+});
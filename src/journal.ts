@@ -0,0 +1,117 @@
+import type { ActivityAction } from './activity.js';
+import type { BoardStore } from './store.js';
+import { KanmdError } from './types.js';
+
+/**
+ * Full before/after file contents of recent operations, used by undo and redo.
+ * Unlike the activity log this is a working file and can be gitignored.
+ */
+export const JOURNAL_FILE = 'journal.jsonl';
+
+// Once the journal passes JOURNAL_MAX_BYTES it is cut down to the newest entries
+const JOURNAL_MAX_BYTES = 2 * 1024 * 1024;
+const JOURNAL_KEEP_ENTRIES = 200;
+
+export interface FileState {
+  /** Path relative to the board directory, e.g. "todo/my-task.md" */
+  path: string;
+  content: string;
+}
+
+export interface JournalChange {
+  /** null when the operation created the file */
+  before: FileState | null;
+  /** null when the operation deleted the file */
+  after: FileState | null;
+}
+
+export interface JournalOperation {
+  type: 'op';
+  id: string;
+  time: string;
+  actor: string;
+  action: ActivityAction;
+  card: string;
+  changes: JournalChange[];
+}
+
+export interface JournalMarker {
+  type: 'undo' | 'redo';
+  /** ID of the operation that was undone or redone */
+  id: string;
+  time: string;
+  actor: string;
+}
+
+export type JournalEntry = JournalOperation | JournalMarker;
+
+export function newOperationId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function appendJournal(store: BoardStore, entry: JournalEntry): Promise<void> {
+  const lockError = () => new KanmdError('The undo journal is locked by another process', 'LOCKED');
+
+  await store.lock(JOURNAL_FILE + '.lock', lockError, async () => {
+    await store.append(JOURNAL_FILE, JSON.stringify(entry) + '\n');
+
+    const size = await store.size(JOURNAL_FILE);
+    if (size !== null && size > JOURNAL_MAX_BYTES) {
+      const lines = ((await store.read(JOURNAL_FILE)) ?? '').split('\n').filter(Boolean);
+      await store.write(JOURNAL_FILE, lines.slice(-JOURNAL_KEEP_ENTRIES).join('\n') + '\n');
+    }
+  });
+}
+
+export async function readJournal(store: BoardStore): Promise<JournalEntry[]> {
+  const content = await store.read(JOURNAL_FILE);
+  if (content === null) return [];
+
+  const entries: JournalEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as JournalEntry);
+    } catch {
+      // Skip a line cut short by a crash
+    }
+  }
+  return entries;
+}
+
+/**
+ * Replays the journal for one actor. `done` holds operations that can be
+ * undone (newest last) and `undone` those that can be redone (next redo last).
+ * A new operation clears the redo stack, as in an editor.
+ */
+export function undoStacks(
+  entries: JournalEntry[],
+  actor: string
+): { done: JournalOperation[]; undone: JournalOperation[] } {
+  const operations = new Map<string, JournalOperation>();
+  let done: JournalOperation[] = [];
+  let undone: JournalOperation[] = [];
+
+  for (const entry of entries) {
+    if (entry.actor !== actor) continue;
+
+    if (entry.type === 'op') {
+      operations.set(entry.id, entry);
+      done.push(entry);
+      undone = [];
+      continue;
+    }
+
+    const op = operations.get(entry.id);
+    if (!op) continue;
+    if (entry.type === 'undo') {
+      done = done.filter((o) => o.id !== op.id);
+      undone.push(op);
+    } else {
+      undone = undone.filter((o) => o.id !== op.id);
+      done.push(op);
+    }
+  }
+
+  return { done, undone };
+}
@@ -0,0 +1,150 @@
+import { parseDueDate } from './dates.js';
+import { isLeaseExpired } from './lease.js';
+import { getRelations, openBlockers } from './relations.js';
+import { sortCards } from './render.js';
+import { isValidPriority, KanmdError } from './types.js';
+import type { Board, Card, InvalidCard } from './types.js';
+
+// JSON shapes shared by `--json` output, the HTTP API and the MCP server
+
+export function stripUndefined(obj: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined));
+}
+
+export function cardToJson(card: Card): Record<string, unknown> {
+  return stripUndefined({
+    id: card.id,
+    title: card.title,
+    column: card.column,
+    priority: card.priority,
+    labels: card.labels,
+    created: card.created,
+    updated: card.updated,
+    description: card.description,
+    checklist: card.checklist,
+    rank: card.rank,
+    revision: card.revision,
+    assignees: card.assignees,
+    due: card.due,
+    lease: card.lease ? { ...card.lease, expired: isLeaseExpired(card.lease) } : undefined,
+    blockedBy: card.blockedBy,
+    parent: card.parent,
+    entered: card.entered,
+    extraFrontmatter: card.extraFrontmatter,
+    extraSections: card.extraSections,
+    preamble: card.preamble,
+  });
+}
+
+/** A card with its relations to the rest of the board, as `kanmd show` gives it */
+export function cardDetailToJson(board: Board, card: Card): Record<string, unknown> {
+  const relations = getRelations(board, card);
+  return stripUndefined({
+    ...cardToJson(card),
+    blocks: relations.blocks.length > 0 ? relations.blocks.map((c) => c.id) : undefined,
+    children: relations.children.length > 0 ? relations.children.map((c) => c.id) : undefined,
+    blocked: openBlockers(board, card).length > 0 || undefined,
+  });
+}
+
+/** The board with `cards` (all of them, or a filtered set) grouped by column */
+export function boardToJson(board: Board, cards: Card[] = board.cards): Record<string, unknown> {
+  const columns: Record<string, unknown[]> = {};
+  for (const column of board.columns) {
+    columns[column] = sortCards(cards.filter((c) => c.column === column)).map((card) =>
+      stripUndefined({
+        ...cardToJson(card),
+        blocked: openBlockers(board, card).length > 0 || undefined,
+      })
+    );
+  }
+  const wipLimits: Record<string, number> = {};
+  for (const [column, settings] of Object.entries(board.columnSettings)) {
+    if (settings.wip !== undefined) wipLimits[column] = settings.wip;
+  }
+  return stripUndefined({
+    columns: board.columns,
+    cards: columns,
+    wipLimits: Object.keys(wipLimits).length > 0 ? wipLimits : undefined,
+    transitions: board.transitions,
+    orphanedColumns: board.orphanedColumns.length > 0 ? board.orphanedColumns : undefined,
+    invalidCards:
+      board.invalidCards.length > 0
+        ? board.invalidCards.map(({ id, column, error }) => ({ id, column, error }))
+        : undefined,
+  });
+}
+
+/** A card file that can't be parsed, as `kanmd show` gives it */
+export function invalidCardToJson(card: InvalidCard): Record<string, unknown> {
+  return {
+    id: card.id,
+    column: card.column,
+    revision: card.revision,
+    error: card.error,
+    content: card.content,
+  };
+}
+
+// Reading JSON input
+
+export type JsonObject = Record<string, unknown>;
+
+export function invalid(message: string): KanmdError {
+  return new KanmdError(message, 'INVALID_REQUEST');
+}
+
+export function stringField(body: JsonObject, name: string, required: true): string;
+export function stringField(body: JsonObject, name: string, required?: false): string | undefined;
+export function stringField(body: JsonObject, name: string, required = false): string | undefined {
+  const value = body[name];
+  if (value === undefined && !required) return undefined;
+  if (typeof value !== 'string' || (required && !value)) {
+    throw invalid(`"${name}" must be a ${required ? 'non-empty ' : ''}string`);
+  }
+  return value;
+}
+
+export function positiveInteger(value: unknown, name: string): number {
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isInteger(number) || number < 1) {
+    throw invalid(`"${name}" must be a positive integer`);
+  }
+  return number;
+}
+
+/**
+ * Card edits from a JSON object (title, description, labels, due, priority),
+ * checked the same way `kanmd edit` and `kanmd priority` check them.
+ */
+export function cardUpdates(body: JsonObject): Partial<Card> {
+  const updates: Partial<Card> = {};
+  const title = stringField(body, 'title');
+  if (title !== undefined) updates.title = title;
+  const description = stringField(body, 'description');
+  if (description !== undefined) updates.description = description;
+
+  if (body.labels !== undefined) {
+    if (!Array.isArray(body.labels) || body.labels.some((l) => typeof l !== 'string')) {
+      throw invalid('"labels" must be an array of strings');
+    }
+    updates.labels = (body.labels as string[]).map((l) => l.trim()).filter(Boolean);
+  }
+  if (body.due !== undefined) {
+    updates.due = body.due === null ? undefined : parseDueDate(stringField(body, 'due', true));
+  }
+  if (body.priority !== undefined) {
+    const priority = stringField(body, 'priority', true);
+    if (!isValidPriority(priority)) {
+      throw invalid(`Invalid priority "${priority}". Must be: high, medium, or low`);
+    }
+    // Clear rank when priority changes (card moves to different priority group)
+    updates.priority = priority;
+    updates.rank = undefined;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    throw invalid('No updates provided. Use title, description, labels, due or priority.');
+  }
+  return updates;
+}
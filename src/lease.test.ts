@@ -0,0 +1,48 @@
+import { describe, test, expect } from 'bun:test';
+import { activeLease, isLeaseExpired, leaseExpiry, parseTtl } from './lease.js';
+import type { Card } from './types.js';
+import { KanmdError } from './types.js';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+function makeCard(expires: string): Card {
+  return {
+    id: 'card',
+    title: 'Card',
+    priority: 'medium',
+    labels: [],
+    created: '',
+    description: '',
+    checklist: [],
+    column: 'todo',
+    lease: { owner: 'agent-1', expires },
+  };
+}
+
+describe('parseTtl', () => {
+  test('parses seconds, minutes, hours and days', () => {
+    expect(parseTtl('90s')).toBe(90_000);
+    expect(parseTtl('30m')).toBe(30 * 60_000);
+    expect(parseTtl('2h')).toBe(2 * 60 * 60_000);
+    expect(parseTtl('1d')).toBe(24 * 60 * 60_000);
+  });
+
+  test('rejects zero and unknown units', () => {
+    expect(() => parseTtl('0m')).toThrow(KanmdError);
+    expect(() => parseTtl('30')).toThrow('Invalid TTL');
+    expect(() => parseTtl('1w')).toThrow('Invalid TTL');
+  });
+});
+
+describe('lease state', () => {
+  test('a lease is live until its expiry', () => {
+    const expires = leaseExpiry(parseTtl('30m'), NOW);
+    expect(expires).toBe('2026-10-19T12:30:00.000Z');
+    expect(activeLease(makeCard(expires), NOW)?.owner).toBe('agent-1');
+    expect(activeLease(makeCard(expires), new Date('2026-10-19T12:30:00.000Z'))).toBeUndefined();
+  });
+
+  test('treats an unreadable expiry as expired', () => {
+    expect(isLeaseExpired({ owner: 'agent-1', expires: '' }, NOW)).toBe(true);
+  });
+});
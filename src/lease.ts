@@ -0,0 +1,38 @@
+import type { Card, Lease } from './types.js';
+import { KanmdError } from './types.js';
+
+export const DEFAULT_LEASE_TTL = '30m';
+
+const TTL_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses a lease duration such as "90s", "30m", "2h" or "1d" into milliseconds.
+ */
+export function parseTtl(input: string): number {
+  const match = /^(\d+)([smhd])$/.exec(input.trim().toLowerCase());
+  if (!match || Number(match[1]) === 0) {
+    throw new KanmdError(`Invalid TTL "${input}". Use e.g. 90s, 30m, 2h or 1d.`, 'INVALID_TTL');
+  }
+  return Number(match[1]) * TTL_UNITS[match[2]];
+}
+
+export function isLeaseExpired(lease: Lease, now: Date = new Date()): boolean {
+  const expires = Date.parse(lease.expires);
+  return isNaN(expires) || expires <= now.getTime();
+}
+
+/**
+ * Returns the card's lease if it is still live, i.e. someone currently holds it.
+ */
+export function activeLease(card: Card, now: Date = new Date()): Lease | undefined {
+  return card.lease && !isLeaseExpired(card.lease, now) ? card.lease : undefined;
+}
+
+export function leaseExpiry(ttlMs: number, now: Date = new Date()): string {
+  return new Date(now.getTime() + ttlMs).toISOString();
+}
@@ -0,0 +1,73 @@
+import fs from 'fs/promises';
+import type { KanmdError } from './types.js';
+
+const LOCK_STALE_MS = 10_000;
+const LOCK_RETRY_MS = 25;
+const LOCK_TIMEOUT_MS = 3_000;
+
+/**
+ * Runs `fn` while holding an exclusive lock file, so a read-check-write can't
+ * interleave with another process. Locks left behind by a crashed process are
+ * broken after LOCK_STALE_MS; waiting longer than LOCK_TIMEOUT_MS throws the
+ * error built by `timeoutError`.
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  timeoutError: () => KanmdError,
+  fn: () => Promise<T>
+): Promise<T> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.close();
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+
+      const stat = await fs.stat(lockPath).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw timeoutError();
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lockPath, { force: true });
+  }
+}
+
+/**
+ * withFileLock for locks that only have to hold within this process. `held`
+ * is the set of lock names currently taken.
+ */
+export async function withMemoryLock<T>(
+  held: Set<string>,
+  name: string,
+  timeoutError: () => KanmdError,
+  fn: () => Promise<T>
+): Promise<T> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  while (held.has(name)) {
+    if (Date.now() > deadline) {
+      throw timeoutError();
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  held.add(name);
+  try {
+    return await fn();
+  } finally {
+    held.delete(name);
+  }
+}
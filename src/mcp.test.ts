@@ -0,0 +1,158 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import { addCard, getCard, setColumnWip } from './files.js';
+import { BOARD_URI, createMcpSession } from './mcp.js';
+import type { JsonRpcMessage, McpSession } from './mcp.js';
+
+const KANBAN_DIR = process.env.KANMD_DIR!;
+
+let session: McpSession;
+let notifications: JsonRpcMessage[];
+let nextId = 1;
+
+async function setupTestBoard(): Promise<void> {
+  await fs.rm(KANBAN_DIR, { recursive: true, force: true });
+  await fs.mkdir(KANBAN_DIR, { recursive: true });
+  await fs.writeFile(
+    path.join(KANBAN_DIR, 'board.yaml'),
+    'columns:\n  - todo\n  - doing\n  - done\n'
+  );
+  await addCard('todo', 'Task A');
+}
+
+async function call(method: string, params: Record<string, unknown> = {}) {
+  const response = await session.handle({ jsonrpc: '2.0', id: nextId++, method, params });
+  return response!;
+}
+
+async function callTool(name: string, args: Record<string, unknown>) {
+  const { result } = await call('tools/call', { name, arguments: args });
+  const { content, isError } = result as { content: Array<{ text: string }>; isError?: boolean };
+  return { isError: isError ?? false, data: JSON.parse(content[0].text) };
+}
+
+describe('MCP session', () => {
+  beforeEach(async () => {
+    await setupTestBoard();
+    notifications = [];
+    session = await createMcpSession('1.2.3', (message) => notifications.push(message));
+  });
+
+  afterEach(async () => {
+    session.close();
+    await fs.rm(KANBAN_DIR, { recursive: true, force: true });
+  });
+
+  test('initialize agrees on a protocol version and lists capabilities', async () => {
+    const { result } = await call('initialize', { protocolVersion: '2024-11-05' });
+    expect(result).toMatchObject({
+      protocolVersion: '2024-11-05',
+      capabilities: { tools: {}, resources: { subscribe: true } },
+      serverInfo: { name: 'kanmd', version: '1.2.3' },
+    });
+
+    const newer = await call('initialize', { protocolVersion: '2099-01-01' });
+    expect((newer.result as { protocolVersion: string }).protocolVersion).toBe('2025-06-18');
+  });
+
+  test('does not answer notifications', async () => {
+    expect(
+      await session.handle({ jsonrpc: '2.0', method: 'notifications/initialized' })
+    ).toBeUndefined();
+  });
+
+  test('lists the board tools with input schemas', async () => {
+    const { result } = await call('tools/list');
+    const tools = (result as { tools: Array<{ name: string; inputSchema: object }> }).tools;
+
+    expect(tools.map((t) => t.name)).toEqual([
+      'list_board',
+      'get_card',
+      'add_card',
+      'move_card',
+      'edit_card',
+      'rank_card',
+      'checklist_add',
+      'checklist_toggle',
+      'checklist_remove',
+    ]);
+    expect(tools[3].inputSchema).toMatchObject({ required: ['id', 'column'] });
+  });
+
+  test('tools change the board through the same rules as the CLI', async () => {
+    const added = await callTool('add_card', { column: 'todo', title: 'Task B', priority: 'high' });
+    expect(added.data).toMatchObject({ id: 'task-b', priority: 'high' });
+
+    const moved = await callTool('move_card', { id: 'task-b', column: 'doing' });
+    expect(moved.data.column).toBe('doing');
+
+    const edited = await callTool('edit_card', {
+      id: 'task-b',
+      labels: ['api'],
+      due: '2026-11-01',
+    });
+    expect(edited.data).toMatchObject({ labels: ['api'], due: '2026-11-01' });
+
+    await callTool('checklist_add', { id: 'task-b', text: 'Write tests' });
+    const toggled = await callTool('checklist_toggle', { id: 'task-b', index: 1 });
+    expect(toggled.data.checklist).toEqual([{ text: 'Write tests', checked: true }]);
+    await callTool('checklist_remove', { id: 'task-b', index: 1 });
+    expect((await getCard('task-b')).checklist).toEqual([]);
+
+    const listed = await callTool('list_board', { query: 'label:api' });
+    expect(listed.data.cards.doing.map((c: { id: string }) => c.id)).toEqual(['task-b']);
+    expect(listed.data.cards.todo).toEqual([]);
+  });
+
+  test('reports kanmd errors as tool errors with their codes', async () => {
+    await addCard('doing', 'Task C');
+    await setColumnWip('doing', 1);
+
+    const blocked = await callTool('move_card', { id: 'task-a', column: 'doing' });
+    expect(blocked.isError).toBe(true);
+    expect(blocked.data.code).toBe('WIP_LIMIT_EXCEEDED');
+
+    const stale = await callTool('edit_card', { id: 'task-a', title: 'New', ifRevision: '0' });
+    expect(stale.data.code).toBe('CONFLICT');
+
+    const missingArg = await callTool('rank_card', { id: 'task-a' });
+    expect(missingArg.data.code).toBe('INVALID_REQUEST');
+  });
+
+  test('rejects unknown tools and methods with JSON-RPC errors', async () => {
+    expect((await call('tools/call', { name: 'nope' })).error?.code).toBe(-32602);
+    expect((await call('nope')).error?.code).toBe(-32601);
+  });
+
+  test('reads the board and cards as resources', async () => {
+    const { result } = await call('resources/list');
+    const uris = (result as { resources: Array<{ uri: string }> }).resources.map((r) => r.uri);
+    expect(uris).toEqual([BOARD_URI, 'kanmd://cards/task-a']);
+
+    const read = await call('resources/read', { uri: 'kanmd://cards/task-a' });
+    const [content] = (read.result as { contents: Array<{ text: string }> }).contents;
+    expect(JSON.parse(content.text).title).toBe('Task A');
+
+    const missing = await call('resources/read', { uri: 'kanmd://cards/nope' });
+    expect(missing.error?.code).toBe(-32002);
+  });
+
+  test('notifies subscribers when a resource changes', async () => {
+    await call('resources/subscribe', { uri: 'kanmd://cards/task-a' });
+    await callTool('move_card', { id: 'task-a', column: 'doing' });
+
+    const deadline = Date.now() + 3000;
+    while (notifications.length === 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+
+    expect(notifications).toEqual([
+      {
+        jsonrpc: '2.0',
+        method: 'notifications/resources/updated',
+        params: { uri: 'kanmd://cards/task-a' },
+      },
+    ]);
+  });
+});
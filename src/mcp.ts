@@ -0,0 +1,471 @@
+import readline from 'readline';
+import {
+  addCard,
+  checklistAdd,
+  checklistRemove,
+  checklistToggle,
+  editCard,
+  getCard,
+  getKanbanDir,
+  loadBoard,
+  moveCard,
+  rankCard,
+} from './files.js';
+import {
+  boardToJson,
+  cardDetailToJson,
+  cardToJson,
+  cardUpdates,
+  invalid,
+  positiveInteger,
+  stringField,
+  stripUndefined,
+} from './json.js';
+import type { JsonObject } from './json.js';
+import { filterCards, parseQuery } from './query.js';
+import { isValidPriority, KanmdError, PRIORITIES } from './types.js';
+import type { MutationOptions } from './types.js';
+import { watchBoardChanges } from './watch.js';
+
+/**
+ * A Model Context Protocol server over stdio: newline-delimited JSON-RPC 2.0.
+ * Only the parts of the protocol kanmd needs are implemented: tools,
+ * resources and resource subscriptions.
+ */
+
+/** Newest first; a client asking for an older one gets it, anything else the newest */
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export const BOARD_URI = 'kanmd://board';
+const CARD_URI_PREFIX = 'kanmd://cards/';
+
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method?: string;
+  params?: JsonObject;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+// JSON-RPC error numbers for the codes this module throws
+const RPC_ERRORS: Record<string, number> = {
+  PARSE_ERROR: -32700,
+  INVALID_RPC_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  RESOURCE_NOT_FOUND: -32002,
+};
+
+export function rpcErrorCode(code: string): number {
+  return RPC_ERRORS[code] ?? -32603;
+}
+
+interface Tool {
+  name: string;
+  description: string;
+  inputSchema: JsonObject;
+  run(args: JsonObject): Promise<unknown>;
+}
+
+const cardId = { type: 'string', description: 'Card ID, e.g. "fix-login"' };
+const ifRevision = {
+  type: 'string',
+  description: 'Only apply the change if the card is still at this revision',
+};
+const checklistIndex = { type: 'integer', minimum: 1, description: '1-based item number' };
+
+function schema(properties: JsonObject, required: string[] = []): JsonObject {
+  return { type: 'object', properties, required, additionalProperties: false };
+}
+
+function mutationOptions(args: JsonObject): MutationOptions {
+  return { ifRevision: stringField(args, 'ifRevision') };
+}
+
+async function cardResult(id: string): Promise<unknown> {
+  return cardToJson(await getCard(id));
+}
+
+// Each tool goes through the same files.ts function as the matching CLI
+// command, so workflow rules, WIP limits and the activity log all apply
+const TOOLS: Tool[] = [
+  {
+    name: 'list_board',
+    description:
+      'Show the board: its columns and the cards in each, in priority order. Pass a query such as "label:auth priority:high -label:wip" to show only matching cards.',
+    inputSchema: schema({
+      query: { type: 'string', description: 'Filter, in the same syntax as `kanmd ls`' },
+    }),
+    run: async (args) => {
+      const board = await loadBoard();
+      const query = stringField(args, 'query');
+      return boardToJson(board, query ? filterCards(board.cards, parseQuery(query)) : board.cards);
+    },
+  },
+  {
+    name: 'get_card',
+    description: 'Get a card with its description, checklist, links and current revision.',
+    inputSchema: schema({ id: cardId }, ['id']),
+    run: async (args) => {
+      const card = await getCard(stringField(args, 'id', true));
+      return cardDetailToJson(await loadBoard(), card);
+    },
+  },
+  {
+    name: 'add_card',
+    description: 'Create a card in a column. Returns the new card, including its ID.',
+    inputSchema: schema(
+      {
+        column: { type: 'string' },
+        title: { type: 'string' },
+        priority: { type: 'string', enum: [...PRIORITIES] },
+        force: { type: 'boolean', description: "Skip the column's WIP limit" },
+      },
+      ['column', 'title']
+    ),
+    run: async (args) => {
+      const priority = stringField(args, 'priority') ?? 'medium';
+      if (!isValidPriority(priority)) {
+        throw invalid(`Invalid priority "${priority}". Must be: high, medium, or low`);
+      }
+      const card = await addCard(
+        stringField(args, 'column', true),
+        stringField(args, 'title', true),
+        priority,
+        { force: args.force === true }
+      );
+      return cardToJson(card);
+    },
+  },
+  {
+    name: 'move_card',
+    description: 'Move a card to another column.',
+    inputSchema: schema(
+      {
+        id: cardId,
+        column: { type: 'string' },
+        force: { type: 'boolean', description: "Skip the target column's WIP limit" },
+        ifRevision,
+      },
+      ['id', 'column']
+    ),
+    run: async (args) => {
+      const id = stringField(args, 'id', true);
+      await moveCard(id, stringField(args, 'column', true), {
+        ...mutationOptions(args),
+        force: args.force === true,
+      });
+      return cardResult(id);
+    },
+  },
+  {
+    name: 'edit_card',
+    description: "Change a card's title, description, labels, due date or priority.",
+    inputSchema: schema(
+      {
+        id: cardId,
+        title: { type: 'string' },
+        description: { type: 'string' },
+        labels: { type: 'array', items: { type: 'string' }, description: 'Replaces all labels' },
+        due: {
+          type: ['string', 'null'],
+          description: 'YYYY-MM-DD, today, +3d or +2w; null clears it',
+        },
+        priority: { type: 'string', enum: [...PRIORITIES] },
+        ifRevision,
+      },
+      ['id']
+    ),
+    run: async (args) => {
+      const id = stringField(args, 'id', true);
+      // cardUpdates only picks out the editable fields
+      await editCard(id, cardUpdates(args), mutationOptions(args));
+      return cardResult(id);
+    },
+  },
+  {
+    name: 'rank_card',
+    description: 'Set the position of a card within its priority group in its column.',
+    inputSchema: schema({ id: cardId, position: { type: 'integer', minimum: 1 }, ifRevision }, [
+      'id',
+      'position',
+    ]),
+    run: async (args) => {
+      const id = stringField(args, 'id', true);
+      await rankCard(id, positiveInteger(args.position, 'position'), mutationOptions(args));
+      return cardResult(id);
+    },
+  },
+  {
+    name: 'checklist_add',
+    description: "Add an item to the end of a card's checklist.",
+    inputSchema: schema({ id: cardId, text: { type: 'string' }, ifRevision }, ['id', 'text']),
+    run: async (args) =>
+      cardToJson(
+        await checklistAdd(
+          stringField(args, 'id', true),
+          stringField(args, 'text', true),
+          mutationOptions(args)
+        )
+      ),
+  },
+  {
+    name: 'checklist_toggle',
+    description: 'Check or uncheck a checklist item.',
+    inputSchema: schema({ id: cardId, index: checklistIndex, ifRevision }, ['id', 'index']),
+    run: async (args) =>
+      cardToJson(
+        await checklistToggle(
+          stringField(args, 'id', true),
+          positiveInteger(args.index, 'index'),
+          mutationOptions(args)
+        )
+      ),
+  },
+  {
+    name: 'checklist_remove',
+    description: 'Remove a checklist item.',
+    inputSchema: schema({ id: cardId, index: checklistIndex, ifRevision }, ['id', 'index']),
+    run: async (args) =>
+      cardToJson(
+        await checklistRemove(
+          stringField(args, 'id', true),
+          positiveInteger(args.index, 'index'),
+          mutationOptions(args)
+        )
+      ),
+  },
+];
+
+/**
+ * Runs a tool. Failures are results with isError set, as the protocol asks,
+ * so the agent sees kanmd's error code and can decide what to do.
+ */
+async function callTool(params: JsonObject): Promise<JsonObject> {
+  const name = params.name;
+  const tool = TOOLS.find((t) => t.name === name);
+  if (!tool) {
+    throw new KanmdError(`Unknown tool: ${String(name)}`, 'INVALID_PARAMS');
+  }
+  const args = params.arguments ?? {};
+  if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+    throw new KanmdError('Tool arguments must be an object', 'INVALID_PARAMS');
+  }
+
+  try {
+    const result = (await tool.run(args as JsonObject)) as JsonObject;
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result) }],
+      structuredContent: result,
+    };
+  } catch (err) {
+    const code = err instanceof KanmdError ? err.code : 'ERROR';
+    const details = err instanceof KanmdError ? err.details : undefined;
+    const error = stripUndefined({ error: (err as Error).message, code, details });
+    return { content: [{ type: 'text', text: JSON.stringify(error) }], isError: true };
+  }
+}
+
+async function listResources(): Promise<JsonObject> {
+  const board = await loadBoard();
+  return {
+    resources: [
+      {
+        uri: BOARD_URI,
+        name: 'board',
+        title: 'Board',
+        description: 'All columns and cards',
+        mimeType: 'application/json',
+      },
+      ...board.cards.map((card) => ({
+        uri: CARD_URI_PREFIX + encodeURIComponent(card.id),
+        name: card.id,
+        title: card.title,
+        mimeType: 'application/json',
+      })),
+    ],
+  };
+}
+
+async function readResource(uri: string): Promise<JsonObject> {
+  let data: unknown;
+  if (uri === BOARD_URI) {
+    data = boardToJson(await loadBoard());
+  } else if (uri.startsWith(CARD_URI_PREFIX)) {
+    const id = decodeURIComponent(uri.slice(CARD_URI_PREFIX.length));
+    const board = await loadBoard();
+    const card = board.cards.find((c) => c.id === id);
+    if (!card) {
+      throw new KanmdError(`Card "${id}" not found`, 'RESOURCE_NOT_FOUND', { uri });
+    }
+    data = cardDetailToJson(board, card);
+  } else {
+    throw new KanmdError(`Unknown resource: ${uri}`, 'RESOURCE_NOT_FOUND', { uri });
+  }
+  return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(data) }] };
+}
+
+function uriParam(params: JsonObject): string {
+  if (typeof params.uri !== 'string') {
+    throw new KanmdError('"uri" must be a string', 'INVALID_PARAMS');
+  }
+  return params.uri;
+}
+
+export interface McpSession {
+  /** Handles one incoming message and returns the response, if it needs one */
+  handle(message: unknown): Promise<JsonRpcMessage | undefined>;
+  close(): void;
+}
+
+/**
+ * The protocol state for one client. `notify` sends server-initiated
+ * notifications, used for subscribed resources that change.
+ */
+export async function createMcpSession(
+  version: string,
+  notify: (message: JsonRpcMessage) => void
+): Promise<McpSession> {
+  const subscriptions = new Set<string>();
+
+  const stopWatching = await watchBoardChanges(getKanbanDir(), (events) => {
+    const changed = new Set([BOARD_URI]);
+    for (const event of events) {
+      if (event.type === 'board_updated') continue;
+      changed.add(CARD_URI_PREFIX + encodeURIComponent(event.card));
+    }
+    for (const uri of changed) {
+      if (subscriptions.has(uri)) {
+        notify({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri } });
+      }
+    }
+    if (events.some((e) => e.type === 'card_added' || e.type === 'card_deleted')) {
+      notify({ jsonrpc: '2.0', method: 'notifications/resources/list_changed' });
+    }
+  });
+
+  const dispatch = async (method: string, params: JsonObject): Promise<unknown> => {
+    switch (method) {
+      case 'initialize': {
+        const requested = params.protocolVersion;
+        return {
+          protocolVersion: MCP_PROTOCOL_VERSIONS.includes(requested as string)
+            ? requested
+            : MCP_PROTOCOL_VERSIONS[0],
+          capabilities: {
+            tools: { listChanged: false },
+            resources: { subscribe: true, listChanged: true },
+          },
+          serverInfo: { name: 'kanmd', version },
+        };
+      }
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return {
+          tools: TOOLS.map(({ name, description, inputSchema }) => ({
+            name,
+            description,
+            inputSchema,
+          })),
+        };
+      case 'tools/call':
+        return callTool(params);
+      case 'resources/list':
+        return listResources();
+      case 'resources/templates/list':
+        return {
+          resourceTemplates: [
+            {
+              uriTemplate: `${CARD_URI_PREFIX}{id}`,
+              name: 'card',
+              title: 'Card',
+              mimeType: 'application/json',
+            },
+          ],
+        };
+      case 'resources/read':
+        return readResource(uriParam(params));
+      case 'resources/subscribe':
+        subscriptions.add(uriParam(params));
+        return {};
+      case 'resources/unsubscribe':
+        subscriptions.delete(uriParam(params));
+        return {};
+      default:
+        throw new KanmdError(`Method not found: ${method}`, 'METHOD_NOT_FOUND');
+    }
+  };
+
+  return {
+    handle: async (message) => {
+      const request = message as JsonRpcMessage;
+      if (typeof request !== 'object' || request === null || typeof request.method !== 'string') {
+        // Responses to requests we never send, or garbage
+        if (request && typeof request === 'object' && request.id !== undefined) {
+          return {
+            jsonrpc: '2.0',
+            id: request.id,
+            error: { code: rpcErrorCode('INVALID_RPC_REQUEST'), message: 'Invalid request' },
+          };
+        }
+        return undefined;
+      }
+
+      const isNotification = request.id === undefined;
+      try {
+        const result = await dispatch(request.method, request.params ?? {});
+        return isNotification ? undefined : { jsonrpc: '2.0', id: request.id, result };
+      } catch (err) {
+        if (isNotification) return undefined;
+        const code = err instanceof KanmdError ? err.code : 'ERROR';
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: stripUndefined({
+            code: rpcErrorCode(code),
+            message: (err as Error).message,
+            data: err instanceof KanmdError ? err.details : undefined,
+          }) as JsonRpcMessage['error'],
+        };
+      }
+    },
+    close: stopWatching,
+  };
+}
+
+/**
+ * Serves MCP on stdin/stdout until stdin closes. Nothing else may be written
+ * to stdout, since the client reads every line as a message.
+ */
+export async function runMcpServer(version: string): Promise<void> {
+  const write = (message: JsonRpcMessage) => process.stdout.write(JSON.stringify(message) + '\n');
+  const session = await createMcpSession(version, write);
+  const lines = readline.createInterface({ input: process.stdin, crlfDelay: Infinity });
+  const pending = new Set<Promise<void>>();
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      write({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: rpcErrorCode('PARSE_ERROR'), message: 'Parse error' },
+      });
+      continue;
+    }
+    // Requests run concurrently; each response carries its request's id
+    const task = session.handle(message).then((response) => {
+      if (response) write(response);
+    });
+    pending.add(task);
+    void task.finally(() => pending.delete(task));
+  }
+
+  await Promise.all(pending);
+  session.close();
+}
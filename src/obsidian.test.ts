@@ -0,0 +1,207 @@
+import { describe, test, expect } from 'bun:test';
+import { addCard, loadBoard, undo, withBoardContext } from './files.js';
+import {
+  exportObsidianBoard,
+  formatObsidianBoard,
+  importObsidianBoard,
+  parseObsidianBoard,
+} from './obsidian.js';
+import { doneColumn } from './relations.js';
+import { createMemoryStore } from './store.js';
+import type { Board, Card } from './types.js';
+
+const OBSIDIAN_BOARD = `---
+
+kanban-plugin: basic
+
+---
+
+## To Do
+
+- [ ] Research caching #perf #spike
+- [ ] Fix login #auth
+	Only on Safari<br>See the ticket
+
+## Doing
+
+- [x] Write docs
+
+## Done
+
+**Complete**
+- [x] Ship v1 #release
+
+***
+
+## Archive
+
+- [x] Old thing
+
+%% kanban:settings
+\`\`\`
+{"kanban-plugin":"basic","lane-width":272}
+\`\`\`
+%%
+`;
+
+function makeCard(overrides: Partial<Card> = {}): Card {
+  return {
+    id: 'fix-login',
+    title: 'Fix login',
+    priority: 'medium',
+    labels: [],
+    created: '2026-10-01T10:00:00.000Z',
+    description: '',
+    checklist: [],
+    column: 'todo',
+    ...overrides,
+  };
+}
+
+describe('parseObsidianBoard', () => {
+  test('reads lanes, cards, tags and checked state', () => {
+    expect(parseObsidianBoard(OBSIDIAN_BOARD)).toEqual([
+      {
+        title: 'To Do',
+        cards: [
+          {
+            title: 'Research caching',
+            checked: false,
+            tags: ['perf', 'spike'],
+            description: '',
+          },
+          {
+            title: 'Fix login',
+            checked: false,
+            tags: ['auth'],
+            description: 'Only on Safari\nSee the ticket',
+          },
+        ],
+      },
+      {
+        title: 'Doing',
+        cards: [{ title: 'Write docs', checked: true, tags: [], description: '' }],
+      },
+      {
+        title: 'Done',
+        cards: [{ title: 'Ship v1', checked: true, tags: ['release'], description: '' }],
+      },
+    ]);
+  });
+
+  test('keeps "#" inside words and numbers in the title', () => {
+    const [lane] = parseObsidianBoard('## Todo\n\n- [ ] Port to C# for issue #42 #lang\n');
+    expect(lane.cards[0]).toMatchObject({ title: 'Port to C# for issue #42', tags: ['lang'] });
+  });
+
+  test('rejects files without lanes', () => {
+    expect(() => parseObsidianBoard('Just some notes\n')).toThrow(
+      expect.objectContaining({ code: 'INVALID_BOARD_FILE' })
+    );
+  });
+});
+
+describe('formatObsidianBoard', () => {
+  test('writes lanes in column order with the settings block', () => {
+    const board: Board = {
+      columns: ['todo', 'in-progress', 'done'],
+      columnSettings: {},
+      transitions: undefined,
+      cards: [
+        makeCard({ labels: ['auth', 'needs review'], description: 'Only on Safari\n\nSee ticket' }),
+        makeCard({ id: 'ship', title: 'Ship', column: 'done' }),
+        makeCard({ id: 'docs', title: 'Docs', extraFrontmatter: { checked: true } }),
+      ],
+      orphanedColumns: [],
+      invalidCards: [],
+    };
+    const text = formatObsidianBoard(board);
+
+    expect(text).toStartWith('---\n\nkanban-plugin: basic\n\n---\n');
+    expect(text).toContain(
+      '## Todo\n\n- [x] Docs\n- [ ] Fix login #auth #needs-review\n    Only on Safari\n    See ticket\n'
+    );
+    expect(text).toContain('## Done\n\n**Complete**\n- [x] Ship\n');
+    expect(text).toEndWith('%% kanban:settings\n```\n{"kanban-plugin":"basic"}\n```\n%%\n');
+
+    const lanes = parseObsidianBoard(text);
+    expect(lanes.map((l) => l.title)).toEqual(['Todo', 'In Progress', 'Done']);
+    expect(lanes[0].cards[1]).toEqual({
+      title: 'Fix login',
+      checked: false,
+      tags: ['auth', 'needs-review'],
+      description: 'Only on Safari\nSee ticket',
+    });
+  });
+});
+
+describe('importObsidianBoard', () => {
+  test('adds lanes as columns in order and cards with their tags', async () => {
+    const store = createMemoryStore({ 'board.yaml': 'columns:\n  - todo\n  - review\n  - done\n' });
+
+    await withBoardContext({ store }, async () => {
+      await addCard('done', 'Ship v1');
+      const result = await importObsidianBoard(OBSIDIAN_BOARD, 'notes/Project.md');
+
+      expect(result.columns).toEqual(['to-do', 'doing']);
+      expect(result.skipped).toEqual(['Ship v1']);
+
+      const board = await loadBoard();
+      expect(board.columns).toEqual(['to-do', 'doing', 'todo', 'review', 'done']);
+      expect(board.cards.map((c) => [c.id, c.column, c.labels]).sort()).toEqual([
+        ['fix-login', 'to-do', ['auth']],
+        ['research-caching', 'to-do', ['perf', 'spike']],
+        ['ship-v1', 'done', []],
+        ['write-docs', 'doing', []],
+      ]);
+      // Checked outside the done column, so the card remembers it
+      expect(board.cards.find((c) => c.id === 'write-docs')?.extraFrontmatter).toEqual({
+        checked: true,
+      });
+
+      const exported = parseObsidianBoard(await exportObsidianBoard());
+      expect(exported.map((l) => l.title)).toEqual(['To Do', 'Doing', 'Todo', 'Review', 'Done']);
+      expect(exported[1].cards[0]).toMatchObject({ title: 'Write docs', checked: true });
+
+      // One undo removes the imported cards; the added columns stay
+      await undo();
+      const undone = await loadBoard();
+      expect(undone.cards.map((c) => c.id)).toEqual(['ship-v1']);
+      expect(undone.columns).toEqual(['to-do', 'doing', 'todo', 'review', 'done']);
+    });
+  });
+
+  test('adds lanes after the done lane before the done column', async () => {
+    const store = createMemoryStore({ 'board.yaml': 'columns:\n  - todo\n  - done\n' });
+
+    await withBoardContext({ store }, async () => {
+      const result = await importObsidianBoard(
+        '## Done\n\n- [x] Ship v1\n\n## Later\n\n- [x] Polish\n\n## Someday\n\n- [ ] Rewrite\n',
+        'Board.md'
+      );
+
+      expect(result.columns).toEqual(['later', 'someday']);
+      const board = await loadBoard();
+      expect(board.columns).toEqual(['todo', 'later', 'someday', 'done']);
+      expect(doneColumn(board)).toBe('done');
+      // Checked outside the done column, so the card remembers it
+      expect(board.cards.find((c) => c.id === 'polish')?.extraFrontmatter).toEqual({
+        checked: true,
+      });
+    });
+  });
+
+  test('rejects lanes without a usable column name before changing anything', async () => {
+    const store = createMemoryStore({ 'board.yaml': 'columns:\n  - todo\n  - done\n' });
+
+    await withBoardContext({ store }, async () => {
+      await expect(
+        importObsidianBoard('## Later\n\n- [ ] Task\n\n## 🚀\n\n- [ ] Launch\n', 'Board.md')
+      ).rejects.toMatchObject({ code: 'INVALID_BOARD_FILE', details: { lane: '🚀' } });
+
+      const board = await loadBoard();
+      expect(board.columns).toEqual(['todo', 'done']);
+      expect(board.cards).toEqual([]);
+    });
+  });
+});
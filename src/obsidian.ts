@@ -0,0 +1,215 @@
+import path from 'path';
+import { cardIdFromTitle } from './card.js';
+import { addColumn, importCards, loadBoard } from './files.js';
+import { doneColumn } from './relations.js';
+import { formatColumnName, sortCards } from './render.js';
+import { KanmdError } from './types.js';
+import type { Board, Card } from './types.js';
+
+export interface ObsidianCard {
+  title: string;
+  checked: boolean;
+  /** Tags without the "#" */
+  tags: string[];
+  /** Lines after the first, for multi-line cards */
+  description: string;
+}
+
+export interface ObsidianLane {
+  title: string;
+  cards: ObsidianCard[];
+}
+
+export interface ObsidianImport {
+  /** Columns added to board.yaml for lanes the board didn't have */
+  columns: string[];
+  cards: Card[];
+  /** Titles of cards whose ID is already on the board, or that have no usable ID */
+  skipped: string[];
+}
+
+const LANE = /^##\s+(.+?)\s*$/;
+const ITEM = /^[-*]\s+\[([ xX])\]\s?(.*)$/;
+const TAG = /(^|\s)#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu;
+const SETTINGS_START = '%% kanban:settings';
+// Lines after "***" are the plugin's archive, not a lane
+const ARCHIVE_MARK = '***';
+const COMPLETE_MARK = '**Complete**';
+
+const SETTINGS = `${SETTINGS_START}
+\`\`\`
+{"kanban-plugin":"basic"}
+\`\`\`
+%%`;
+
+function parseItem(checked: string, text: string, continuation: string[]): ObsidianCard {
+  // Cards the plugin saved from its editor keep line breaks as <br>
+  const [first, ...rest] = [text, ...continuation.map((l) => l.trim())]
+    .join('\n')
+    .split(/<br\s*\/?>|\n/i);
+  const tags: string[] = [];
+  const title = first
+    .replace(TAG, (_match, space: string, tag: string) => {
+      if (!tags.includes(tag)) tags.push(tag);
+      return space;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const description = rest.join('\n').trim();
+  return { title, checked: checked !== ' ', tags, description };
+}
+
+/**
+ * Reads a board in the format of Obsidian's Kanban plugin: a "## " heading per
+ * lane and a "- [ ]" item per card with its tags inline. The frontmatter, the
+ * settings block at the end and archived cards are ignored.
+ */
+export function parseObsidianBoard(text: string): ObsidianLane[] {
+  const lines = text.split(/\r?\n/);
+  let i = 0;
+
+  // Skip the frontmatter ("kanban-plugin: basic")
+  if (lines[0]?.trim() === '---') {
+    const end = lines.indexOf('---', 1);
+    i = end === -1 ? lines.length : end + 1;
+  }
+
+  const lanes: ObsidianLane[] = [];
+  while (i < lines.length) {
+    const line = lines[i++];
+    const trimmed = line.trim();
+    if (trimmed === ARCHIVE_MARK || trimmed === SETTINGS_START) break;
+
+    const lane = line.match(LANE);
+    if (lane) {
+      lanes.push({ title: lane[1], cards: [] });
+      continue;
+    }
+
+    const item = line.match(ITEM);
+    const current = lanes[lanes.length - 1];
+    if (!item || !current) continue;
+
+    const continuation: string[] = [];
+    while (i < lines.length && /^\s+\S/.test(lines[i])) {
+      continuation.push(lines[i++]);
+    }
+    current.cards.push(parseItem(item[1], item[2], continuation));
+  }
+
+  if (lanes.length === 0) {
+    throw new KanmdError(
+      'No "## " lanes found. Is this an Obsidian Kanban board?',
+      'INVALID_BOARD_FILE'
+    );
+  }
+  return lanes;
+}
+
+/**
+ * Cards in the board's done column are checked, as are any imported as
+ * checked into another column (kept in the card's `checked` frontmatter).
+ */
+function isChecked(card: Card, board: Board): boolean {
+  return card.column === doneColumn(board) || card.extraFrontmatter?.checked === true;
+}
+
+function formatItem(card: Card, board: Board): string[] {
+  const tags = card.labels.map((label) => ` #${label.replace(/\s+/g, '-')}`).join('');
+  // A blank line would end the item, so paragraphs in the description are joined
+  const description = card.description
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => `    ${line}`);
+  return [`- [${isChecked(card, board) ? 'x' : ' '}] ${card.title}${tags}`, ...description];
+}
+
+/**
+ * The board as an Obsidian Kanban file, with lanes in board.yaml's column
+ * order and the settings block the plugin needs to open it as a board.
+ */
+export function formatObsidianBoard(board: Board): string {
+  const lines = ['---', '', 'kanban-plugin: basic', '', '---', ''];
+
+  for (const column of board.columns) {
+    lines.push(`## ${formatColumnName(column)}`, '');
+    if (column === doneColumn(board)) lines.push(COMPLETE_MARK);
+    const cards = sortCards(board.cards.filter((c) => c.column === column));
+    for (const card of cards) {
+      lines.push(...formatItem(card, board));
+    }
+    lines.push('', '');
+  }
+
+  lines.push(SETTINGS);
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Adds the lanes and cards of an Obsidian Kanban file to the board. Lanes
+ * become columns by name ("To Do" is "to-do"); missing ones are added after
+ * the column of the lane before them, so board.yaml's order is kept, but
+ * before the done column, so it stays the done column. Tags
+ * become labels. All cards are added as one operation that `kanmd undo`
+ * removes; the columns stay, as column changes aren't journaled.
+ */
+export async function importObsidianBoard(text: string, file: string): Promise<ObsidianImport> {
+  const lanes = parseObsidianBoard(text);
+  // Check every lane before adding any columns, so a bad one changes nothing
+  for (const lane of lanes) {
+    if (!cardIdFromTitle(lane.title)) {
+      throw new KanmdError(
+        `Lane "${lane.title}" has no letters or digits to name a column after. Rename it and import again.`,
+        'INVALID_BOARD_FILE',
+        { lane: lane.title }
+      );
+    }
+  }
+
+  let columns = (await loadBoard()).columns;
+  const added: string[] = [];
+  let previous = -1;
+  for (const lane of lanes) {
+    const name = cardIdFromTitle(lane.title);
+    const index = columns.indexOf(name);
+    if (index !== -1) {
+      previous = index;
+      continue;
+    }
+    // Never after the done column: the last column is the done one
+    const position = columns.length > 0 ? Math.min(previous + 2, columns.length) : 1;
+    columns = await addColumn(name, position);
+    previous = columns.indexOf(name);
+    added.push(name);
+  }
+
+  const board = await loadBoard();
+  const created = new Date().toISOString();
+  const cards = lanes.flatMap((lane) => {
+    const column = cardIdFromTitle(lane.title);
+    return lane.cards.map(
+      (item): Card => ({
+        id: cardIdFromTitle(item.title),
+        title: item.title,
+        priority: 'medium',
+        labels: item.tags,
+        created,
+        description: item.description,
+        checklist: [],
+        column,
+        entered: { [column]: created },
+        ...(item.checked && column !== doneColumn(board)
+          ? { extraFrontmatter: { checked: true } }
+          : {}),
+      })
+    );
+  });
+
+  const { imported, skipped } = await importCards(cards, path.basename(file));
+  return { columns: added, cards: imported, skipped: skipped.map((c) => c.title) };
+}
+
+export async function exportObsidianBoard(): Promise<string> {
+  return formatObsidianBoard(await loadBoard());
+}
@@ -0,0 +1,105 @@
+import { describe, test, expect } from 'bun:test';
+import { createClause, filterCards, parseQuery } from './query.js';
+import type { Card } from './types.js';
+import { KanmdError } from './types.js';
+
+function makeCard(overrides: Partial<Card>): Card {
+  return {
+    id: 'card',
+    title: 'Card',
+    priority: 'medium',
+    labels: [],
+    created: '2026-09-01T10:00:00.000Z',
+    description: '',
+    checklist: [],
+    column: 'todo',
+    ...overrides,
+  };
+}
+
+const cards: Card[] = [
+  makeCard({ id: 'login', title: 'Build login page', labels: ['auth', 'ui'], priority: 'high' }),
+  makeCard({
+    id: 'tokens',
+    title: 'Rotate tokens',
+    labels: ['auth', 'wip'],
+    column: 'in-progress',
+    assignees: ['alice', 'agent-1'],
+    checklist: [{ text: 'Step', checked: false }],
+    updated: '2026-10-05T09:00:00.000Z',
+  }),
+  makeCard({ id: 'docs', title: 'Write docs', priority: 'low', column: 'done' }),
+];
+
+function ids(result: Card[]): string[] {
+  return result.map((c) => c.id);
+}
+
+describe('parseQuery', () => {
+  test('parses terms, negation and alternatives', () => {
+    expect(parseQuery('label:auth -label:wip priority:high,medium')).toEqual([
+      { field: 'label', values: ['auth'], negate: false },
+      { field: 'label', values: ['wip'], negate: true },
+      { field: 'priority', values: ['high', 'medium'], negate: false },
+    ]);
+  });
+
+  test('treats bare words as title matches and honours quotes', () => {
+    expect(parseQuery('login "label:needs triage"')).toEqual([
+      { field: 'title', values: ['login'], negate: false },
+      { field: 'label', values: ['needs triage'], negate: false },
+    ]);
+  });
+
+  test('returns no clauses for an empty query', () => {
+    expect(parseQuery('  ')).toEqual([]);
+  });
+
+  test('rejects unknown fields and bad values', () => {
+    expect(() => parseQuery('owner:sam')).toThrow('Unknown filter "owner"');
+    expect(() => parseQuery('priority:urgent')).toThrow(KanmdError);
+    expect(() => parseQuery('has:everything')).toThrow('Unknown "has" value');
+    expect(() => parseQuery('updated-since:yesterday')).toThrow('Invalid date');
+    expect(() => parseQuery('label:')).toThrow('Missing value');
+    expect(() => parseQuery('"unterminated')).toThrow('Unterminated quote');
+  });
+});
+
+describe('filterCards', () => {
+  test('matches labels case-insensitively', () => {
+    expect(ids(filterCards(cards, parseQuery('label:AUTH')))).toEqual(['login', 'tokens']);
+  });
+
+  test('ANDs clauses and applies negation', () => {
+    expect(ids(filterCards(cards, parseQuery('label:auth -label:wip')))).toEqual(['login']);
+  });
+
+  test('filters by priority and column', () => {
+    expect(ids(filterCards(cards, parseQuery('priority:high,low')))).toEqual(['login', 'docs']);
+    expect(ids(filterCards(cards, [createClause('column', 'done')]))).toEqual(['docs']);
+  });
+
+  test('filters by unchecked checklist items', () => {
+    expect(ids(filterCards(cards, [createClause('has', 'unchecked')]))).toEqual(['tokens']);
+  });
+
+  test('filters by updated date, falling back to created', () => {
+    expect(ids(filterCards(cards, [createClause('updated-since', '2026-10-01')]))).toEqual([
+      'tokens',
+    ]);
+    expect(ids(filterCards(cards, [createClause('updated-since', '2026-08-01')]))).toHaveLength(3);
+  });
+
+  test('filters by assignee', () => {
+    expect(ids(filterCards(cards, parseQuery('assignee:Alice')))).toEqual(['tokens']);
+    expect(ids(filterCards(cards, parseQuery('-has:assignee')))).toEqual(['login', 'docs']);
+  });
+
+  test('matches title substrings', () => {
+    expect(ids(filterCards(cards, parseQuery('LOGIN')))).toEqual(['login']);
+  });
+
+  test('returns everything without clauses', () => {
+    expect(filterCards(cards, [])).toHaveLength(3);
+  });
+});
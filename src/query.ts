@@ -0,0 +1,162 @@
+import type { Card } from './types.js';
+import { isValidPriority, KanmdError } from './types.js';
+
+/**
+ * A single filter condition. `values` are OR'ed; clauses in a query are AND'ed.
+ */
+export interface FilterClause {
+  field: FilterField;
+  values: string[];
+  negate: boolean;
+}
+
+export const FILTER_FIELDS = [
+  'label',
+  'priority',
+  'column',
+  'assignee',
+  'has',
+  'updated-since',
+  'created-since',
+  'title',
+] as const;
+export type FilterField = (typeof FILTER_FIELDS)[number];
+
+const HAS_VALUES = ['unchecked', 'checklist', 'description', 'labels', 'assignee'];
+
+function isFilterField(value: string): value is FilterField {
+  return FILTER_FIELDS.includes(value as FilterField);
+}
+
+function parseDate(value: string): number {
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new KanmdError(
+      `Invalid date "${value}". Use YYYY-MM-DD or an ISO timestamp.`,
+      'INVALID_QUERY'
+    );
+  }
+  return time;
+}
+
+/**
+ * Builds a clause, validating the field and values up front so a typo fails
+ * loudly instead of silently matching nothing.
+ */
+export function createClause(field: string, rawValue: string, negate = false): FilterClause {
+  if (!isFilterField(field)) {
+    throw new KanmdError(
+      `Unknown filter "${field}". Available: ${FILTER_FIELDS.join(', ')}`,
+      'INVALID_QUERY'
+    );
+  }
+
+  const values = rawValue
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+  if (values.length === 0) {
+    throw new KanmdError(`Missing value for filter "${field}"`, 'INVALID_QUERY');
+  }
+
+  for (const value of values) {
+    if (field === 'priority' && !isValidPriority(value)) {
+      throw new KanmdError(
+        `Invalid priority "${value}". Must be: high, medium, or low`,
+        'INVALID_QUERY'
+      );
+    }
+    if (field === 'has' && !HAS_VALUES.includes(value)) {
+      throw new KanmdError(
+        `Unknown "has" value "${value}". Available: ${HAS_VALUES.join(', ')}`,
+        'INVALID_QUERY'
+      );
+    }
+    if (field === 'updated-since' || field === 'created-since') {
+      parseDate(value);
+    }
+  }
+
+  return { field, values, negate };
+}
+
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let started = false;
+
+  for (const ch of text) {
+    if (ch === '"') {
+      inQuotes = !inQuotes;
+      started = true;
+    } else if (/\s/.test(ch) && !inQuotes) {
+      if (started) tokens.push(current);
+      current = '';
+      started = false;
+    } else {
+      current += ch;
+      started = true;
+    }
+  }
+
+  if (inQuotes) {
+    throw new KanmdError('Unterminated quote in query', 'INVALID_QUERY');
+  }
+  if (started) tokens.push(current);
+  return tokens;
+}
+
+/**
+ * Parses a compact query such as `label:auth priority:high -label:wip`.
+ * A leading "-" negates a term; commas give alternatives (`priority:high,medium`);
+ * bare words match the title.
+ */
+export function parseQuery(text: string): FilterClause[] {
+  return tokenize(text).map((token) => {
+    const negate = token.startsWith('-') && token.length > 1;
+    const term = negate ? token.slice(1) : token;
+    const colonIndex = term.indexOf(':');
+
+    if (colonIndex === -1) {
+      return createClause('title', term, negate);
+    }
+    return createClause(term.slice(0, colonIndex), term.slice(colonIndex + 1), negate);
+  });
+}
+
+function matchesValue(card: Card, field: FilterField, value: string): boolean {
+  switch (field) {
+    case 'label':
+      return card.labels.some((l) => l.toLowerCase() === value.toLowerCase());
+    case 'priority':
+      return card.priority === value;
+    case 'column':
+      return card.column === value;
+    case 'assignee':
+      return (card.assignees || []).some((a) => a.toLowerCase() === value.toLowerCase());
+    case 'has':
+      if (value === 'unchecked') return card.checklist.some((item) => !item.checked);
+      if (value === 'checklist') return card.checklist.length > 0;
+      if (value === 'description') return card.description.trim() !== '';
+      if (value === 'assignee') return (card.assignees || []).length > 0;
+      return card.labels.length > 0;
+    case 'updated-since': {
+      const timestamp = card.updated || card.created;
+      return timestamp !== '' && Date.parse(timestamp) >= parseDate(value);
+    }
+    case 'created-since':
+      return card.created !== '' && Date.parse(card.created) >= parseDate(value);
+    case 'title':
+      return card.title.toLowerCase().includes(value.toLowerCase());
+  }
+}
+
+export function matchesClause(card: Card, clause: FilterClause): boolean {
+  const matched = clause.values.some((value) => matchesValue(card, clause.field, value));
+  return clause.negate ? !matched : matched;
+}
+
+export function filterCards(cards: Card[], clauses: FilterClause[]): Card[] {
+  return cards.filter((card) => clauses.every((clause) => matchesClause(card, clause)));
+}
@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'bun:test';
+import { dependsOn, getRelations, isAncestor, openBlockers } from './relations.js';
+import type { Board, Card } from './types.js';
+
+function card(id: string, column: string, extra: Partial<Card> = {}): Card {
+  return {
+    id,
+    title: id,
+    column,
+    priority: 'medium',
+    labels: [],
+    created: '',
+    updated: '',
+    description: '',
+    checklist: [],
+    ...extra,
+  };
+}
+
+function board(cards: Card[]): Board {
+  return {
+    columns: ['todo', 'in-progress', 'done'],
+    columnSettings: {},
+    cards,
+    orphanedColumns: [],
+    invalidCards: [],
+  };
+}
+
+describe('openBlockers', () => {
+  test('ignores blockers that are done or missing', () => {
+    const b = board([
+      card('a', 'todo'),
+      card('b', 'done'),
+      card('c', 'todo', { blockedBy: ['a', 'b', 'gone'] }),
+    ]);
+    expect(openBlockers(b, b.cards[2]).map((c) => c.id)).toEqual(['a']);
+  });
+});
+
+describe('getRelations', () => {
+  test('resolves both directions', () => {
+    const b = board([
+      card('epic', 'todo'),
+      card('a', 'todo'),
+      card('b', 'todo', { blockedBy: ['a'], parent: 'epic' }),
+    ]);
+
+    const relations = getRelations(b, b.cards[1]);
+    expect(relations.blocks.map((c) => c.id)).toEqual(['b']);
+    expect(relations.blockedBy).toEqual([]);
+
+    expect(getRelations(b, b.cards[2]).parent?.id).toBe('epic');
+    expect(getRelations(b, b.cards[0]).children.map((c) => c.id)).toEqual(['b']);
+  });
+});
+
+describe('cycle detection', () => {
+  const b = board([
+    card('a', 'todo'),
+    card('b', 'todo', { blockedBy: ['a'], parent: 'a' }),
+    card('c', 'todo', { blockedBy: ['b'], parent: 'b' }),
+  ]);
+
+  test('dependsOn follows blocked_by transitively', () => {
+    expect(dependsOn(b, 'c', 'a')).toBe(true);
+    expect(dependsOn(b, 'a', 'c')).toBe(false);
+  });
+
+  test('isAncestor follows parents', () => {
+    expect(isAncestor(b, 'a', 'c')).toBe(true);
+    expect(isAncestor(b, 'c', 'a')).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import type { Board, Card } from './types.js';
+
+export const LINK_TYPES = ['blocks', 'blocked-by', 'parent', 'child'] as const;
+export type LinkType = (typeof LINK_TYPES)[number];
+
+export function isValidLinkType(value: string): value is LinkType {
+  return LINK_TYPES.includes(value as LinkType);
+}
+
+export interface CardRelations {
+  blockedBy: Card[];
+  blocks: Card[];
+  parent?: Card;
+  children: Card[];
+}
+
+/**
+ * The last column counts as done: cards there no longer block anything.
+ */
+export function doneColumn(board: Board): string | undefined {
+  return board.columns[board.columns.length - 1];
+}
+
+/**
+ * Returns blockers of `card` that aren't done yet. References to cards that
+ * no longer exist are ignored.
+ */
+export function openBlockers(board: Board, card: Card): Card[] {
+  const done = doneColumn(board);
+  return (card.blockedBy || [])
+    .map((id) => board.cards.find((c) => c.id === id))
+    .filter((c): c is Card => c !== undefined && c.column !== done);
+}
+
+export function getRelations(board: Board, card: Card): CardRelations {
+  const find = (id: string) => board.cards.find((c) => c.id === id);
+  return {
+    blockedBy: (card.blockedBy || []).map(find).filter((c): c is Card => c !== undefined),
+    blocks: board.cards.filter((c) => c.blockedBy?.includes(card.id)),
+    parent: card.parent ? find(card.parent) : undefined,
+    children: board.cards.filter((c) => c.parent === card.id),
+  };
+}
+
+/**
+ * True if following `blocked_by` links from `fromId` reaches `targetId`.
+ */
+export function dependsOn(board: Board, fromId: string, targetId: string): boolean {
+  const seen = new Set<string>();
+  const stack = [fromId];
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === targetId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    const card = board.cards.find((c) => c.id === id);
+    stack.push(...(card?.blockedBy || []));
+  }
+
+  return false;
+}
+
+/**
+ * True if `ancestorId` is `cardId` or one of its parents, grandparents, etc.
+ */
+export function isAncestor(board: Board, ancestorId: string, cardId: string): boolean {
+  const seen = new Set<string>();
+  let current: string | undefined = cardId;
+
+  while (current && !seen.has(current)) {
+    if (current === ancestorId) return true;
+    seen.add(current);
+    current = board.cards.find((c) => c.id === current)?.parent;
+  }
+
+  return false;
+}
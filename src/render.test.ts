@@ -0,0 +1,110 @@
+import { describe, test, expect } from 'bun:test';
+import { fit, renderColumnLayout, wrap } from './render.js';
+import type { Board, Card } from './types.js';
+
+const stripAnsi = (text: string) => text.replace(/\x1b\[[0-9;?]*[a-zA-Z]/g, '');
+
+function card(id: string, column: string, extra: Partial<Card> = {}): Card {
+  return {
+    id,
+    title: id,
+    column,
+    priority: 'medium',
+    labels: [],
+    created: '',
+    updated: '',
+    description: '',
+    checklist: [],
+    ...extra,
+  };
+}
+
+function board(cards: Card[], columnSettings: Board['columnSettings'] = {}): Board {
+  return {
+    columns: ['todo', 'in-progress', 'done'],
+    columnSettings,
+    cards,
+    orphanedColumns: [],
+    invalidCards: [],
+  };
+}
+
+describe('fit', () => {
+  test('pads short text and truncates long text with an ellipsis', () => {
+    expect(fit('abc', 5)).toBe('abc  ');
+    expect(fit('abcdef', 5)).toBe('abcd…');
+    expect(fit('abc', 0)).toBe('');
+  });
+});
+
+describe('wrap', () => {
+  test('breaks on word boundaries and keeps line breaks', () => {
+    expect(wrap('one two three four', 9)).toEqual(['one two', 'three', 'four']);
+    expect(wrap('first\nsecond', 20)).toEqual(['first', 'second']);
+  });
+});
+
+describe('renderColumnLayout', () => {
+  test('draws every column side by side within the width', () => {
+    const b = board([
+      card('a', 'todo', { title: 'Write the docs' }),
+      card('b', 'in-progress', { title: 'Fix the parser' }),
+    ]);
+    const lines = renderColumnLayout(b, b.cards, 80)!.map(stripAnsi);
+
+    expect(lines[0]).toMatch(/^Todo \(1\)\s+│ In Progress \(1\)\s+│ Done \(0\)$/);
+    expect(lines[2]).toContain('● Write the docs');
+    expect(lines[2]).toContain('● Fix the parser');
+    expect(lines[2]).toContain('(empty)');
+    for (const line of lines) {
+      expect([...line].length).toBeLessThanOrEqual(80);
+    }
+  });
+
+  test('wraps long titles onto a second line and truncates the rest', () => {
+    const b = board([
+      card('a', 'todo', {
+        title: 'A rather long card title that cannot possibly fit on two lines of a narrow column',
+      }),
+    ]);
+    const lines = renderColumnLayout(b, b.cards, 66)!.map(stripAnsi);
+    const todo = lines.map((line) => line.split('│')[0].trimEnd());
+
+    expect(todo[2]).toStartWith('● A rather long');
+    expect(todo[3]).toEndWith('…');
+    expect(todo).toHaveLength(4);
+  });
+
+  test('shows checklist progress, blocked markers and WIP limits', () => {
+    const b = board(
+      [
+        card('a', 'todo', {
+          checklist: [
+            { text: 'one', checked: true },
+            { text: 'two', checked: false },
+          ],
+          blockedBy: ['b'],
+        }),
+        card('b', 'in-progress'),
+        card('c', 'in-progress'),
+      ],
+      { 'in-progress': { wip: 1 } }
+    );
+    const lines = renderColumnLayout(b, b.cards, 90)!.map(stripAnsi);
+
+    expect(lines[0]).toContain('In Progress (2/1)');
+    expect(lines[2]).toContain('● a 1/2 blocked');
+  });
+
+  test('only draws columns with matches when filtered', () => {
+    const b = board([card('a', 'todo'), card('b', 'done')]);
+    const lines = renderColumnLayout(b, [b.cards[1]], 80, { filtered: true })!.map(stripAnsi);
+
+    expect(lines[0]).toBe('Done (1)');
+  });
+
+  test('returns undefined when the columns would be too narrow', () => {
+    const b = board([card('a', 'todo')]);
+    expect(renderColumnLayout(b, b.cards, 40)).toBeUndefined();
+  });
+});
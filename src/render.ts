@@ -0,0 +1,215 @@
+import { openBlockers } from './relations.js';
+import type { Board, Card } from './types.js';
+
+// ANSI colors, shared by the CLI and the interactive UI
+export const colors = {
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+  dim: '\x1b[2m',
+  inverse: '\x1b[7m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m',
+};
+
+export const priorityColors: Record<Card['priority'], string> = {
+  high: colors.red,
+  medium: colors.yellow,
+  low: colors.green,
+};
+
+export function sortCards(cards: Card[]): Card[] {
+  const priorityOrder: Record<Card['priority'], number> = { high: 0, medium: 1, low: 2 };
+  return [...cards].sort((a, b) => {
+    const priorityDiff = priorityOrder[a.priority] - priorityOrder[b.priority];
+    if (priorityDiff !== 0) return priorityDiff;
+
+    const aRank = a.rank ?? Number.MAX_SAFE_INTEGER;
+    const bRank = b.rank ?? Number.MAX_SAFE_INTEGER;
+    const rankDiff = aRank - bRank;
+    if (rankDiff !== 0) return rankDiff;
+
+    return a.created.localeCompare(b.created) || a.id.localeCompare(b.id);
+  });
+}
+
+export function formatColumnName(name: string): string {
+  return name
+    .split('-')
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join(' ');
+}
+
+/**
+ * Cuts plain (uncolored) text to `width` characters, ending in "…" when
+ * shortened, and pads it with spaces to exactly `width`.
+ */
+export function fit(text: string, width: number): string {
+  if (width <= 0) return '';
+  const chars = [...text];
+  if (chars.length > width) {
+    return chars.slice(0, width - 1).join('') + '…';
+  }
+  return text + ' '.repeat(width - chars.length);
+}
+
+/** "done/total" for a card's checklist, or undefined when it has none */
+export function checklistProgress(card: Card): string | undefined {
+  if (card.checklist.length === 0) return undefined;
+  return `${card.checklist.filter((c) => c.checked).length}/${card.checklist.length}`;
+}
+
+/**
+ * Word-wraps plain text to `width`, keeping existing line breaks.
+ */
+export function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (line && line.length + 1 + word.length > width) {
+        lines.push(line);
+        line = '';
+      }
+      line = line ? `${line} ${word}` : word;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** How a card changed since the board was last drawn, for `kanmd watch` */
+export type CardHighlight = 'added' | 'moved' | 'updated';
+
+export const highlightMarkers: Record<CardHighlight, { label: string; color: string }> = {
+  added: { label: 'new', color: colors.green },
+  moved: { label: 'moved', color: colors.cyan },
+  updated: { label: 'edited', color: colors.yellow },
+};
+
+/** Narrowest column the side-by-side layout will draw */
+export const MIN_COLUMN_WIDTH = 18;
+const MAX_TITLE_LINES = 2;
+const COLUMN_GAP = ` ${colors.dim}│${colors.reset} `;
+
+/** A line of colored text and its width on screen */
+interface Cell {
+  text: string;
+  width: number;
+}
+
+function padCell(cell: Cell, width: number): string {
+  return cell.text + ' '.repeat(Math.max(width - cell.width, 0));
+}
+
+/**
+ * A card as a few lines: priority dot and title (wrapped, then truncated),
+ * followed by a change marker, checklist progress and a blocked marker.
+ */
+function cardCells(board: Board, card: Card, width: number, highlight?: CardHighlight): Cell[] {
+  const textWidth = width - 2;
+  let titleLines = wrap(card.title, textWidth).map((line) => fit(line, textWidth).trimEnd());
+  if (titleLines.length > MAX_TITLE_LINES) {
+    const rest = titleLines.slice(MAX_TITLE_LINES - 1).join(' ');
+    titleLines = [...titleLines.slice(0, MAX_TITLE_LINES - 1), fit(rest, textWidth)];
+  }
+
+  const cells = titleLines.map((line, i) => ({
+    text: `${i === 0 ? `${priorityColors[card.priority]}●${colors.reset}` : ' '} ${line}`,
+    width: 2 + [...line].length,
+  }));
+
+  const meta: Cell[] = [];
+  if (highlight) {
+    const { label, color } = highlightMarkers[highlight];
+    meta.push({ text: `${color}${label}${colors.reset}`, width: label.length });
+  }
+  const progress = checklistProgress(card);
+  if (progress) {
+    meta.push({ text: `${colors.dim}${progress}${colors.reset}`, width: progress.length });
+  }
+  if (openBlockers(board, card).length > 0) {
+    meta.push({ text: `${colors.red}blocked${colors.reset}`, width: 'blocked'.length });
+  }
+  if (meta.length === 0) return cells;
+
+  // Put the markers after the title when they fit, otherwise on a line of their own
+  const metaText = meta.map((m) => m.text).join(' ');
+  const metaWidth = meta.reduce((sum, m) => sum + m.width, meta.length - 1);
+  const last = cells[cells.length - 1];
+  if (last.width + 1 + metaWidth <= width) {
+    cells[cells.length - 1] = {
+      text: `${last.text} ${metaText}`,
+      width: last.width + 1 + metaWidth,
+    };
+  } else {
+    cells.push({ text: `  ${metaText}`, width: 2 + metaWidth });
+  }
+  return cells;
+}
+
+export const BOARD_LAYOUTS = ['stacked', 'columns'] as const;
+export type BoardLayout = (typeof BOARD_LAYOUTS)[number];
+
+export function isValidLayout(value: string): value is BoardLayout {
+  return BOARD_LAYOUTS.includes(value as BoardLayout);
+}
+
+export interface ColumnLayoutOptions {
+  /** Only draw columns with cards, and leave out WIP limits */
+  filtered?: boolean;
+  /** Cards to mark as new, moved or edited */
+  highlights?: Map<string, CardHighlight>;
+}
+
+/**
+ * Draws the board's columns next to each other, sized to fill `width`.
+ * Returns undefined when the columns would be narrower than
+ * MIN_COLUMN_WIDTH, so the caller can fall back to the stacked layout.
+ */
+export function renderColumnLayout(
+  board: Board,
+  cards: Card[],
+  width: number,
+  { filtered = false, highlights }: ColumnLayoutOptions = {}
+): string[] | undefined {
+  const columns = filtered
+    ? board.columns.filter((column) => cards.some((c) => c.column === column))
+    : board.columns;
+  if (columns.length === 0) return [];
+  const gapWidth = 3;
+  const columnWidth = Math.floor((width - gapWidth * (columns.length - 1)) / columns.length);
+  if (columnWidth < MIN_COLUMN_WIDTH) return undefined;
+
+  const blocks = columns.map((column) => {
+    const columnCards = sortCards(cards.filter((c) => c.column === column));
+    const limit = filtered ? undefined : board.columnSettings[column]?.wip;
+    const overLimit = limit !== undefined && columnCards.length > limit;
+    const count = limit !== undefined ? `${columnCards.length}/${limit}` : `${columnCards.length}`;
+    const header = fit(`${formatColumnName(column)} (${count})`, columnWidth).trimEnd();
+
+    const cells: Cell[] = [
+      {
+        text: `${colors.bold}${overLimit ? colors.red : ''}${header}${colors.reset}`,
+        width: [...header].length,
+      },
+      { text: `${colors.dim}${'─'.repeat(columnWidth)}${colors.reset}`, width: columnWidth },
+    ];
+    if (columnCards.length === 0) {
+      cells.push({ text: `${colors.dim}(empty)${colors.reset}`, width: 7 });
+    }
+    for (const card of columnCards) {
+      cells.push(...cardCells(board, card, columnWidth, highlights?.get(card.id)));
+    }
+    return cells;
+  });
+
+  const height = Math.max(...blocks.map((b) => b.length));
+  return Array.from({ length: height }, (_, row) =>
+    blocks
+      .map((cells) => padCell(cells[row] ?? { text: '', width: 0 }, columnWidth))
+      .join(COLUMN_GAP)
+      .trimEnd()
+  );
+}
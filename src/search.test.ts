@@ -0,0 +1,100 @@
+import { describe, test, expect } from 'bun:test';
+import { makeSnippet, searchCards } from './search.js';
+import type { Card } from './types.js';
+import { KanmdError } from './types.js';
+
+function makeCard(overrides: Partial<Card>): Card {
+  return {
+    id: 'card',
+    title: 'Card',
+    priority: 'medium',
+    labels: [],
+    created: '2026-09-01T10:00:00.000Z',
+    description: '',
+    checklist: [],
+    column: 'todo',
+    ...overrides,
+  };
+}
+
+const cards: Card[] = [
+  makeCard({
+    id: 'docs',
+    title: 'Write docs',
+    description: 'Explain the OAuth flow and the token refresh.',
+  }),
+  makeCard({ id: 'oauth', title: 'OAuth', column: 'in-progress' }),
+  makeCard({
+    id: 'login',
+    title: 'Build login page',
+    labels: ['oauth'],
+    checklist: [
+      { text: 'Design form', checked: true },
+      { text: 'Wire up OAuth provider', checked: false },
+    ],
+  }),
+];
+
+describe('searchCards', () => {
+  test('ranks title hits above labels, checklists and descriptions', () => {
+    const results = searchCards(cards, 'oauth');
+    expect(results.map((r) => r.card.id)).toEqual(['oauth', 'login', 'docs']);
+  });
+
+  test('records fields, items and offsets', () => {
+    const [login] = searchCards([cards[2]], 'oauth');
+    expect(login.matches).toEqual([
+      { field: 'label', item: 1, start: 0, end: 5, text: 'oauth' },
+      { field: 'checklist', item: 2, start: 8, end: 13, text: 'OAuth' },
+    ]);
+  });
+
+  test('supports case-sensitive matching', () => {
+    const results = searchCards(cards, 'oauth', { caseSensitive: true });
+    expect(results.map((r) => r.card.id)).toEqual(['login']);
+  });
+
+  test('supports regular expressions', () => {
+    const results = searchCards(cards, 'tok(en|ens)\\b', { regex: true });
+    expect(results.map((r) => r.card.id)).toEqual(['docs']);
+  });
+
+  test('treats plain text literally', () => {
+    expect(searchCards(cards, 'o.uth')).toEqual([]);
+  });
+
+  test('skips empty regex matches', () => {
+    expect(searchCards(cards, 'z*', { regex: true })).toEqual([]);
+  });
+
+  test('rejects invalid patterns', () => {
+    expect(() => searchCards(cards, '(', { regex: true })).toThrow(KanmdError);
+    expect(() => searchCards(cards, '')).toThrow('must not be empty');
+  });
+});
+
+describe('makeSnippet', () => {
+  test('returns short text unchanged', () => {
+    const [result] = searchCards([cards[1]], 'auth');
+    expect(makeSnippet('OAuth', result.matches)).toEqual({ text: 'OAuth', ranges: [[1, 5]] });
+  });
+
+  test('trims long text around the match', () => {
+    const text = 'a '.repeat(40) + 'needle' + ' b'.repeat(40);
+    const [result] = searchCards([makeCard({ description: text })], 'needle');
+    const snippet = makeSnippet(text, result.matches, 10);
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    const [start, end] = snippet.ranges[0];
+    expect(snippet.text.slice(start, end)).toBe('needle');
+  });
+
+  test('flattens newlines', () => {
+    const text = 'first line\nsecond needle';
+    const [result] = searchCards([makeCard({ description: text })], 'needle');
+    const snippet = makeSnippet(text, result.matches);
+    expect(snippet.text).toBe('first line second needle');
+    expect(snippet.text.slice(...snippet.ranges[0])).toBe('needle');
+  });
+});
@@ -0,0 +1,166 @@
+import type { Card } from './types.js';
+import { KanmdError } from './types.js';
+
+export type SearchField = 'title' | 'label' | 'checklist' | 'description';
+
+export interface SearchMatch {
+  field: SearchField;
+  /** 1-based position of the label or checklist item the match is in */
+  item?: number;
+  /** Offsets into the field's text */
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SearchResult {
+  card: Card;
+  score: number;
+  matches: SearchMatch[];
+}
+
+export interface SearchOptions {
+  regex?: boolean;
+  caseSensitive?: boolean;
+}
+
+// Title hits matter most; a word buried in a long description matters least
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 10,
+  label: 6,
+  checklist: 3,
+  description: 1,
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function buildPattern(query: string, options: SearchOptions = {}): RegExp {
+  if (!query) {
+    throw new KanmdError('Search text must not be empty', 'INVALID_PATTERN');
+  }
+  const flags = options.caseSensitive ? 'g' : 'gi';
+  try {
+    return new RegExp(options.regex ? query : escapeRegExp(query), flags);
+  } catch (err) {
+    throw new KanmdError(
+      `Invalid regular expression: ${(err as Error).message}`,
+      'INVALID_PATTERN'
+    );
+  }
+}
+
+function findMatches(
+  pattern: RegExp,
+  text: string,
+  field: SearchField,
+  item?: number
+): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  pattern.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      // Skip empty matches (e.g. /a*/) so the loop always advances
+      pattern.lastIndex++;
+      continue;
+    }
+    matches.push({
+      field,
+      item,
+      start: match.index,
+      end: match.index + match[0].length,
+      text: match[0],
+    });
+  }
+
+  return matches;
+}
+
+export function matchCard(card: Card, pattern: RegExp): SearchMatch[] {
+  return [
+    ...findMatches(pattern, card.title, 'title'),
+    ...card.labels.flatMap((label, i) => findMatches(pattern, label, 'label', i + 1)),
+    ...card.checklist.flatMap((entry, i) => findMatches(pattern, entry.text, 'checklist', i + 1)),
+    ...findMatches(pattern, card.description, 'description'),
+  ];
+}
+
+function scoreMatches(card: Card, matches: SearchMatch[]): number {
+  let score = 0;
+  for (const match of matches) {
+    score += FIELD_WEIGHTS[match.field];
+    // Whole-field hits (an exact title or label) rank above partial ones
+    if (match.field === 'title' && match.start === 0 && match.end === card.title.length) {
+      score += FIELD_WEIGHTS.title;
+    }
+    if (match.field === 'label' && match.text.length === card.labels[match.item! - 1].length) {
+      score += FIELD_WEIGHTS.label;
+    }
+  }
+  return score;
+}
+
+/**
+ * Searches titles, labels, checklist items and descriptions. Results are
+ * sorted by score (highest first), then by card ID.
+ */
+export function searchCards(
+  cards: Card[],
+  query: string,
+  options: SearchOptions = {}
+): SearchResult[] {
+  const pattern = buildPattern(query, options);
+  const results: SearchResult[] = [];
+
+  for (const card of cards) {
+    const matches = matchCard(card, pattern);
+    if (matches.length > 0) {
+      results.push({ card, score: scoreMatches(card, matches), matches });
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score || a.card.id.localeCompare(b.card.id));
+}
+
+/**
+ * Cuts a window of `text` around the given matches (all from the same field
+ * item) and returns the match ranges relative to the snippet.
+ */
+export function makeSnippet(
+  text: string,
+  matches: SearchMatch[],
+  radius = 30
+): { text: string; ranges: Array<[number, number]> } {
+  const first = matches[0];
+  let start = Math.max(0, first.start - radius);
+  let end = Math.min(text.length, first.end + radius);
+
+  // Prefer cutting at whitespace so words aren't chopped
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < first.start) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > first.end) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const snippet = prefix + text.slice(start, end).replace(/\s*\n\s*/g, ' ') + suffix;
+
+  // Offsets shift when newlines collapse, so recompute ranges within the flattened window
+  const ranges: Array<[number, number]> = [];
+  for (const match of matches) {
+    if (match.start < start || match.end > end) continue;
+    const before = text.slice(start, match.start).replace(/\s*\n\s*/g, ' ');
+    const inner = text.slice(match.start, match.end).replace(/\s*\n\s*/g, ' ');
+    const offset = prefix.length + before.length;
+    ranges.push([offset, offset + inner.length]);
+  }
+
+  return { text: snippet, ranges };
+}
@@ -0,0 +1,183 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs/promises';
+import http from 'http';
+import path from 'path';
+import { addCard, setColumnWip } from './files.js';
+import { httpStatus, startServer } from './server.js';
+import type { BoardServer } from './server.js';
+
+const KANBAN_DIR = process.env.KANMD_DIR!;
+
+let board: BoardServer;
+
+async function setupTestBoard(): Promise<void> {
+  await fs.rm(KANBAN_DIR, { recursive: true, force: true });
+  await fs.mkdir(KANBAN_DIR, { recursive: true });
+  await fs.writeFile(
+    path.join(KANBAN_DIR, 'board.yaml'),
+    'columns:\n  - todo\n  - doing\n  - done\n'
+  );
+  await addCard('todo', 'Task A');
+}
+
+function request(pathname: string, method = 'GET', body?: unknown, headers = {}) {
+  return fetch(board.url + pathname, {
+    method,
+    headers: body === undefined ? headers : { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe('httpStatus', () => {
+  test('maps error codes to HTTP statuses', () => {
+    expect(httpStatus('CARD_NOT_FOUND')).toBe(404);
+    expect(httpStatus('CONFLICT')).toBe(409);
+    expect(httpStatus('WIP_LIMIT_EXCEEDED')).toBe(409);
+    expect(httpStatus('INVALID_DATE')).toBe(400);
+    expect(httpStatus('YAML_PARSE_ERROR')).toBe(500);
+  });
+});
+
+describe('board server', () => {
+  beforeEach(async () => {
+    await setupTestBoard();
+    board = await startServer(0);
+  });
+
+  afterEach(async () => {
+    await board.close();
+    await fs.rm(KANBAN_DIR, { recursive: true, force: true });
+  });
+
+  test('GET /board returns the board as kanmd --json does', async () => {
+    const res = await request('/board');
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.columns).toEqual(['todo', 'doing', 'done']);
+    expect(body.cards.todo.map((c: { id: string }) => c.id)).toEqual(['task-a']);
+  });
+
+  test('GET /cards/:id returns the card with its revision as the ETag', async () => {
+    const res = await request('/cards/task-a');
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.title).toBe('Task A');
+    expect(res.headers.get('etag')).toBe(`"${body.revision}"`);
+  });
+
+  test('adds, moves, edits, ranks and deletes cards', async () => {
+    const added = await request('/cards', 'POST', {
+      column: 'todo',
+      title: 'Task B',
+      priority: 'high',
+    });
+    expect(added.status).toBe(201);
+    expect((await added.json()).priority).toBe('high');
+
+    const moved = await request('/cards/task-b/move', 'POST', { column: 'doing' });
+    expect((await moved.json()).column).toBe('doing');
+
+    const edited = await request('/cards/task-b', 'PATCH', { labels: ['api'], due: null });
+    expect((await edited.json()).labels).toEqual(['api']);
+
+    const ranked = await request('/cards/task-a/rank', 'POST', { position: 1 });
+    expect((await ranked.json()).rank).toBe(1);
+
+    const deleted = await request('/cards/task-b', 'DELETE');
+    expect(await deleted.json()).toEqual({ ok: true, id: 'task-b' });
+    expect((await request('/cards/task-b')).status).toBe(404);
+  });
+
+  test('adds, toggles and removes checklist items', async () => {
+    const added = await request('/cards/task-a/checklist', 'POST', { text: 'Write tests' });
+    expect(added.status).toBe(201);
+
+    const toggled = await request('/cards/task-a/checklist/1', 'PATCH');
+    expect((await toggled.json()).checklist).toEqual([{ text: 'Write tests', checked: true }]);
+
+    const removed = await request('/cards/task-a/checklist/1', 'DELETE');
+    expect((await removed.json()).checklist).toEqual([]);
+  });
+
+  test('maps kanmd errors to statuses with the same codes', async () => {
+    await addCard('doing', 'Task C');
+    await setColumnWip('doing', 1);
+    const blocked = await request('/cards/task-a/move', 'POST', { column: 'doing' });
+    expect(blocked.status).toBe(409);
+    expect((await blocked.json()).code).toBe('WIP_LIMIT_EXCEEDED');
+
+    const stale = await request('/cards/task-a', 'PATCH', { title: 'New' }, { 'If-Match': '"0"' });
+    expect(stale.status).toBe(409);
+    expect((await stale.json()).code).toBe('CONFLICT');
+
+    const missing = await request('/cards/nope');
+    expect(missing.status).toBe(404);
+    expect((await missing.json()).code).toBe('CARD_NOT_FOUND');
+
+    const invalid = await request('/cards/task-a', 'PATCH', { due: 'someday' });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).code).toBe('INVALID_DATE');
+  });
+
+  test('accepts a matching If-Match revision', async () => {
+    const { revision } = await (await request('/cards/task-a')).json();
+    const res = await request('/cards/task-a', 'PATCH', { title: 'New' }, { 'If-Match': revision });
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).title).toBe('New');
+  });
+
+  test('rejects unknown routes, wrong methods and non-JSON bodies', async () => {
+    expect((await request('/nope')).status).toBe(404);
+
+    const wrongMethod = await request('/board', 'DELETE');
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get('allow')).toBe('GET');
+
+    const plain = await fetch(board.url + '/cards', { method: 'POST', body: 'column=todo' });
+    expect(plain.status).toBe(415);
+
+    const broken = await fetch(board.url + '/cards', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{',
+    });
+    expect((await broken.json()).code).toBe('INVALID_JSON');
+  });
+
+  test('rejects requests addressed to another host name', async () => {
+    const status = await new Promise<number>((resolve, reject) => {
+      http
+        .get(board.url + '/board', { headers: { Host: 'attacker.example' } }, (res) => {
+          res.resume();
+          resolve(res.statusCode!);
+        })
+        .on('error', reject);
+    });
+    expect(status).toBe(403);
+  });
+
+  test('streams change events over SSE', async () => {
+    const res = await request('/events');
+    expect(res.headers.get('content-type')).toBe('text/event-stream');
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+
+    await addCard('todo', 'Task B');
+
+    let received = '';
+    const deadline = Date.now() + 3000;
+    while (!/event: card_added\ndata: .*\n\n/.test(received)) {
+      if (Date.now() > deadline) break;
+      const { value, done } = await reader.read();
+      if (done) break;
+      received += decoder.decode(value);
+    }
+    await reader.cancel();
+
+    expect(received).toContain('event: card_added\ndata: {"type":"card_added"');
+    expect(received).toContain('"card":"task-b"');
+  });
+});
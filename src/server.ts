@@ -0,0 +1,334 @@
+import http from 'http';
+import {
+  addCard,
+  checklistAdd,
+  checklistRemove,
+  checklistToggle,
+  deleteCard,
+  editCard,
+  getCard,
+  getKanbanDir,
+  loadBoard,
+  moveCard,
+  rankCard,
+} from './files.js';
+import {
+  boardToJson,
+  cardDetailToJson,
+  cardToJson,
+  cardUpdates,
+  invalid,
+  positiveInteger,
+  stringField,
+  stripUndefined,
+} from './json.js';
+import type { JsonObject } from './json.js';
+import { isValidPriority, KanmdError } from './types.js';
+import type { Card, MutationOptions } from './types.js';
+import { watchBoardChanges } from './watch.js';
+
+export const DEFAULT_PORT = 4321;
+
+// Request bodies are small JSON objects; anything bigger is a mistake
+const MAX_BODY_BYTES = 1024 * 1024;
+// Keeps idle event streams from being closed by proxies and clients
+const HEARTBEAT_MS = 30_000;
+
+const NOT_FOUND = new Set(['CARD_NOT_FOUND', 'COLUMN_NOT_FOUND', 'NOT_FOUND']);
+const CONFLICTS = new Set([
+  'CONFLICT',
+  'CARD_EXISTS',
+  'CARD_LOCKED',
+  'LOCKED',
+  'ALREADY_CLAIMED',
+  'ALREADY_IN_COLUMN',
+  'WIP_LIMIT_EXCEEDED',
+  'TRANSITION_NOT_ALLOWED',
+  'GATE_FAILED',
+  'CARD_BLOCKED',
+]);
+// A board that can't be read is the server's problem, not the request's
+const SERVER_ERRORS = new Set(['YAML_PARSE_ERROR', 'INVALID_BOARD_CONFIG', 'ERROR']);
+
+/** HTTP status for a KanmdError code; anything else is a bad request */
+export function httpStatus(code: string): number {
+  if (NOT_FOUND.has(code)) return 404;
+  if (CONFLICTS.has(code)) return 409;
+  if (SERVER_ERRORS.has(code)) return 500;
+  if (code === 'METHOD_NOT_ALLOWED') return 405;
+  if (code === 'PAYLOAD_TOO_LARGE') return 413;
+  if (code === 'UNSUPPORTED_MEDIA_TYPE') return 415;
+  if (code === 'FORBIDDEN_HOST') return 403;
+  return 400;
+}
+
+async function readBody(req: http.IncomingMessage): Promise<JsonObject> {
+  // Requiring JSON means a browser can't send a request from another site
+  // without a CORS preflight, which this server never approves
+  const type = req.headers['content-type'] ?? '';
+  if (!/^application\/json\b/i.test(type)) {
+    throw new KanmdError('Request body must be application/json', 'UNSUPPORTED_MEDIA_TYPE');
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new KanmdError('Request body is too large', 'PAYLOAD_TOO_LARGE');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf-8');
+  let body: unknown;
+  try {
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    throw new KanmdError('Request body is not valid JSON', 'INVALID_JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new KanmdError('Request body must be a JSON object', 'INVALID_JSON');
+  }
+  return body as JsonObject;
+}
+
+/** --if-revision over HTTP: the If-Match header, with or without ETag quotes */
+function mutationOptions(req: http.IncomingMessage): MutationOptions {
+  const ifMatch = req.headers['if-match'];
+  return { ifRevision: ifMatch ? ifMatch.replace(/^(W\/)?"|"$/g, '') : undefined };
+}
+
+interface Reply {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+function cardReply(card: Card, status = 200): Reply {
+  return {
+    status,
+    body: cardToJson(card),
+    headers: card.revision ? { ETag: `"${card.revision}"` } : undefined,
+  };
+}
+
+/**
+ * Runs one API request. Routes mirror the CLI commands, and each one goes
+ * through the same files.ts functions, so workflow rules and the activity log
+ * apply the same way.
+ */
+async function route(req: http.IncomingMessage, url: URL): Promise<Reply> {
+  const method = req.method ?? 'GET';
+  let parts: string[];
+  try {
+    parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    throw invalid(`Malformed URL: ${url.pathname}`);
+  }
+  const options = mutationOptions(req);
+  const allow = (...methods: string[]) => {
+    if (!methods.includes(method)) {
+      throw new KanmdError(`${method} is not allowed on ${url.pathname}`, 'METHOD_NOT_ALLOWED', {
+        allow: methods,
+      });
+    }
+  };
+
+  // GET /board
+  if (parts.length === 1 && parts[0] === 'board') {
+    allow('GET');
+    return { status: 200, body: boardToJson(await loadBoard()) };
+  }
+
+  if (parts[0] !== 'cards') {
+    throw new KanmdError(`No such endpoint: ${url.pathname}`, 'NOT_FOUND');
+  }
+  const [, cardId, action, index] = parts;
+
+  // POST /cards
+  if (parts.length === 1) {
+    allow('POST');
+    const body = await readBody(req);
+    const priority = stringField(body, 'priority') ?? 'medium';
+    if (!isValidPriority(priority)) {
+      throw invalid(`Invalid priority "${priority}". Must be: high, medium, or low`);
+    }
+    const card = await addCard(
+      stringField(body, 'column', true),
+      stringField(body, 'title', true),
+      priority,
+      { force: body.force === true }
+    );
+    return cardReply(card, 201);
+  }
+
+  // GET, PATCH, DELETE /cards/:id
+  if (parts.length === 2) {
+    allow('GET', 'PATCH', 'DELETE');
+    if (method === 'GET') {
+      const card = await getCard(cardId);
+      const reply = cardReply(card);
+      return { ...reply, body: cardDetailToJson(await loadBoard(), card) };
+    }
+    if (method === 'DELETE') {
+      await deleteCard(cardId, options);
+      return { status: 200, body: { ok: true, id: cardId } };
+    }
+    await editCard(cardId, cardUpdates(await readBody(req)), options);
+    return cardReply(await getCard(cardId));
+  }
+
+  // POST /cards/:id/move
+  if (parts.length === 3 && action === 'move') {
+    allow('POST');
+    const body = await readBody(req);
+    await moveCard(cardId, stringField(body, 'column', true), {
+      ...options,
+      force: body.force === true,
+    });
+    return cardReply(await getCard(cardId));
+  }
+
+  // POST /cards/:id/rank
+  if (parts.length === 3 && action === 'rank') {
+    allow('POST');
+    const body = await readBody(req);
+    await rankCard(cardId, positiveInteger(body.position, 'position'), options);
+    return cardReply(await getCard(cardId));
+  }
+
+  // POST /cards/:id/checklist
+  if (parts.length === 3 && action === 'checklist') {
+    allow('POST');
+    const body = await readBody(req);
+    return cardReply(await checklistAdd(cardId, stringField(body, 'text', true), options), 201);
+  }
+
+  // PATCH (toggle) and DELETE /cards/:id/checklist/:index
+  if (parts.length === 4 && action === 'checklist') {
+    allow('PATCH', 'DELETE');
+    const itemIndex = positiveInteger(index, 'index');
+    const card =
+      method === 'PATCH'
+        ? await checklistToggle(cardId, itemIndex, options)
+        : await checklistRemove(cardId, itemIndex, options);
+    return cardReply(card);
+  }
+
+  throw new KanmdError(`No such endpoint: ${url.pathname}`, 'NOT_FOUND');
+}
+
+/**
+ * Only answer requests addressed to this machine by name, so a web page
+ * can't reach the API through a DNS name that it points at 127.0.0.1.
+ */
+function isLocalHost(host: string | undefined): boolean {
+  if (!host) return false;
+  const name = host.replace(/:\d+$/, '').toLowerCase();
+  return name === 'localhost' || name === '127.0.0.1' || name === '[::1]';
+}
+
+function send(res: http.ServerResponse, { status, body, headers }: Reply): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: http.ServerResponse, err: unknown): void {
+  const error = err as Error;
+  const code = err instanceof KanmdError ? err.code : 'ERROR';
+  const details = err instanceof KanmdError ? err.details : undefined;
+  const allow = code === 'METHOD_NOT_ALLOWED' ? (details?.allow as string[]) : undefined;
+  send(res, {
+    status: httpStatus(code),
+    body: stripUndefined({ error: error.message, code, details }),
+    headers: allow ? { Allow: allow.join(', ') } : undefined,
+  });
+}
+
+export interface BoardServer {
+  server: http.Server;
+  /** Base URL, e.g. http://127.0.0.1:4321 */
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Serves the board's REST API and a Server-Sent Events stream of changes
+ * (GET /events) on localhost. Port 0 picks a free port.
+ */
+export async function startServer(port = DEFAULT_PORT): Promise<BoardServer> {
+  const clients = new Set<http.ServerResponse>();
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (!isLocalHost(req.headers.host)) {
+      sendError(res, new KanmdError('Requests must be addressed to localhost', 'FORBIDDEN_HOST'));
+      return;
+    }
+
+    if (url.pathname === '/events') {
+      if (req.method !== 'GET') {
+        sendError(
+          res,
+          new KanmdError(`${req.method} is not allowed on /events`, 'METHOD_NOT_ALLOWED', {
+            allow: ['GET'],
+          })
+        );
+        return;
+      }
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      res.write(': connected\n\n');
+      clients.add(res);
+      req.on('close', () => clients.delete(res));
+      return;
+    }
+
+    route(req, url).then(
+      (reply) => send(res, reply),
+      (err) => sendError(res, err)
+    );
+  });
+
+  const stopWatching = await watchBoardChanges(getKanbanDir(), (events) => {
+    for (const event of events) {
+      const message = `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+      clients.forEach((client) => client.write(message));
+    }
+  });
+  const heartbeat = setInterval(() => {
+    clients.forEach((client) => client.write(': ping\n\n'));
+  }, HEARTBEAT_MS);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+  } catch (err) {
+    stopWatching();
+    clearInterval(heartbeat);
+    if ((err as NodeJS.ErrnoException).code === 'EADDRINUSE') {
+      throw new KanmdError(`Port ${port} is already in use`, 'PORT_IN_USE');
+    }
+    throw err;
+  }
+
+  const { port: boundPort } = server.address() as { port: number };
+  return {
+    server,
+    url: `http://127.0.0.1:${boundPort}`,
+    close: async () => {
+      stopWatching();
+      clearInterval(heartbeat);
+      clients.forEach((client) => client.end());
+      clients.clear();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import { describe, test, expect } from 'bun:test';
+import { columnDurations, completedAt, computeStats, summarize, weekStart } from './stats.js';
+import type { Board, Card } from './types.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 9, 19, 12, 0, 0);
+
+function daysAgo(n: number): string {
+  return new Date(NOW.getTime() - n * DAY).toISOString();
+}
+
+function makeCard(overrides: Partial<Card> = {}): Card {
+  return {
+    id: 'task',
+    title: 'Task',
+    priority: 'medium',
+    labels: [],
+    created: daysAgo(10),
+    description: '',
+    checklist: [],
+    column: 'todo',
+    ...overrides,
+  };
+}
+
+function makeBoard(cards: Card[]): Board {
+  return { columns: ['todo', 'in-progress', 'review', 'done'], columnSettings: {}, cards };
+}
+
+describe('summarize', () => {
+  test('reports average, median and 85th percentile', () => {
+    expect(summarize([4, 1, 2, 3])).toEqual({ count: 4, average: 2.5, median: 2.5, p85: 4 });
+  });
+
+  test('is null when there is nothing to measure', () => {
+    expect(summarize([])).toEqual({ count: 0, average: null, median: null, p85: null });
+  });
+});
+
+describe('weekStart', () => {
+  test('returns the Monday of the week', () => {
+    expect(weekStart(new Date(2026, 9, 19))).toBe('2026-10-19');
+    expect(weekStart(new Date(2026, 9, 25))).toBe('2026-10-19');
+    expect(weekStart(new Date(2026, 9, 18))).toBe('2026-10-12');
+  });
+});
+
+describe('columnDurations', () => {
+  test('measures each column until the next entry', () => {
+    const card = makeCard({
+      entered: { todo: daysAgo(10), 'in-progress': daysAgo(6), review: daysAgo(1) },
+    });
+    const durations = columnDurations(card, NOW);
+    expect(durations.todo).toBeCloseTo(4);
+    expect(durations['in-progress']).toBeCloseTo(5);
+    expect(durations.review).toBeCloseTo(1);
+  });
+});
+
+describe('completedAt', () => {
+  test('uses the done entry time, falling back to updated', () => {
+    const board = makeBoard([]);
+    const done = makeCard({ column: 'done', entered: { done: daysAgo(2) }, updated: daysAgo(1) });
+    const legacy = makeCard({ column: 'done', updated: daysAgo(1) });
+    expect(completedAt(board, done)?.toISOString()).toBe(daysAgo(2));
+    expect(completedAt(board, legacy)?.toISOString()).toBe(daysAgo(1));
+    expect(completedAt(board, makeCard())).toBeUndefined();
+  });
+});
+
+describe('computeStats', () => {
+  const finished = makeCard({
+    id: 'finished',
+    column: 'done',
+    priority: 'high',
+    labels: ['auth'],
+    created: daysAgo(10),
+    entered: { todo: daysAgo(10), 'in-progress': daysAgo(6), done: daysAgo(2) },
+  });
+  const skipped = makeCard({
+    id: 'skipped',
+    column: 'done',
+    created: daysAgo(4),
+    entered: { todo: daysAgo(4), done: daysAgo(3) },
+  });
+  const old = makeCard({ id: 'old', column: 'done', entered: { done: daysAgo(60) } });
+  const open = makeCard({ id: 'open', labels: ['auth'] });
+
+  test('computes lead and cycle time for cards completed in range', () => {
+    const stats = computeStats(
+      makeBoard([finished, skipped, old, open]),
+      { since: new Date(NOW.getTime() - 14 * DAY) },
+      NOW
+    );
+
+    expect(stats.completed).toBe(2);
+    expect(stats.open).toBe(1);
+    expect(stats.leadTime).toMatchObject({ count: 2, average: 4.5 });
+    // Only cards that passed through a work column have a cycle time
+    expect(stats.cycleTime).toMatchObject({ count: 1, average: 4 });
+    expect(stats.timeInColumn.todo).toMatchObject({ count: 2, average: 2.5 });
+    expect(stats.timeInColumn.review.count).toBe(0);
+    expect(stats.timeInColumn.done).toBeUndefined();
+  });
+
+  test('buckets throughput by week across the whole range', () => {
+    const stats = computeStats(
+      makeBoard([finished, skipped, old]),
+      { since: new Date(2026, 9, 5) },
+      NOW
+    );
+    expect(stats.throughput).toEqual([
+      { week: '2026-10-05', count: 0 },
+      { week: '2026-10-12', count: 2 },
+      { week: '2026-10-19', count: 0 },
+    ]);
+  });
+
+  test('counts open and completed cards by priority and label', () => {
+    const stats = computeStats(makeBoard([finished, skipped, open]), {}, NOW);
+    expect(stats.byPriority.high).toEqual({ open: 0, completed: 1 });
+    expect(stats.byPriority.medium).toEqual({ open: 1, completed: 1 });
+    expect(stats.byLabel).toEqual({ auth: { open: 1, completed: 1 } });
+  });
+});
@@ -0,0 +1,206 @@
+import { formatDate } from './dates.js';
+import { doneColumn } from './relations.js';
+import { PRIORITIES } from './types.js';
+import type { Board, Card, Priority } from './types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StatsRange {
+  /** Only count cards completed at or after this time */
+  since?: Date;
+  /** Only count cards completed before this time */
+  until?: Date;
+}
+
+/** Durations in days; null when there were no cards to measure */
+export interface DurationSummary {
+  count: number;
+  average: number | null;
+  median: number | null;
+  p85: number | null;
+}
+
+export interface WeeklyThroughput {
+  /** Monday of the week as YYYY-MM-DD */
+  week: string;
+  count: number;
+}
+
+export interface BoardStats {
+  completed: number;
+  open: number;
+  /** From creation to reaching the done column */
+  leadTime: DurationSummary;
+  /** From first entering a work column (any but the first and last) to done */
+  cycleTime: DurationSummary;
+  /** How long completed cards spent in each column before done */
+  timeInColumn: Record<string, DurationSummary>;
+  throughput: WeeklyThroughput[];
+  byPriority: Record<Priority, { open: number; completed: number }>;
+  byLabel: Record<string, { open: number; completed: number }>;
+}
+
+/**
+ * When the card reached the done column. Cards finished before entry times
+ * were recorded fall back to their last update.
+ */
+export function completedAt(board: Board, card: Card): Date | undefined {
+  const done = doneColumn(board);
+  if (!done || card.column !== done) return undefined;
+  return parseTime(card.entered?.[done] ?? card.updated);
+}
+
+function parseTime(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : new Date(time);
+}
+
+function days(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / DAY_MS;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function summarize(values: number[]): DurationSummary {
+  if (values.length === 0) {
+    return { count: 0, average: null, median: null, p85: null };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  // Nearest-rank percentile
+  const percentile = (p: number) => sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+
+  return {
+    count: sorted.length,
+    average: round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length),
+    median: round(median),
+    p85: round(percentile(0.85)),
+  };
+}
+
+/**
+ * Time spent in each column, from the card's column entry times in order. A
+ * column entered more than once is only counted from its latest entry.
+ */
+export function columnDurations(card: Card, until: Date): Record<string, number> {
+  const entries = Object.entries(card.entered || {})
+    .map(([column, time]) => ({ column, time: parseTime(time) }))
+    .filter((e): e is { column: string; time: Date } => e.time !== undefined)
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  const durations: Record<string, number> = {};
+  entries.forEach((entry, i) => {
+    const end = i + 1 < entries.length ? entries[i + 1].time : until;
+    durations[entry.column] = days(entry.time, end);
+  });
+  return durations;
+}
+
+/**
+ * Monday (local time) of the week containing `date`, as YYYY-MM-DD.
+ */
+export function weekStart(date: Date): string {
+  return formatDate(mondayOf(date));
+}
+
+function mondayOf(date: Date): Date {
+  const offset = (date.getDay() + 6) % 7;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset);
+}
+
+function weeksBetween(from: Date, to: Date): string[] {
+  const weeks: string[] = [];
+  const last = weekStart(to);
+  for (const cursor = mondayOf(from); formatDate(cursor) <= last; ) {
+    weeks.push(formatDate(cursor));
+    cursor.setDate(cursor.getDate() + 7);
+  }
+  return weeks;
+}
+
+/**
+ * Flow metrics for the cards completed within `range`. Open counts cover every
+ * card not yet done, regardless of the range.
+ */
+export function computeStats(board: Board, range: StatsRange = {}, now = new Date()): BoardStats {
+  const done = doneColumn(board);
+  const until = range.until ?? now;
+  const workColumns = board.columns.slice(1, -1);
+
+  const completed: Array<{ card: Card; at: Date }> = [];
+  const open: Card[] = [];
+  for (const card of board.cards) {
+    if (card.column !== done) {
+      open.push(card);
+      continue;
+    }
+    const at = completedAt(board, card);
+    if (!at || at >= until || (range.since && at < range.since)) continue;
+    completed.push({ card, at });
+  }
+
+  const leadTimes: number[] = [];
+  const cycleTimes: number[] = [];
+  const columnTimes: Record<string, number[]> = {};
+
+  for (const { card, at } of completed) {
+    const created = parseTime(card.created);
+    if (created) leadTimes.push(days(created, at));
+
+    const starts = workColumns
+      .map((column) => parseTime(card.entered?.[column]))
+      .filter((time): time is Date => time !== undefined && time <= at);
+    if (starts.length > 0) {
+      const start = Math.min(...starts.map((t) => t.getTime()));
+      cycleTimes.push(days(new Date(start), at));
+    }
+
+    for (const [column, duration] of Object.entries(columnDurations(card, at))) {
+      if (column === done) continue;
+      (columnTimes[column] ??= []).push(duration);
+    }
+  }
+
+  const timeInColumn: Record<string, DurationSummary> = {};
+  for (const column of board.columns) {
+    if (column !== done) timeInColumn[column] = summarize(columnTimes[column] || []);
+  }
+
+  const firstWeek =
+    range.since ??
+    completed.reduce<Date | undefined>((min, { at }) => (!min || at < min ? at : min), undefined);
+  const throughput = firstWeek
+    ? weeksBetween(firstWeek, new Date(until.getTime() - 1)).map((week) => ({
+        week,
+        count: completed.filter(({ at }) => weekStart(at) === week).length,
+      }))
+    : [];
+
+  const byPriority = Object.fromEntries(
+    PRIORITIES.map((p) => [p, { open: 0, completed: 0 }])
+  ) as BoardStats['byPriority'];
+  const byLabel: BoardStats['byLabel'] = {};
+  const tally = (card: Card, key: 'open' | 'completed') => {
+    if (byPriority[card.priority]) byPriority[card.priority][key]++;
+    for (const label of card.labels) {
+      (byLabel[label] ??= { open: 0, completed: 0 })[key]++;
+    }
+  };
+  open.forEach((card) => tally(card, 'open'));
+  completed.forEach(({ card }) => tally(card, 'completed'));
+
+  return {
+    completed: completed.length,
+    open: open.length,
+    leadTime: summarize(leadTimes),
+    cycleTime: summarize(cycleTimes),
+    timeInColumn,
+    throughput,
+    byPriority,
+    byLabel,
+  };
+}
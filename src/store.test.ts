@@ -0,0 +1,141 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { addCard, loadBoard, moveCard, renameColumn, undo, withBoardContext } from './files.js';
+import { createDirectoryStore, createMemoryStore } from './store.js';
+import type { BoardStore } from './store.js';
+import { KanmdError } from './types.js';
+
+let dir: string;
+
+const backends: Array<[string, () => BoardStore]> = [
+  ['directory store', () => createDirectoryStore(dir)],
+  ['memory store', () => createMemoryStore()],
+];
+
+for (const [name, createStore] of backends) {
+  describe(name, () => {
+    let store: BoardStore;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kanmd-store-'));
+      store = createStore();
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    test('reads back what was written', async () => {
+      expect(await store.read('todo/a.md')).toBeNull();
+      await store.write('todo/a.md', 'one');
+      await store.write('todo/a.md', 'two');
+
+      expect(await store.read('todo/a.md')).toBe('two');
+      expect(await store.size('todo/a.md')).toBe(3);
+    });
+
+    test('create refuses to overwrite', async () => {
+      expect(await store.create('todo/a.md', 'one')).toBe(true);
+      expect(await store.create('todo/a.md', 'two')).toBe(false);
+      expect(await store.read('todo/a.md')).toBe('one');
+    });
+
+    test('appends to a file', async () => {
+      await store.append('log.jsonl', 'a\n');
+      await store.append('log.jsonl', 'b\n');
+      expect(await store.read('log.jsonl')).toBe('a\nb\n');
+    });
+
+    test('lists files and directories', async () => {
+      await store.createDir('done');
+      await store.write('todo/b.md', '');
+      await store.write('todo/a.md', '');
+      await store.write('board.yaml', '');
+
+      expect(await store.list('')).toEqual([
+        { name: 'board.yaml', directory: false },
+        { name: 'done', directory: true },
+        { name: 'todo', directory: true },
+      ]);
+      expect((await store.list('todo')).map((e) => e.name)).toEqual(['a.md', 'b.md']);
+      expect(await store.list('missing')).toEqual([]);
+    });
+
+    test('renames directories with their files', async () => {
+      await store.write('todo/a.md', 'a');
+      await store.rename('todo', 'backlog');
+
+      expect(await store.read('backlog/a.md')).toBe('a');
+      expect(await store.read('todo/a.md')).toBeNull();
+      expect(await store.list('todo')).toEqual([]);
+    });
+
+    test('removes only empty directories', async () => {
+      await store.write('todo/a.md', 'a');
+      expect(await store.removeDir('todo')).toBe(false);
+
+      await store.delete('todo/a.md');
+      await store.delete('todo/a.md');
+      expect(await store.removeDir('todo')).toBe(true);
+      expect(await store.removeDir('todo')).toBe(true);
+      expect((await store.list('')).map((e) => e.name)).not.toContain('todo');
+    });
+
+    test('rejects paths outside the board', async () => {
+      await expect(store.read('../elsewhere.md')).rejects.toMatchObject({
+        code: 'PATH_TRAVERSAL',
+      });
+      await expect(store.write('todo/../../x.md', '')).rejects.toMatchObject({
+        code: 'PATH_TRAVERSAL',
+      });
+    });
+
+    test('lock runs one holder at a time', async () => {
+      const order: string[] = [];
+      const hold = (id: string) =>
+        store.lock(
+          '.a.lock',
+          () => new KanmdError('locked', 'LOCKED'),
+          async () => {
+            order.push(`${id} start`);
+            await new Promise((resolve) => setTimeout(resolve, 30));
+            order.push(`${id} end`);
+          }
+        );
+
+      await Promise.all([hold('first'), hold('second')]);
+      // Either may get the lock first, but the second can't start until the first ends
+      const [winner, loser] =
+        order[0] === 'first start' ? ['first', 'second'] : ['second', 'first'];
+      expect(order).toEqual([`${winner} start`, `${winner} end`, `${loser} start`, `${loser} end`]);
+    });
+  });
+}
+
+describe('createMemoryStore', () => {
+  test('starts with the given files', async () => {
+    const store = createMemoryStore({ 'board.yaml': 'columns: []\n', 'todo/a.md': 'a' });
+    expect(await store.read('board.yaml')).toBe('columns: []\n');
+    expect((await store.list('')).map((e) => e.name)).toEqual(['board.yaml', 'todo']);
+  });
+});
+
+describe('board on a memory store', () => {
+  test('supports column changes and undo without touching the disk', async () => {
+    const store = createMemoryStore({ 'board.yaml': 'columns:\n  - todo\n  - done\n' });
+
+    await withBoardContext({ store, user: 'alice' }, async () => {
+      await addCard('todo', 'Task A');
+      await moveCard('task-a', 'done');
+      await undo();
+      await renameColumn('todo', 'backlog');
+
+      const board = await loadBoard();
+      expect(board.columns).toEqual(['backlog', 'done']);
+      expect(board.cards.map((c) => [c.id, c.column])).toEqual([['task-a', 'backlog']]);
+    });
+    expect(await fs.readdir(process.env.KANMD_DIR!).catch(() => [])).toEqual([]);
+  });
+});
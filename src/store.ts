@@ -0,0 +1,295 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { withFileLock, withMemoryLock } from './lock.js';
+import { KanmdError } from './types.js';
+
+export interface StoreEntry {
+  name: string;
+  directory: boolean;
+}
+
+/**
+ * Where a board's files live. Paths are relative to the board and use "/"
+ * (e.g. "board.yaml", "todo/my-task.md"); "" is the board itself. Paths that
+ * would leave the board fail with PATH_TRAVERSAL.
+ */
+export interface BoardStore {
+  /** The file's content, or null if it doesn't exist */
+  read(file: string): Promise<string | null>;
+  /** Entries directly inside `dir`, sorted by name; empty if it doesn't exist */
+  list(dir: string): Promise<StoreEntry[]>;
+  /** Replaces the file's content in one step, so readers never see half a write */
+  write(file: string, content: string): Promise<void>;
+  /** Writes a new file. Returns false, writing nothing, if it already exists. */
+  create(file: string, content: string): Promise<boolean>;
+  append(file: string, content: string): Promise<void>;
+  /** The file's size in bytes, or null if it doesn't exist */
+  size(file: string): Promise<number | null>;
+  /** Renames a file or a directory along with everything in it */
+  rename(from: string, to: string): Promise<void>;
+  /** Deletes a file; deleting one that doesn't exist does nothing */
+  delete(file: string): Promise<void>;
+  createDir(dir: string): Promise<void>;
+  /** Removes an empty directory. Returns false, removing nothing, if it isn't empty. */
+  removeDir(dir: string): Promise<boolean>;
+  /**
+   * Runs `fn` while holding the exclusive lock named `name`. Waiting too long
+   * throws the error built by `timeoutError`.
+   */
+  lock<T>(name: string, timeoutError: () => KanmdError, fn: () => Promise<T>): Promise<T>;
+}
+
+export interface DirectoryStore extends BoardStore {
+  /** Absolute path of the board directory */
+  readonly dir: string;
+}
+
+function invalidPath(): KanmdError {
+  return new KanmdError('Invalid path', 'PATH_TRAVERSAL');
+}
+
+function isErrorCode(err: unknown, ...codes: string[]): boolean {
+  return codes.includes((err as NodeJS.ErrnoException).code ?? '');
+}
+
+/**
+ * The board as a directory with one folder per column and one markdown file
+ * per card, as kanmd has always stored it.
+ */
+export function createDirectoryStore(dir: string): DirectoryStore {
+  const root = path.resolve(dir);
+
+  const resolve = (file: string): string => {
+    const target = path.resolve(root, file);
+    if (target !== root && !target.startsWith(root + path.sep)) throw invalidPath();
+    return target;
+  };
+
+  return {
+    dir: root,
+
+    async read(file) {
+      try {
+        return await fs.readFile(resolve(file), 'utf-8');
+      } catch (err) {
+        if (isErrorCode(err, 'ENOENT')) return null;
+        throw err;
+      }
+    },
+
+    async list(dir) {
+      try {
+        const entries = await fs.readdir(resolve(dir), { withFileTypes: true });
+        return entries
+          .map((entry) => ({ name: entry.name, directory: entry.isDirectory() }))
+          .sort((a, b) => a.name.localeCompare(b.name));
+      } catch (err) {
+        if (isErrorCode(err, 'ENOENT', 'ENOTDIR')) return [];
+        throw err;
+      }
+    },
+
+    async write(file, content) {
+      // Atomic write: write to temp file, then rename
+      const target = resolve(file);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target + '.tmp', content);
+      await fs.rename(target + '.tmp', target);
+    },
+
+    async create(file, content) {
+      const target = resolve(file);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      try {
+        // 'wx' fails if the file exists, so two writers can't both create it
+        await fs.writeFile(target, content, { flag: 'wx' });
+        return true;
+      } catch (err) {
+        if (isErrorCode(err, 'EEXIST')) return false;
+        throw err;
+      }
+    },
+
+    async append(file, content) {
+      const target = resolve(file);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.appendFile(target, content);
+    },
+
+    async size(file) {
+      try {
+        return (await fs.stat(resolve(file))).size;
+      } catch (err) {
+        if (isErrorCode(err, 'ENOENT')) return null;
+        throw err;
+      }
+    },
+
+    async rename(from, to) {
+      await fs.rename(resolve(from), resolve(to));
+    },
+
+    async delete(file) {
+      try {
+        await fs.unlink(resolve(file));
+      } catch (err) {
+        if (!isErrorCode(err, 'ENOENT')) throw err;
+      }
+    },
+
+    async createDir(dir) {
+      await fs.mkdir(resolve(dir), { recursive: true });
+    },
+
+    async removeDir(dir) {
+      try {
+        await fs.rmdir(resolve(dir));
+        return true;
+      } catch (err) {
+        if (isErrorCode(err, 'ENOTEMPTY', 'EEXIST')) return false;
+        if (isErrorCode(err, 'ENOENT')) return true;
+        throw err;
+      }
+    },
+
+    async lock(name, timeoutError, fn) {
+      return withFileLock(resolve(name), timeoutError, fn);
+    },
+  };
+}
+
+/** Normalizes a board-relative path, e.g. "./todo//a.md" to "todo/a.md" */
+function normalizePath(file: string): string {
+  const normalized = path.posix.normalize(file.replace(/\\/g, '/'));
+  if (normalized === '.') return '';
+  if (path.posix.isAbsolute(normalized) || normalized.split('/')[0] === '..') throw invalidPath();
+  return normalized.replace(/\/$/, '');
+}
+
+function parentDir(file: string): string {
+  const parent = path.posix.dirname(file);
+  return parent === '.' ? '' : parent;
+}
+
+/**
+ * A board held in memory, for tests and for embedders that don't want files
+ * on disk. `files` seeds it, e.g. `{ 'board.yaml': 'columns:\n  - todo\n' }`.
+ * Locks only hold within this process.
+ */
+export function createMemoryStore(files: Record<string, string> = {}): BoardStore {
+  const contents = new Map<string, string>();
+  const dirs = new Set<string>(['']);
+  const held = new Set<string>();
+
+  const addParents = (file: string) => {
+    for (let dir = parentDir(file); !dirs.has(dir); dir = parentDir(dir)) {
+      dirs.add(dir);
+    }
+  };
+  const isInside = (file: string, dir: string) => dir === '' || file.startsWith(dir + '/');
+
+  for (const [file, content] of Object.entries(files)) {
+    const normalized = normalizePath(file);
+    addParents(normalized);
+    contents.set(normalized, content);
+  }
+
+  return {
+    async read(file) {
+      return contents.get(normalizePath(file)) ?? null;
+    },
+
+    async list(dir) {
+      const normalized = normalizePath(dir);
+      if (!dirs.has(normalized)) return [];
+
+      const entries: StoreEntry[] = [];
+      for (const child of dirs) {
+        if (child !== '' && child !== normalized && parentDir(child) === normalized) {
+          entries.push({ name: path.posix.basename(child), directory: true });
+        }
+      }
+      for (const file of contents.keys()) {
+        if (parentDir(file) === normalized) {
+          entries.push({ name: path.posix.basename(file), directory: false });
+        }
+      }
+      return entries.sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async write(file, content) {
+      const normalized = normalizePath(file);
+      addParents(normalized);
+      contents.set(normalized, content);
+    },
+
+    async create(file, content) {
+      const normalized = normalizePath(file);
+      if (contents.has(normalized)) return false;
+      addParents(normalized);
+      contents.set(normalized, content);
+      return true;
+    },
+
+    async append(file, content) {
+      const normalized = normalizePath(file);
+      addParents(normalized);
+      contents.set(normalized, (contents.get(normalized) ?? '') + content);
+    },
+
+    async size(file) {
+      const content = contents.get(normalizePath(file));
+      return content === undefined ? null : Buffer.byteLength(content);
+    },
+
+    async rename(from, to) {
+      const source = normalizePath(from);
+      const target = normalizePath(to);
+
+      if (contents.has(source)) {
+        addParents(target);
+        contents.set(target, contents.get(source)!);
+        contents.delete(source);
+        return;
+      }
+      if (source === '' || !dirs.has(source)) {
+        throw new KanmdError(`"${from}" does not exist`, 'FILE_NOT_FOUND');
+      }
+
+      const moved = (file: string) => target + file.slice(source.length);
+      for (const dir of [...dirs].filter((d) => d === source || isInside(d, source))) {
+        dirs.delete(dir);
+        dirs.add(moved(dir));
+      }
+      for (const [file, content] of [...contents].filter(([f]) => isInside(f, source))) {
+        contents.delete(file);
+        contents.set(moved(file), content);
+      }
+      addParents(target);
+    },
+
+    async delete(file) {
+      contents.delete(normalizePath(file));
+    },
+
+    async createDir(dir) {
+      const normalized = normalizePath(dir);
+      addParents(normalized);
+      dirs.add(normalized);
+    },
+
+    async removeDir(dir) {
+      const normalized = normalizePath(dir);
+      const children = [...dirs, ...contents.keys()];
+      if (children.some((child) => child !== normalized && isInside(child, normalized))) {
+        return false;
+      }
+      dirs.delete(normalized);
+      return true;
+    },
+
+    async lock(name, timeoutError, fn) {
+      return withMemoryLock(held, normalizePath(name), timeoutError, fn);
+    },
+  };
+}
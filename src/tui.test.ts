@@ -0,0 +1,163 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import { addCard, checklistAdd, getCard, loadBoard, setColumnWip } from './files.js';
+import {
+  applyAction,
+  initialState,
+  keyAction,
+  renderScreen,
+  selectedCard,
+  withBoard,
+} from './tui.js';
+import type { UiState } from './tui.js';
+
+const KANBAN_DIR = process.env.KANMD_DIR!;
+
+async function setupTestBoard(): Promise<void> {
+  await fs.rm(KANBAN_DIR, { recursive: true, force: true });
+  await fs.mkdir(KANBAN_DIR, { recursive: true });
+  await fs.writeFile(
+    path.join(KANBAN_DIR, 'board.yaml'),
+    'columns:\n  - todo\n  - doing\n  - done\n'
+  );
+  await addCard('todo', 'Task A', 'high');
+  await addCard('todo', 'Task B');
+  await addCard('doing', 'Task C');
+}
+
+async function cleanupTestBoard(): Promise<void> {
+  await fs.rm(KANBAN_DIR, { recursive: true, force: true });
+}
+
+const stripAnsi = (text: string) => text.replace(/\x1b\[[0-9;?]*[a-zA-Z]/g, '');
+
+describe('keyAction', () => {
+  test('maps arrows and hjkl to navigation', () => {
+    expect(keyAction('\x1b[C', false)).toEqual({ type: 'select-column', delta: 1 });
+    expect(keyAction('h', false)).toEqual({ type: 'select-column', delta: -1 });
+    expect(keyAction('j', false)).toEqual({ type: 'select-card', delta: 1 });
+    expect(keyAction('\x1b[A', false)).toEqual({ type: 'select-card', delta: -1 });
+  });
+
+  test('up and down walk the checklist while the detail pane is open', () => {
+    expect(keyAction('j', true)).toEqual({ type: 'select-item', delta: 1 });
+    expect(keyAction(' ', true)).toEqual({ type: 'toggle-item' });
+    expect(keyAction(' ', false)).toBeUndefined();
+  });
+
+  test('maps editing keys', () => {
+    expect(keyAction('L', false)).toEqual({ type: 'move', delta: 1 });
+    expect(keyAction('+', false)).toEqual({ type: 'priority', delta: -1 });
+    expect(keyAction('J', false)).toEqual({ type: 'rank', delta: 1 });
+    expect(keyAction('\x03', false)).toEqual({ type: 'quit' });
+  });
+});
+
+describe('ui state', () => {
+  let state: UiState;
+
+  beforeEach(async () => {
+    await setupTestBoard();
+    state = initialState(await loadBoard());
+  });
+  afterEach(cleanupTestBoard);
+
+  test('starts on the first card of the first column', () => {
+    expect(selectedCard(state)?.id).toBe('task-a');
+  });
+
+  test('keeps the selection in bounds', async () => {
+    state = await applyAction(state, { type: 'select-card', delta: 5 });
+    expect(selectedCard(state)?.id).toBe('task-b');
+    state = await applyAction(state, { type: 'select-column', delta: -1 });
+    expect(state.column).toBe(0);
+  });
+
+  test('moving a card follows it to the next column', async () => {
+    state = await applyAction(state, { type: 'move', delta: 1 });
+
+    expect((await getCard('task-a')).column).toBe('doing');
+    expect(selectedCard(state)?.id).toBe('task-a');
+    expect(state.message).toEqual({ text: 'Moved task-a to Doing', error: false });
+  });
+
+  test('shows write errors in the status line', async () => {
+    await setColumnWip('doing', 1);
+    state = await applyAction(state, { type: 'move', delta: 1 });
+
+    expect(state.message?.error).toBe(true);
+    expect((await getCard('task-a')).column).toBe('todo');
+  });
+
+  test('changes priority and rank', async () => {
+    state = await applyAction(state, { type: 'select-card', delta: 1 });
+    state = await applyAction(state, { type: 'priority', delta: -1 });
+    expect((await getCard('task-b')).priority).toBe('high');
+
+    state = await applyAction(state, { type: 'rank', delta: -1 });
+    expect(state.board.cards.find((c) => c.id === 'task-b')?.rank).toBe(1);
+    expect(selectedCard(state)?.id).toBe('task-b');
+  });
+
+  test('toggles checklist items from the detail pane', async () => {
+    await checklistAdd('task-a', 'Step one');
+    await checklistAdd('task-a', 'Step two');
+    state = withBoard(state, await loadBoard());
+
+    state = await applyAction(state, { type: 'toggle-detail' });
+    state = await applyAction(state, { type: 'select-item', delta: 1 });
+    state = await applyAction(state, { type: 'toggle-item' });
+
+    const card = await getCard('task-a');
+    expect(card.checklist.map((i) => i.checked)).toEqual([false, true]);
+  });
+
+  test('a card changed on disk keeps its selection', async () => {
+    state = await applyAction(state, { type: 'select-card', delta: 1 });
+    const board = await loadBoard();
+    board.cards.find((c) => c.id === 'task-b')!.priority = 'high';
+    board.cards.find((c) => c.id === 'task-b')!.created = '2000-01-01T00:00:00.000Z';
+
+    state = withBoard(state, board);
+    expect(selectedCard(state)?.id).toBe('task-b');
+    expect(state.card).toBe(0);
+  });
+});
+
+describe('renderScreen', () => {
+  beforeEach(setupTestBoard);
+  afterEach(cleanupTestBoard);
+
+  test('draws columns side by side at the requested size', async () => {
+    const lines = renderScreen(initialState(await loadBoard()), 60, 10).map(stripAnsi);
+
+    expect(lines).toHaveLength(10);
+    expect(lines[1]).toContain('Todo (2)');
+    expect(lines[1]).toContain('Doing (1)');
+    expect(lines[3]).toContain('Task A');
+    expect(lines[3]).toContain('Task C');
+    expect(lines.slice(1, 8).every((l) => l.length === 60)).toBe(true);
+  });
+
+  test('scrolls a long column to keep the selection in view', async () => {
+    for (const n of [1, 2, 3, 4]) await addCard('todo', `Extra ${n}`, 'low');
+    let state = initialState(await loadBoard());
+    for (let i = 0; i < 5; i++) state = await applyAction(state, { type: 'select-card', delta: 1 });
+
+    const lines = renderScreen(state, 60, 8).map(stripAnsi);
+    expect(selectedCard(state)?.id).toBe('extra-4');
+    expect(lines.some((l) => l.includes('Extra 4'))).toBe(true);
+    expect(lines.some((l) => l.includes('… 4 more'))).toBe(true);
+  });
+
+  test('shows the detail pane for the selected card', async () => {
+    await checklistAdd('task-a', 'Write tests');
+    let state = initialState(await loadBoard());
+    state = await applyAction(state, { type: 'toggle-detail' });
+
+    const screen = renderScreen(state, 100, 12).map(stripAnsi).join('\n');
+    expect(screen).toContain('Priority: high');
+    expect(screen).toContain('[ ] Write tests');
+  });
+});
@@ -0,0 +1,421 @@
+import { checklistToggle, editCard, loadBoard, moveCard, rankCard, undo } from './files.js';
+import {
+  checklistProgress,
+  colors,
+  fit,
+  formatColumnName,
+  priorityColors,
+  sortCards,
+  wrap,
+} from './render.js';
+import { KanmdError, PRIORITIES } from './types.js';
+import type { Board, Card } from './types.js';
+
+const ENTER_SCREEN = '\x1b[?1049h\x1b[?25l';
+const LEAVE_SCREEN = '\x1b[?25h\x1b[?1049l';
+const CURSOR_HOME = '\x1b[H';
+const CLEAR_LINE = '\x1b[K';
+const POLL_INTERVAL_MS = 1000;
+const DETAIL_MAX_WIDTH = 50;
+
+const HELP =
+  '←→/hl column  ↑↓/jk card  H/L move  +/- priority  K/J rank  ⏎ details  space toggle  u undo  q quit';
+
+export interface UiState {
+  board: Board;
+  /** Index of the selected column */
+  column: number;
+  /** Index of the selected card within the column's sorted cards */
+  card: number;
+  /** Selected checklist item while the detail pane is open */
+  item: number;
+  detail: boolean;
+  message?: { text: string; error: boolean };
+}
+
+export type UiAction =
+  | { type: 'select-column'; delta: number }
+  | { type: 'select-card'; delta: number }
+  | { type: 'select-item'; delta: number }
+  | { type: 'move'; delta: number }
+  | { type: 'priority'; delta: number }
+  | { type: 'rank'; delta: number }
+  | { type: 'toggle-detail' }
+  | { type: 'close-detail' }
+  | { type: 'toggle-item' }
+  | { type: 'undo' }
+  | { type: 'quit' };
+
+/**
+ * Maps a keypress (raw terminal input) to an action. Up and down move through
+ * the checklist instead of the column while the detail pane is open.
+ */
+export function keyAction(key: string, detail: boolean): UiAction | undefined {
+  const vertical = detail ? 'select-item' : 'select-card';
+  switch (key) {
+    case '\x1b[D':
+    case 'h':
+      return { type: 'select-column', delta: -1 };
+    case '\x1b[C':
+    case 'l':
+      return { type: 'select-column', delta: 1 };
+    case '\x1b[A':
+    case 'k':
+      return { type: vertical, delta: -1 };
+    case '\x1b[B':
+    case 'j':
+      return { type: vertical, delta: 1 };
+    case 'H':
+    case '<':
+      return { type: 'move', delta: -1 };
+    case 'L':
+    case '>':
+      return { type: 'move', delta: 1 };
+    case '+':
+    case '=':
+      return { type: 'priority', delta: -1 };
+    case '-':
+      return { type: 'priority', delta: 1 };
+    case 'K':
+      return { type: 'rank', delta: -1 };
+    case 'J':
+      return { type: 'rank', delta: 1 };
+    case '\r':
+    case '\n':
+      return { type: 'toggle-detail' };
+    case '\x1b':
+      return detail ? { type: 'close-detail' } : undefined;
+    case ' ':
+    case 'x':
+      return detail ? { type: 'toggle-item' } : undefined;
+    case 'u':
+      return { type: 'undo' };
+    case 'q':
+    case '\x03':
+      return { type: 'quit' };
+    default:
+      return undefined;
+  }
+}
+
+export function columnCards(board: Board, column: string): Card[] {
+  return sortCards(board.cards.filter((c) => c.column === column));
+}
+
+export function selectedCard(state: UiState): Card | undefined {
+  const column = state.board.columns[state.column];
+  return column === undefined ? undefined : columnCards(state.board, column)[state.card];
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Keeps the selection within bounds, e.g. after a card leaves the column.
+ */
+function clampSelection(state: UiState): UiState {
+  const column = clamp(state.column, 0, Math.max(state.board.columns.length - 1, 0));
+  const cards = columnCards(state.board, state.board.columns[column] ?? '');
+  const card = clamp(state.card, 0, Math.max(cards.length - 1, 0));
+  const items = cards[card]?.checklist.length ?? 0;
+  const item = clamp(state.item, 0, Math.max(items - 1, 0));
+  return { ...state, column, card, item, detail: state.detail && cards.length > 0 };
+}
+
+export function initialState(board: Board): UiState {
+  return clampSelection({ board, column: 0, card: 0, item: 0, detail: false });
+}
+
+/**
+ * Swaps in a freshly loaded board, keeping the same card selected (following
+ * it to another column or position) when it still exists.
+ */
+export function withBoard(state: UiState, board: Board, cardId = selectedCard(state)?.id): UiState {
+  const card = cardId ? board.cards.find((c) => c.id === cardId) : undefined;
+  if (!card) return clampSelection({ ...state, board });
+
+  const column = board.columns.indexOf(card.column);
+  const index = columnCards(board, card.column).findIndex((c) => c.id === card.id);
+  return clampSelection({ ...state, board, column, card: index });
+}
+
+/**
+ * Applies an action, writing through files.ts. Errors such as a WIP limit or
+ * a blocked move are shown in the status line rather than ending the session.
+ */
+export async function applyAction(state: UiState, action: UiAction): Promise<UiState> {
+  const next = { ...state, message: undefined };
+  const card = selectedCard(state);
+
+  switch (action.type) {
+    case 'select-column':
+      return clampSelection({ ...next, column: state.column + action.delta, card: 0, item: 0 });
+    case 'select-card':
+      return clampSelection({ ...next, card: state.card + action.delta, item: 0 });
+    case 'select-item':
+      return clampSelection({ ...next, item: state.item + action.delta });
+    case 'toggle-detail':
+      return clampSelection({ ...next, detail: !state.detail, item: 0 });
+    case 'close-detail':
+      return { ...next, detail: false };
+    case 'quit':
+      return next;
+  }
+
+  try {
+    const message = await write(state, action, card);
+    if (message === undefined) return next;
+    return {
+      ...withBoard(next, await loadBoard(), card?.id),
+      message: { text: message, error: false },
+    };
+  } catch (err) {
+    if (!(err instanceof KanmdError)) throw err;
+    return { ...next, message: { text: err.message, error: true } };
+  }
+}
+
+/**
+ * Performs the write for an action. Returns a status message, or undefined
+ * when there was nothing to do (e.g. moving left from the first column).
+ */
+async function write(
+  state: UiState,
+  action: UiAction,
+  card: Card | undefined
+): Promise<string | undefined> {
+  if (action.type === 'undo') {
+    const [operation] = await undo();
+    return `Undid ${operation.action} of ${operation.card}`;
+  }
+  if (!card) return undefined;
+
+  switch (action.type) {
+    case 'move': {
+      const target = state.board.columns[state.column + action.delta];
+      if (target === undefined) return undefined;
+      await moveCard(card.id, target);
+      return `Moved ${card.id} to ${formatColumnName(target)}`;
+    }
+    case 'priority': {
+      const priority = PRIORITIES[PRIORITIES.indexOf(card.priority) + action.delta];
+      if (priority === undefined) return undefined;
+      await editCard(card.id, { priority, rank: undefined });
+      return `Set ${card.id} priority to ${priority}`;
+    }
+    case 'rank': {
+      // Ranks are positions within the card's priority group
+      const group = columnCards(state.board, card.column).filter(
+        (c) => c.priority === card.priority
+      );
+      const position = group.findIndex((c) => c.id === card.id) + 1 + action.delta;
+      if (position < 1 || position > group.length) return undefined;
+      await rankCard(card.id, position);
+      return `Ranked ${card.id} at ${position}`;
+    }
+    case 'toggle-item': {
+      const item = card.checklist[state.item];
+      if (!item) return undefined;
+      await checklistToggle(card.id, state.item + 1);
+      return `${item.checked ? 'Unchecked' : 'Checked'} "${item.text}"`;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function renderCardCell(card: Card, width: number, selected: boolean): string {
+  if (width < 3) return fit('●', width);
+
+  // Drop the checklist count before squeezing the title to nothing
+  const progress = checklistProgress(card);
+  const suffix = progress && width - 2 - progress.length > 4 ? ` ${progress}` : '';
+  const title = fit(card.title, width - 2 - suffix.length);
+
+  if (selected) {
+    return `${colors.inverse}● ${title}${suffix}${colors.reset}`;
+  }
+  const dot = `${priorityColors[card.priority]}●${colors.reset}`;
+  return `${dot} ${title}${colors.dim}${suffix}${colors.reset}`;
+}
+
+/**
+ * Columns side by side, each `height` rows tall including its header. The
+ * selected column scrolls to keep the selected card in view.
+ */
+function renderColumns(state: UiState, width: number, height: number): string[] {
+  const { board } = state;
+  const count = Math.max(board.columns.length, 1);
+  const base = Math.max(Math.floor((width - (count - 1)) / count), 1);
+  // Spread the leftover characters over the first columns so the rows fill the width
+  const extra = Math.max(width - (count - 1) - base * count, 0);
+  const cardRows = Math.max(height - 2, 0);
+
+  const cells = board.columns.map((column, index) => {
+    const columnWidth = base + (index < extra ? 1 : 0);
+    const cards = columnCards(board, column);
+    const active = index === state.column;
+    const limit = board.columnSettings[column]?.wip;
+    const counter = limit !== undefined ? `${cards.length}/${limit}` : `${cards.length}`;
+    const headerColor =
+      limit !== undefined && cards.length > limit ? colors.red : active ? colors.cyan : '';
+
+    const lines = [
+      `${colors.bold}${headerColor}${fit(`${formatColumnName(column)} (${counter})`, columnWidth)}${colors.reset}`,
+      `${colors.dim}${'─'.repeat(columnWidth)}${colors.reset}`,
+    ];
+
+    // When the column overflows, the last row says how many cards are out of view
+    const overflow = cards.length > cardRows;
+    const slots = overflow ? Math.max(cardRows - 1, 0) : cardRows;
+    const offset = active ? Math.max(0, state.card - slots + 1) : 0;
+    const visible = cards.slice(offset, offset + slots);
+    visible.forEach((card, i) => {
+      lines.push(renderCardCell(card, columnWidth, active && offset + i === state.card));
+    });
+    if (overflow && cardRows > 0) {
+      const hidden = `… ${cards.length - visible.length} more`;
+      lines.push(`${colors.dim}${fit(hidden, columnWidth)}${colors.reset}`);
+    }
+    while (lines.length < height) lines.push(' '.repeat(columnWidth));
+    return lines;
+  });
+
+  const separator = `${colors.dim}│${colors.reset}`;
+  return Array.from({ length: height }, (_, row) =>
+    cells.map((lines) => lines[row]).join(separator)
+  );
+}
+
+function renderDetail(state: UiState, width: number, height: number): string[] {
+  const card = selectedCard(state);
+  if (!card) return [];
+
+  const lines: string[] = [
+    `${colors.bold}${fit(card.title, width)}${colors.reset}`,
+    `${colors.dim}${fit(`${card.id} · ${formatColumnName(card.column)}`, width)}${colors.reset}`,
+    `${priorityColors[card.priority]}${fit(`Priority: ${card.priority}`, width)}${colors.reset}`,
+  ];
+  if (card.labels.length > 0) lines.push(fit(`Labels: ${card.labels.join(', ')}`, width));
+  if (card.assignees) lines.push(fit(`Assignee: ${card.assignees.join(', ')}`, width));
+  if (card.due) lines.push(fit(`Due: ${card.due}`, width));
+  if (card.blockedBy) lines.push(fit(`Blocked by: ${card.blockedBy.join(', ')}`, width));
+
+  if (card.description) {
+    lines.push(fit('', width));
+    lines.push(...wrap(card.description, width).map((line) => fit(line, width)));
+  }
+  if (card.checklist.length > 0) {
+    lines.push(fit('', width));
+    lines.push(
+      `${colors.bold}${fit(`Checklist (${checklistProgress(card)})`, width)}${colors.reset}`
+    );
+    card.checklist.forEach((item, i) => {
+      const text = fit(`[${item.checked ? 'x' : ' '}] ${item.text}`, width);
+      lines.push(i === state.item ? `${colors.inverse}${text}${colors.reset}` : text);
+    });
+  }
+
+  while (lines.length < height) lines.push(' '.repeat(width));
+  return lines.slice(0, height);
+}
+
+/**
+ * Draws the whole screen as `height` lines: a header, the board (with the
+ * detail pane on the right when open), a status line and the key help.
+ */
+export function renderScreen(state: UiState, width: number, height: number): string[] {
+  const bodyHeight = Math.max(height - 3, 1);
+  const detailWidth = state.detail ? Math.min(DETAIL_MAX_WIDTH, Math.floor(width * 0.4)) : 0;
+  const boardWidth = state.detail ? width - detailWidth - 3 : width;
+
+  const total = state.board.cards.length;
+  const header = `${colors.bold}kanmd${colors.reset} ${colors.dim}${total} card${total === 1 ? '' : 's'}${colors.reset}`;
+
+  let body = renderColumns(state, boardWidth, bodyHeight);
+  if (state.detail) {
+    const detail = renderDetail(state, detailWidth, bodyHeight);
+    body = body.map((line, i) => `${line} ${colors.dim}│${colors.reset} ${detail[i] ?? ''}`);
+  }
+
+  const message = state.message;
+  const status = message
+    ? `${message.error ? colors.red : colors.green}${fit(message.text, width)}${colors.reset}`
+    : '';
+
+  return [header, ...body, status, `${colors.dim}${fit(HELP, width)}${colors.reset}`];
+}
+
+/**
+ * Opens the full-screen board. Runs until the user quits, re-reading the
+ * board every second so changes made elsewhere show up.
+ */
+export async function runUi(): Promise<void> {
+  const { stdin, stdout } = process;
+  if (!stdin.isTTY || !stdout.isTTY) {
+    throw new KanmdError('kanmd ui needs an interactive terminal', 'NOT_A_TTY');
+  }
+
+  let state = initialState(await loadBoard());
+  let lastBoard = JSON.stringify(state.board);
+  let queue = Promise.resolve();
+
+  const draw = () => {
+    const lines = renderScreen(state, stdout.columns || 80, stdout.rows || 24);
+    stdout.write(CURSOR_HOME + lines.map((line) => line + CLEAR_LINE).join('\r\n'));
+  };
+
+  stdout.write(ENTER_SCREEN);
+  stdin.setRawMode(true);
+  stdin.resume();
+  draw();
+
+  await new Promise<void>((resolve, reject) => {
+    const refresh = setInterval(() => {
+      queue = queue.then(async () => {
+        try {
+          const board = await loadBoard();
+          const snapshot = JSON.stringify(board);
+          if (snapshot === lastBoard) return;
+          lastBoard = snapshot;
+          state = withBoard(state, board);
+        } catch (err) {
+          // e.g. a card file caught half-written by an editor; try again next time
+          state = { ...state, message: { text: (err as Error).message, error: true } };
+        }
+        draw();
+      });
+    }, POLL_INTERVAL_MS);
+
+    const finish = (err?: unknown) => {
+      clearInterval(refresh);
+      stdin.off('data', onKey);
+      stdout.off('resize', draw);
+      stdin.setRawMode(false);
+      stdin.pause();
+      stdout.write(LEAVE_SCREEN);
+      if (err) reject(err);
+      else resolve();
+    };
+
+    const onKey = (data: Buffer) => {
+      const action = keyAction(data.toString(), state.detail);
+      if (!action) return;
+      if (action.type === 'quit') {
+        finish();
+        return;
+      }
+      queue = queue
+        .then(async () => {
+          state = await applyAction(state, action);
+          lastBoard = JSON.stringify(state.board);
+          draw();
+        })
+        .catch(finish);
+    };
+
+    stdin.on('data', onKey);
+    stdout.on('resize', draw);
+  });
+}
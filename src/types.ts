@@ -3,6 +3,22 @@ export interface ChecklistItem {
   checked: boolean;
 }
 
+/** A line in a card's Checklist section that isn't an item, e.g. a note under one */
+export interface ChecklistNote {
+  /** How many checklist items come before the line */
+  after: number;
+  text: string;
+}
+
+/**
+ * A markdown section kanmd doesn't manage itself (anything other than
+ * Description and Checklist). Kept verbatim so hand edits survive rewrites.
+ */
+export interface CardSection {
+  heading: string;
+  body: string;
+}
+
 export const PRIORITIES = ['high', 'medium', 'low'] as const;
 export type Priority = (typeof PRIORITIES)[number];
 
@@ -10,6 +26,13 @@ export function isValidPriority(value: string): value is Priority {
   return PRIORITIES.includes(value as Priority);
 }
 
+/** A time-limited claim on a card so parallel workers don't pick the same one */
+export interface Lease {
+  owner: string;
+  /** ISO timestamp after which the lease no longer counts */
+  expires: string;
+}
+
 export interface Card {
   id: string;
   title: string;
@@ -21,17 +44,87 @@ export interface Card {
   checklist: ChecklistItem[];
   column: string;
   rank?: number;
+  /** People or agent sessions working on the card */
+  assignees?: string[];
+  lease?: Lease;
+  /** Due date as YYYY-MM-DD */
+  due?: string;
+  /** IDs of cards that must be done before this one */
+  blockedBy?: string[];
+  /** ID of the parent card (e.g. an epic) */
+  parent?: string;
+  /** When the card last entered each column, as ISO timestamps keyed by column */
+  entered?: Record<string, string>;
+  /** Hash of the card file as it was read; changes whenever the file does */
+  revision?: string;
+  extraFrontmatter?: Record<string, unknown>;
+  extraSections?: CardSection[];
+  /** Text between the title and the first section, kept as written */
+  preamble?: string;
+  /** Lines in the Checklist section that aren't items, kept where they were */
+  checklistNotes?: ChecklistNote[];
+  /**
+   * Section headings in file order ("Description" and "Checklist" included),
+   * set only when the card doesn't use the usual order
+   */
+  sectionOrder?: string[];
+}
+
+/**
+ * Per-column settings from board.yaml.
+ */
+export const GATES = ['description', 'checklist-complete', 'labels'] as const;
+export type Gate = (typeof GATES)[number];
+
+export interface ColumnSettings {
+  /** Maximum number of cards allowed in the column */
+  wip?: number;
+  /** Conditions a card must meet to be moved into the column */
+  requires?: Gate[];
+}
+
+export interface MutationOptions {
+  /** Only apply the change if the card is still at this revision */
+  ifRevision?: string;
+}
+
+export interface PlacementOptions {
+  /** Skip the target column's WIP limit */
+  force?: boolean;
+  /**
+   * Skip transition rules, entry gates and open blockers. Kept apart from
+   * `force` so getting past a full column doesn't also get past the workflow.
+   */
+  skipWorkflow?: boolean;
 }
 
 export interface Board {
   columns: string[];
+  columnSettings: Record<string, ColumnSettings>;
+  /** Allowed moves per column; undefined when any move is allowed */
+  transitions?: Record<string, string[]>;
   cards: Card[];
+  /** Directories with cards that board.yaml doesn't list */
+  orphanedColumns: string[];
+  /** Card files that can't be parsed, left out of `cards` so the rest of the board still loads */
+  invalidCards: InvalidCard[];
+}
+
+export interface InvalidCard {
+  id: string;
+  column: string;
+  /** Why the file can't be parsed, with its path and line */
+  error: string;
+  /** The file as it is on disk */
+  content: string;
+  revision: string;
 }
 
 export class KanmdError extends Error {
   constructor(
     message: string,
-    public code: string
+    public code: string,
+    public details?: Record<string, unknown>
   ) {
     super(message);
     this.name = 'KanmdError';
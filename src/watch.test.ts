@@ -0,0 +1,277 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  addCard,
+  addColumn,
+  deleteCard,
+  editCard,
+  loadBoard,
+  moveCard,
+  setColumnWip,
+} from './files.js';
+import type { Board, Card } from './types.js';
+import { changedCards, describeEvent, diffBoards, watchBoardChanges } from './watch.js';
+import type { BoardEvent } from './watch.js';
+
+const KANBAN_DIR = process.env.KANMD_DIR!;
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+const stripAnsi = (text: string) => text.replace(/\x1b\[[0-9;?]*[a-zA-Z]/g, '');
+
+function card(id: string, column: string, extra: Partial<Card> = {}): Card {
+  return {
+    id,
+    title: id,
+    column,
+    priority: 'medium',
+    labels: [],
+    created: '',
+    updated: '',
+    description: '',
+    checklist: [],
+    revision: `${id}-1`,
+    ...extra,
+  };
+}
+
+function board(cards: Card[], overrides: Partial<Board> = {}): Board {
+  return {
+    columns: ['todo', 'doing', 'done'],
+    columnSettings: {},
+    cards,
+    orphanedColumns: [],
+    invalidCards: [],
+    ...overrides,
+  };
+}
+
+describe('diffBoards', () => {
+  test('reports added, moved, updated and deleted cards', () => {
+    const before = board([card('a', 'todo'), card('b', 'todo'), card('c', 'doing')]);
+    const after = board([
+      card('a', 'doing', { revision: 'a-2', updated: 'later', entered: { doing: 'later' } }),
+      card('b', 'todo', { revision: 'b-2', title: 'B', labels: ['x'] }),
+      card('d', 'todo'),
+    ]);
+
+    expect(diffBoards(before, after, NOW)).toEqual([
+      {
+        type: 'card_moved',
+        time: NOW.toISOString(),
+        card: 'a',
+        title: 'a',
+        from: 'todo',
+        to: 'doing',
+      },
+      {
+        type: 'card_updated',
+        time: NOW.toISOString(),
+        card: 'b',
+        title: 'B',
+        column: 'todo',
+        fields: ['labels', 'title'],
+      },
+      { type: 'card_added', time: NOW.toISOString(), card: 'd', title: 'd', column: 'todo' },
+      { type: 'card_deleted', time: NOW.toISOString(), card: 'c', title: 'c', column: 'doing' },
+    ]);
+  });
+
+  test('reports a move and an edit together, but not the rank a move clears', () => {
+    const before = board([card('a', 'todo', { rank: 1 })]);
+    const moved = board([card('a', 'doing', { revision: 'a-2' })]);
+    const movedAndEdited = board([card('a', 'doing', { revision: 'a-2', priority: 'high' })]);
+
+    expect(diffBoards(before, moved, NOW).map((e) => e.type)).toEqual(['card_moved']);
+    expect(diffBoards(before, movedAndEdited, NOW).map((e) => e.type)).toEqual([
+      'card_moved',
+      'card_updated',
+    ]);
+  });
+
+  test('skips cards whose revision is unchanged', () => {
+    const before = board([card('a', 'todo')]);
+    expect(diffBoards(before, board([card('a', 'todo')]), NOW)).toEqual([]);
+  });
+
+  test('reports changes to the columns and their settings', () => {
+    const before = board([card('a', 'todo')]);
+    const reordered = board([card('a', 'todo')], { columns: ['todo', 'review', 'doing', 'done'] });
+    const limited = board([card('a', 'todo')], {
+      columnSettings: { doing: { wip: 2 } },
+      transitions: [['todo', 'doing', 'done']],
+    });
+
+    expect(diffBoards(before, reordered, NOW)).toEqual([
+      {
+        type: 'board_updated',
+        time: NOW.toISOString(),
+        columns: ['todo', 'review', 'doing', 'done'],
+        fields: ['columns'],
+      },
+    ]);
+    expect(diffBoards(before, limited, NOW)).toEqual([
+      {
+        type: 'board_updated',
+        time: NOW.toISOString(),
+        columns: ['todo', 'doing', 'done'],
+        fields: ['wip', 'transitions'],
+      },
+    ]);
+    expect(diffBoards(limited, limited, NOW)).toEqual([]);
+  });
+
+  test('reports a renamed column before the moves it causes', () => {
+    const before = board([card('a', 'doing')]);
+    const after = board([card('a', 'active', { revision: 'a-2' })], {
+      columns: ['todo', 'active', 'done'],
+    });
+
+    expect(diffBoards(before, after, NOW).map((e) => e.type)).toEqual([
+      'board_updated',
+      'card_moved',
+    ]);
+  });
+});
+
+describe('changedCards', () => {
+  test('keeps the most telling change for each card and skips deletions and board changes', () => {
+    const time = NOW.toISOString();
+    const events: BoardEvent[] = [
+      { type: 'card_moved', time, card: 'a', title: 'a', from: 'todo', to: 'doing' },
+      { type: 'card_updated', time, card: 'a', title: 'a', column: 'doing', fields: ['title'] },
+      { type: 'card_updated', time, card: 'b', title: 'b', column: 'todo', fields: ['labels'] },
+      { type: 'card_deleted', time, card: 'c', title: 'c', column: 'todo' },
+      { type: 'board_updated', time, columns: ['todo', 'doing'], fields: ['columns'] },
+    ];
+
+    expect(changedCards(events)).toEqual(
+      new Map([
+        ['a', 'moved'],
+        ['b', 'updated'],
+      ])
+    );
+  });
+});
+
+describe('describeEvent', () => {
+  test('summarizes each kind of change', () => {
+    const time = NOW.toISOString();
+    expect(
+      stripAnsi(
+        describeEvent({
+          type: 'card_moved',
+          time,
+          card: 'a',
+          title: 'a',
+          from: 'todo',
+          to: 'doing',
+        })
+      )
+    ).toBe('→ a moved todo → doing');
+    expect(
+      stripAnsi(
+        describeEvent({
+          type: 'card_updated',
+          time,
+          card: 'a',
+          title: 'a',
+          column: 'doing',
+          fields: ['due', 'title'],
+        })
+      )
+    ).toBe('~ a edited (due, title)');
+    expect(
+      stripAnsi(
+        describeEvent({
+          type: 'board_updated',
+          time,
+          columns: ['todo', 'doing'],
+          fields: ['columns', 'wip'],
+        })
+      )
+    ).toBe('# board settings changed (columns, wip)');
+  });
+});
+
+describe('watchBoardChanges', () => {
+  beforeEach(async () => {
+    await fs.rm(KANBAN_DIR, { recursive: true, force: true });
+    await fs.mkdir(KANBAN_DIR, { recursive: true });
+    await fs.writeFile(
+      path.join(KANBAN_DIR, 'board.yaml'),
+      'columns:\n  - todo\n  - doing\n  - done\n'
+    );
+    await addCard('todo', 'Task A');
+  });
+
+  afterEach(async () => {
+    await fs.rm(KANBAN_DIR, { recursive: true, force: true });
+  });
+
+  async function collectEvents() {
+    const events: BoardEvent[] = [];
+    let notify = () => {};
+    const stop = await watchBoardChanges(KANBAN_DIR, (batch) => {
+      events.push(...batch);
+      notify();
+    });
+
+    const waitFor = async (count: number) => {
+      const deadline = Date.now() + 3000;
+      while (events.length < count && Date.now() < deadline) {
+        await new Promise<void>((resolve) => {
+          notify = resolve;
+          setTimeout(resolve, 100);
+        });
+      }
+    };
+    return { events, stop, waitFor };
+  }
+
+  test('emits events for changes made through kanmd', async () => {
+    const { events, stop, waitFor } = await collectEvents();
+
+    try {
+      await addCard('todo', 'Task B');
+      await waitFor(1);
+      await moveCard('task-a', 'doing');
+      await waitFor(2);
+      await editCard('task-b', { labels: ['urgent'] });
+      await waitFor(3);
+      await deleteCard('task-a');
+      await waitFor(4);
+    } finally {
+      stop();
+    }
+
+    expect(events.map((e) => `${e.type} ${e.card}`)).toEqual([
+      'card_added task-b',
+      'card_moved task-a',
+      'card_updated task-b',
+      'card_deleted task-a',
+    ]);
+    expect((await loadBoard()).cards.map((c) => c.id)).toEqual(['task-b']);
+  });
+
+  test('emits board_updated when board.yaml changes', async () => {
+    const { events, stop, waitFor } = await collectEvents();
+
+    try {
+      await addColumn('review', 3);
+      await waitFor(1);
+      await setColumnWip('doing', 2);
+      await waitFor(2);
+    } finally {
+      stop();
+    }
+
+    expect(events).toEqual([
+      expect.objectContaining({
+        type: 'board_updated',
+        columns: ['todo', 'doing', 'review', 'done'],
+        fields: ['columns'],
+      }),
+      expect.objectContaining({ type: 'board_updated', fields: ['wip'] }),
+    ]);
+  });
+});
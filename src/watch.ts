@@ -1,58 +1,325 @@
+import fs from 'fs';
+import { ACTIVITY_FILE } from './activity.js';
 import { loadBoard } from './files.js';
+import { JOURNAL_FILE } from './journal.js';
+import { colors } from './render.js';
+import type { CardHighlight } from './render.js';
+import { KanmdError } from './types.js';
+import type { Board, Card } from './types.js';
 
 const CLEAR_SCREEN = '\x1b[2J\x1b[H';
 
-export async function watchBoard(_kanbanDir: string, renderFn: () => Promise<void>): Promise<void> {
-  const pollIntervalMs = 1000;
-  let lastState = '';
-  let consecutiveErrors = 0;
+// Editors and kanmd itself write several files per change, so wait for a quiet spell
+const DEBOUNCE_MS = 100;
+// Safety net for changes the watcher misses (network drives, some editors)
+const FALLBACK_POLL_MS = 5000;
+// Used when the platform can't watch the directory at all
+const POLL_MS = 1000;
+
+export type BoardEvent =
+  | { type: 'card_added'; time: string; card: string; title: string; column: string }
+  | { type: 'card_moved'; time: string; card: string; title: string; from: string; to: string }
+  | {
+      type: 'card_updated';
+      time: string;
+      card: string;
+      title: string;
+      column: string;
+      /** Names of the Card fields that changed, e.g. ["checklist", "title"] */
+      fields: string[];
+    }
+  | { type: 'card_deleted'; time: string; card: string; title: string; column: string }
+  | {
+      type: 'board_updated';
+      time: string;
+      /** The columns after the change, in order */
+      columns: string[];
+      /** Which board.yaml settings changed: "columns", "wip", "requires" or "transitions" */
+      fields: string[];
+    };
+
+/** Bookkeeping that changes with every write and isn't worth reporting on its own */
+const UNREPORTED_FIELDS = new Set(['updated', 'revision', 'column', 'entered']);
+
+function changedFields(before: Card, after: Card, moved: boolean): string[] {
+  const a = before as unknown as Record<string, unknown>;
+  const b = after as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys]
+    .filter((key) => !UNREPORTED_FIELDS.has(key))
+    .filter((key) => !(moved && key === 'rank')) // moving clears the rank
+    .filter((key) => JSON.stringify(a[key]) !== JSON.stringify(b[key]))
+    .sort();
+}
+
+function columnSetting(board: Board, setting: 'wip' | 'requires'): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(board.columnSettings).flatMap(([column, settings]) =>
+      settings[setting] === undefined ? [] : [[column, settings[setting]]]
+    )
+  );
+}
+
+/** The board.yaml settings that differ between two loads of the board */
+function changedSettings(before: Board, after: Board): string[] {
+  const settings: Record<string, (board: Board) => unknown> = {
+    columns: (board) => board.columns,
+    wip: (board) => columnSetting(board, 'wip'),
+    requires: (board) => columnSetting(board, 'requires'),
+    transitions: (board) => board.transitions,
+  };
+  return Object.entries(settings)
+    .filter(([, read]) => JSON.stringify(read(before)) !== JSON.stringify(read(after)))
+    .map(([field]) => field);
+}
+
+/**
+ * What happened between two loads of the board: a board_updated event when
+ * the columns or their settings changed, then one per changed card. A renamed
+ * card shows up as a delete and an add, and a card that was moved and edited
+ * gets both a card_moved and a card_updated event.
+ */
+export function diffBoards(before: Board, after: Board, now = new Date()): BoardEvent[] {
+  const time = now.toISOString();
+  const previous = new Map(before.cards.map((card) => [card.id, card]));
+  const events: BoardEvent[] = [];
+
+  const settings = changedSettings(before, after);
+  if (settings.length > 0) {
+    events.push({ type: 'board_updated', time, columns: after.columns, fields: settings });
+  }
 
-  const checkForChanges = async () => {
+  for (const card of after.cards) {
+    const old = previous.get(card.id);
+    previous.delete(card.id);
+    const base = { time, card: card.id, title: card.title };
+
+    if (!old) {
+      events.push({ type: 'card_added', ...base, column: card.column });
+      continue;
+    }
+    // Same file content, nothing to compare
+    if (old.revision !== undefined && old.revision === card.revision) continue;
+
+    const moved = old.column !== card.column;
+    if (moved) {
+      events.push({ type: 'card_moved', ...base, from: old.column, to: card.column });
+    }
+    const fields = changedFields(old, card, moved);
+    if (fields.length > 0) {
+      events.push({ type: 'card_updated', ...base, column: card.column, fields });
+    }
+  }
+
+  for (const card of previous.values()) {
+    events.push({
+      type: 'card_deleted',
+      time,
+      card: card.id,
+      title: card.title,
+      column: card.column,
+    });
+  }
+  return events;
+}
+
+/** Files that change without the board changing */
+function isBoardFile(filename: string | null): boolean {
+  if (!filename) return true;
+  const name = filename.replace(/\\/g, '/').split('/').pop()!;
+  return !(
+    name === ACTIVITY_FILE ||
+    name === JOURNAL_FILE ||
+    name.endsWith('.lock') ||
+    name.endsWith('.tmp')
+  );
+}
+
+/**
+ * Calls `onChange` with the events whenever the board changes, until the
+ * returned function is called. Changes are picked up from filesystem
+ * notifications, with a slow poll as a fallback, or a 1s poll when the
+ * directory can't be watched. Load errors go to `onError`.
+ */
+export async function watchBoardChanges(
+  kanbanDir: string,
+  onChange: (events: BoardEvent[], board: Board) => Promise<void> | void,
+  onError: (err: Error) => void = () => {}
+): Promise<() => void> {
+  let last: Board | undefined = await loadBoard().catch(() => undefined);
+  let checking = false;
+  let recheck = false;
+  let debounce: ReturnType<typeof setTimeout> | undefined;
+
+  const check = async (): Promise<void> => {
+    if (checking) {
+      recheck = true;
+      return;
+    }
+    checking = true;
     try {
       const board = await loadBoard();
-      const currentState = JSON.stringify(board);
-      consecutiveErrors = 0;
-
-      if (currentState !== lastState) {
-        lastState = currentState;
-        process.stdout.write(CLEAR_SCREEN);
-        const timestamp = new Date().toLocaleTimeString();
-        console.log(`\x1b[2m[${timestamp}]\x1b[0m\n`);
-        await renderFn();
-      }
+      const events = last ? diffBoards(last, board) : [];
+      last = board;
+      if (events.length > 0) await onChange(events, board);
     } catch (err) {
-      consecutiveErrors++;
-      if (consecutiveErrors >= 3) {
-        console.error(`\x1b[31mError:\x1b[0m ${(err as Error).message}`);
-        consecutiveErrors = 0;
+      onError(err as Error);
+    } finally {
+      checking = false;
+      if (recheck) {
+        recheck = false;
+        await check();
       }
     }
   };
 
-  // Initial render
-  process.stdout.write(CLEAR_SCREEN);
-  console.log('\x1b[2mWatching for changes... (Ctrl+C to exit)\x1b[0m\n');
-  await renderFn();
+  const schedule = () => {
+    clearTimeout(debounce);
+    debounce = setTimeout(check, DEBOUNCE_MS);
+  };
+
+  let watcher: fs.FSWatcher | undefined;
+  let interval = setInterval(check, FALLBACK_POLL_MS);
+  const pollOnly = () => {
+    watcher?.close();
+    watcher = undefined;
+    clearInterval(interval);
+    interval = setInterval(check, POLL_MS);
+  };
 
-  // Capture initial state
   try {
-    const board = await loadBoard();
-    lastState = JSON.stringify(board);
+    watcher = fs.watch(kanbanDir, { recursive: true }, (_event, filename) => {
+      if (isBoardFile(filename)) schedule();
+    });
+    watcher.on('error', pollOnly);
   } catch {
-    // Will be handled on first poll
+    pollOnly();
+  }
+
+  return () => {
+    clearTimeout(debounce);
+    clearInterval(interval);
+    watcher?.close();
+  };
+}
+
+const changeMarks: Record<BoardEvent['type'], string> = {
+  card_added: `${colors.green}+${colors.reset}`,
+  card_moved: `${colors.cyan}→${colors.reset}`,
+  card_updated: `${colors.yellow}~${colors.reset}`,
+  card_deleted: `${colors.red}×${colors.reset}`,
+  board_updated: `${colors.cyan}#${colors.reset}`,
+};
+
+export function describeEvent(event: BoardEvent): string {
+  const mark = changeMarks[event.type];
+  switch (event.type) {
+    case 'card_added':
+      return `${mark} ${event.card} added to ${event.column}`;
+    case 'card_moved':
+      return `${mark} ${event.card} moved ${event.from} → ${event.to}`;
+    case 'card_updated':
+      return `${mark} ${event.card} edited (${event.fields.join(', ')})`;
+    case 'card_deleted':
+      return `${mark} ${event.card} deleted from ${event.column}`;
+    case 'board_updated':
+      return `${mark} board settings changed (${event.fields.join(', ')})`;
   }
+}
 
-  const intervalId = setInterval(checkForChanges, pollIntervalMs);
+/** Which cards to mark on the board, for the events since the last render */
+export function changedCards(events: BoardEvent[]): Map<string, CardHighlight> {
+  const changes = new Map<string, CardHighlight>();
+  for (const event of events) {
+    if (event.type === 'card_deleted' || event.type === 'board_updated') continue;
+    // Keep the most telling change when a card has several
+    const kind: CardHighlight =
+      event.type === 'card_added' ? 'added' : event.type === 'card_moved' ? 'moved' : 'updated';
+    const current = changes.get(event.card);
+    if (current === 'added' || (current === 'moved' && kind === 'updated')) continue;
+    changes.set(event.card, kind);
+  }
+  return changes;
+}
 
+function waitForExit(stop: () => void, message?: string): Promise<never> {
   const cleanup = () => {
-    clearInterval(intervalId);
-    console.log('\n\x1b[2mStopped watching.\x1b[0m');
+    stop();
+    if (message) console.log(message);
     process.exit(0);
   };
-
   process.on('SIGINT', cleanup);
   process.on('SIGTERM', cleanup);
-
   // Keep process alive
-  await new Promise(() => {});
+  return new Promise(() => {});
+}
+
+/**
+ * Redraws the board on every change, listing what changed since the last
+ * render. `renderFn` is given the changed cards so it can mark them.
+ */
+export async function watchBoard(
+  kanbanDir: string,
+  renderFn: (changes: Map<string, CardHighlight>) => Promise<void>
+): Promise<void> {
+  let consecutiveErrors = 0;
+
+  // Initial render
+  process.stdout.write(CLEAR_SCREEN);
+  console.log(`${colors.dim}Watching for changes... (Ctrl+C to exit)${colors.reset}\n`);
+  await renderFn(new Map());
+
+  const stop = await watchBoardChanges(
+    kanbanDir,
+    async (events) => {
+      consecutiveErrors = 0;
+      process.stdout.write(CLEAR_SCREEN);
+      const timestamp = new Date().toLocaleTimeString();
+      console.log(`${colors.dim}[${timestamp}]${colors.reset}`);
+      for (const event of events) {
+        console.log(`  ${describeEvent(event)}`);
+      }
+      console.log();
+      await renderFn(changedCards(events));
+    },
+    (err) => {
+      consecutiveErrors++;
+      if (consecutiveErrors >= 3) {
+        console.error(`${colors.red}Error:${colors.reset} ${err.message}`);
+        consecutiveErrors = 0;
+      }
+    }
+  );
+
+  await waitForExit(stop, `\n${colors.dim}Stopped watching.${colors.reset}`);
+}
+
+/**
+ * Prints one JSON object per line for every board change. Load errors are
+ * written as {"type":"error"} lines so the stream stays parseable; the same
+ * error is only reported again after the board has loaded in between.
+ */
+export async function streamBoardEvents(kanbanDir: string): Promise<void> {
+  const write = (data: unknown) => process.stdout.write(JSON.stringify(data) + '\n');
+  let lastError: string | undefined;
+
+  const stop = await watchBoardChanges(
+    kanbanDir,
+    (events) => {
+      lastError = undefined;
+      events.forEach(write);
+    },
+    (err) => {
+      if (err.message === lastError) return;
+      lastError = err.message;
+      write({
+        type: 'error',
+        time: new Date().toISOString(),
+        error: err.message,
+        code: err instanceof KanmdError ? err.code : 'ERROR',
+      });
+    }
+  );
+
+  await waitForExit(stop);
 }
@@ -0,0 +1,78 @@
+import { describe, test, expect } from 'bun:test';
+import { parseGates, parseTransitions, rewriteTransitions } from './workflow.js';
+import { KanmdError } from './types.js';
+
+const COLUMNS = ['todo', 'in-progress', 'review', 'done'];
+
+describe('parseTransitions', () => {
+  test('returns undefined when not configured', () => {
+    expect(parseTransitions(undefined, COLUMNS)).toBeUndefined();
+    expect(parseTransitions(null, COLUMNS)).toBeUndefined();
+  });
+
+  test('expands chains into edges', () => {
+    expect(
+      parseTransitions(['todo -> in-progress -> review -> done', 'review -> in-progress'], COLUMNS)
+    ).toEqual({
+      todo: ['in-progress'],
+      'in-progress': ['review'],
+      review: ['done', 'in-progress'],
+    });
+  });
+
+  test('accepts a mapping of targets', () => {
+    expect(parseTransitions({ todo: 'in-progress', review: ['done', 'todo'] }, COLUMNS)).toEqual({
+      todo: ['in-progress'],
+      review: ['done', 'todo'],
+    });
+  });
+
+  test('rejects unknown columns and malformed chains', () => {
+    expect(() => parseTransitions(['todo -> nowhere'], COLUMNS)).toThrow('unknown column');
+    expect(() => parseTransitions(['todo'], COLUMNS)).toThrow('invalid transition');
+    expect(() => parseTransitions('todo -> done', COLUMNS)).toThrow(KanmdError);
+  });
+});
+
+describe('parseGates', () => {
+  test('accepts known gates as a list or single value', () => {
+    expect(parseGates(['description', 'labels'], 'done')).toEqual(['description', 'labels']);
+    expect(parseGates('checklist-complete', 'done')).toEqual(['checklist-complete']);
+  });
+
+  test('rejects unknown gates', () => {
+    expect(() => parseGates(['reviewed'], 'done')).toThrow('unknown gate "reviewed"');
+  });
+});
+
+describe('rewriteTransitions', () => {
+  test('renames columns in chains', () => {
+    expect(
+      rewriteTransitions(['todo -> in-progress -> done'], (c) =>
+        c === 'in-progress' ? 'doing' : c
+      )
+    ).toEqual(['todo -> doing -> done']);
+  });
+
+  test('splits chains around a removed column', () => {
+    expect(
+      rewriteTransitions(['todo -> in-progress -> review -> done'], (c) =>
+        c === 'in-progress' ? null : c
+      )
+    ).toEqual(['review -> done']);
+  });
+
+  test('rewrites the mapping form', () => {
+    expect(
+      rewriteTransitions({ todo: ['review', 'done'], review: 'done' }, (c) =>
+        c === 'review' ? null : c
+      )
+    ).toEqual({ todo: ['done'] });
+  });
+
+  test('leaves nothing when no moves are left', () => {
+    const removeReview = (c: string) => (c === 'review' ? null : c);
+    expect(rewriteTransitions(['todo -> review -> done'], removeReview)).toBeUndefined();
+    expect(rewriteTransitions({ todo: 'review', review: 'done' }, removeReview)).toBeUndefined();
+  });
+});
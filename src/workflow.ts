@@ -0,0 +1,199 @@
+import type { Board, Card, Gate } from './types.js';
+import { GATES, KanmdError } from './types.js';
+import { isPlainObject } from './yaml.js';
+
+export interface GateFailure {
+  gate: Gate;
+  message: string;
+}
+
+const CHAIN_SEPARATOR = /\s*->\s*/;
+
+function invalidConfig(message: string): KanmdError {
+  return new KanmdError(`board.yaml: ${message}`, 'INVALID_BOARD_CONFIG');
+}
+
+export function isValidGate(value: string): value is Gate {
+  return GATES.includes(value as Gate);
+}
+
+/**
+ * Parses a column's `requires` list of entry gates.
+ */
+export function parseGates(value: unknown, column: string): Gate[] {
+  const items = Array.isArray(value) ? value : [value];
+  return items.map((item) => {
+    const gate = String(item);
+    if (!isValidGate(gate)) {
+      throw invalidConfig(
+        `unknown gate "${gate}" on column "${column}". Available: ${GATES.join(', ')}`
+      );
+    }
+    return gate;
+  });
+}
+
+/**
+ * Parses the `transitions` key of board.yaml into a map of column -> allowed
+ * target columns. Accepts either a list of chains ("todo -> in-progress -> done")
+ * or a mapping of column to target list. Returns undefined when the board
+ * doesn't restrict moves.
+ */
+export function parseTransitions(
+  value: unknown,
+  columns: string[]
+): Record<string, string[]> | undefined {
+  if (value === undefined || value === null) return undefined;
+
+  const transitions: Record<string, string[]> = {};
+  const addEdge = (from: string, to: string) => {
+    for (const column of [from, to]) {
+      if (!columns.includes(column)) {
+        throw invalidConfig(`transition refers to unknown column "${column}"`);
+      }
+    }
+    transitions[from] = transitions[from] || [];
+    if (!transitions[from].includes(to)) {
+      transitions[from].push(to);
+    }
+  };
+
+  if (Array.isArray(value)) {
+    for (const chain of value) {
+      const steps = String(chain).split(CHAIN_SEPARATOR);
+      if (steps.length < 2 || steps.some((s) => s === '')) {
+        throw invalidConfig(`invalid transition "${chain}". Use "from -> to [-> ...]"`);
+      }
+      for (let i = 0; i < steps.length - 1; i++) {
+        addEdge(steps[i], steps[i + 1]);
+      }
+    }
+  } else if (isPlainObject(value)) {
+    for (const [from, targets] of Object.entries(value)) {
+      const list = Array.isArray(targets) ? targets : [targets];
+      for (const to of list) {
+        addEdge(from, String(to));
+      }
+    }
+  } else {
+    throw invalidConfig('"transitions" must be a list of chains or a mapping');
+  }
+
+  return transitions;
+}
+
+/**
+ * Rewrites the raw `transitions` value after a column is renamed (rename returns
+ * the new name) or removed (rename returns null), keeping the user's format.
+ * Chains are split around a removed column. Returns undefined when no moves
+ * are left, as an empty value would read as a workflow that allows none.
+ */
+export function rewriteTransitions(
+  value: unknown,
+  rename: (column: string) => string | null
+): unknown {
+  if (Array.isArray(value)) {
+    const chains: string[] = [];
+    for (const chain of value) {
+      let segment: string[] = [];
+      for (const step of String(chain).split(CHAIN_SEPARATOR)) {
+        const renamed = rename(step);
+        if (renamed === null) {
+          if (segment.length >= 2) chains.push(segment.join(' -> '));
+          segment = [];
+        } else {
+          segment.push(renamed);
+        }
+      }
+      if (segment.length >= 2) chains.push(segment.join(' -> '));
+    }
+    return chains.length > 0 ? chains : undefined;
+  }
+
+  if (isPlainObject(value)) {
+    const rewritten: Record<string, unknown> = {};
+    for (const [from, targets] of Object.entries(value)) {
+      const newFrom = rename(from);
+      if (newFrom === null) continue;
+      const list = (Array.isArray(targets) ? targets : [targets])
+        .map((t) => rename(String(t)))
+        .filter((t): t is string => t !== null);
+      if (list.length > 0) {
+        rewritten[newFrom] = list;
+      }
+    }
+    return Object.keys(rewritten).length > 0 ? rewritten : undefined;
+  }
+
+  return value;
+}
+
+function checkGate(gate: Gate, card: Card): string | null {
+  switch (gate) {
+    case 'description':
+      return card.description.trim() ? null : 'Card must have a description';
+    case 'checklist-complete': {
+      const unchecked = card.checklist.filter((item) => !item.checked).length;
+      return unchecked === 0
+        ? null
+        : `${unchecked} of ${card.checklist.length} checklist item(s) unchecked`;
+    }
+    case 'labels':
+      return card.labels.length > 0 ? null : 'Card must have at least one label';
+  }
+}
+
+/**
+ * Returns the entry gates of `column` that `card` doesn't satisfy.
+ */
+export function evaluateGates(board: Board, card: Card, column: string): GateFailure[] {
+  const failures: GateFailure[] = [];
+  for (const gate of board.columnSettings[column]?.requires || []) {
+    const message = checkGate(gate, card);
+    if (message) {
+      failures.push({ gate, message });
+    }
+  }
+  return failures;
+}
+
+/**
+ * Throws if `card` doesn't meet the entry gates of `column`. `action` is what
+ * the error says was refused.
+ */
+export function assertGatesPass(
+  board: Board,
+  card: Card,
+  column: string,
+  action: 'move' | 'add' = 'move'
+): void {
+  const failures = evaluateGates(board, card, column);
+  if (failures.length > 0) {
+    const lines = failures.map((f) => `  - ${f.gate}: ${f.message}`);
+    throw new KanmdError(
+      `Cannot ${action} "${card.id}" to "${column}", ${failures.length} gate(s) failed:\n${lines.join('\n')}`,
+      'GATE_FAILED',
+      { column, failed: failures }
+    );
+  }
+}
+
+/**
+ * Throws if the board's transition rules or the target column's entry gates
+ * don't allow moving `card` to `toColumn`.
+ */
+export function assertMoveAllowed(board: Board, card: Card, toColumn: string): void {
+  if (board.transitions) {
+    const allowed = board.transitions[card.column] || [];
+    if (!allowed.includes(toColumn)) {
+      const options = allowed.length > 0 ? allowed.join(', ') : 'none';
+      throw new KanmdError(
+        `Cannot move "${card.id}" from "${card.column}" to "${toColumn}". Allowed: ${options}`,
+        'TRANSITION_NOT_ALLOWED',
+        { from: card.column, to: toColumn, allowed }
+      );
+    }
+  }
+
+  assertGatesPass(board, card, toColumn);
+}
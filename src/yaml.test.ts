@@ -0,0 +1,280 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  parseYaml,
+  stringifyYaml,
+  formatYamlScalar,
+  updateYamlKeys,
+  YamlParseError,
+} from './yaml.js';
+import { KanmdError } from './types.js';
+
+function parseError(source: string): YamlParseError {
+  try {
+    parseYaml(source);
+  } catch (err) {
+    return err as YamlParseError;
+  }
+  throw new Error('Expected parse error');
+}
+
+describe('parseYaml', () => {
+  test('parses block mappings and sequences', () => {
+    const result = parseYaml(`name: Project Board
+columns:
+  - todo
+  - in-progress
+settings:
+  nested:
+    depth: 2
+`);
+    expect(result).toEqual({
+      name: 'Project Board',
+      columns: ['todo', 'in-progress'],
+      settings: { nested: { depth: 2 } },
+    });
+  });
+
+  test('allows sequences at the same indent as their key', () => {
+    expect(parseYaml('columns:\n- todo\n- done\nname: x\n')).toEqual({
+      columns: ['todo', 'done'],
+      name: 'x',
+    });
+  });
+
+  test('parses compact mappings inside sequences', () => {
+    expect(parseYaml('columns:\n  - name: todo\n    wip: 3\n  - done\n')).toEqual({
+      columns: [{ name: 'todo', wip: 3 }, 'done'],
+    });
+  });
+
+  test('resolves scalar types', () => {
+    expect(parseYaml('a: 3\nb: -1.5\nc: true\nd: ~\ne:\nf: 2024-01-15\ng: 0x1f')).toEqual({
+      a: 3,
+      b: -1.5,
+      c: true,
+      d: null,
+      e: null,
+      f: '2024-01-15',
+      g: 31,
+    });
+  });
+
+  test('strips comments', () => {
+    expect(parseYaml('# header\nkey: value # trailing\nurl: http://x#y\n')).toEqual({
+      key: 'value',
+      url: 'http://x#y',
+    });
+  });
+
+  test('parses quoted strings', () => {
+    const result = parseYaml(`a: "Fix: the --- thing # not a comment"
+b: 'It''s here'
+c: "tab\\there \\u00e9"
+"quoted key": 1`);
+    expect(result).toEqual({
+      a: 'Fix: the --- thing # not a comment',
+      b: "It's here",
+      c: 'tab\there é',
+      'quoted key': 1,
+    });
+  });
+
+  test('folds multi-line quoted and plain scalars', () => {
+    expect(parseYaml('a: "one\n  two\n\n  three"\nb: first\n  second\n')).toEqual({
+      a: 'one two\nthree',
+      b: 'first second',
+    });
+  });
+
+  test('parses block scalars', () => {
+    const result = parseYaml(`literal: |
+  line one
+    indented
+keep: |+
+  text
+
+strip: >-
+  folded
+  lines
+
+  paragraph
+`);
+    expect(result).toEqual({
+      literal: 'line one\n  indented\n',
+      keep: 'text\n\n',
+      strip: 'folded lines\nparagraph',
+    });
+  });
+
+  test('parses flow collections across lines', () => {
+    const result = parseYaml(`labels: [bug, "needs: triage", 3]
+meta: {owner: sam, tags: [a, b]}
+multi: [
+  one,
+  two,
+]`);
+    expect(result).toEqual({
+      labels: ['bug', 'needs: triage', 3],
+      meta: { owner: 'sam', tags: ['a', 'b'] },
+      multi: ['one', 'two'],
+    });
+  });
+
+  test('stores __proto__ as a plain key', () => {
+    const result = parseYaml('__proto__: 1') as Record<string, unknown>;
+    expect(Object.keys(result)).toEqual(['__proto__']);
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+  });
+
+  test('returns null for an empty document', () => {
+    expect(parseYaml('')).toBeNull();
+    expect(parseYaml('# only a comment\n')).toBeNull();
+  });
+});
+
+describe('parseYaml errors', () => {
+  test('are KanmdErrors with a line number', () => {
+    const err = parseError('a: 1\nb: "unterminated\n');
+    expect(err).toBeInstanceOf(KanmdError);
+    expect(err.code).toBe('YAML_PARSE_ERROR');
+    expect(err.line).toBe(2);
+    expect(err.message).toContain('Line 2');
+  });
+
+  test('rejects duplicate keys', () => {
+    const err = parseError('a: 1\na: 2');
+    expect(err.reason).toContain('Duplicate key "a"');
+    expect(err.line).toBe(2);
+  });
+
+  test('rejects bad indentation', () => {
+    expect(parseError('a:\n    b: 1\n  c: 2').line).toBe(3);
+  });
+
+  test('rejects tab indentation', () => {
+    expect(parseError('a:\n\tb: 1').reason).toContain('Tabs');
+  });
+
+  test('rejects unterminated flow collections', () => {
+    const err = parseError('a: [1, 2');
+    expect(err.reason).toContain('Unterminated flow collection');
+    expect(err.line).toBe(1);
+  });
+
+  test('rejects anchors and aliases', () => {
+    expect(parseError('a: &x 1').reason).toContain('not supported');
+  });
+
+  test('rejects plain scalars starting with a reserved indicator', () => {
+    expect(parseError('a: @user').reason).toContain('reserved');
+    expect(parseError('a: `cmd`').reason).toContain('reserved');
+    expect(parseError('a: [x, @y]').reason).toContain('reserved');
+  });
+
+  test('includes the file name when given', () => {
+    const err = new YamlParseError('Bad', 4, 'todo/card.md');
+    expect(err.message).toBe('todo/card.md:4: Bad');
+  });
+});
+
+describe('formatYamlScalar', () => {
+  test('leaves safe strings plain', () => {
+    expect(formatYamlScalar('hello world')).toBe('hello world');
+    expect(formatYamlScalar('2024-01-15T10:30:00.000Z')).toBe('2024-01-15T10:30:00.000Z');
+  });
+
+  test('quotes strings that would read back differently', () => {
+    expect(formatYamlScalar('true')).toBe('"true"');
+    expect(formatYamlScalar('42')).toBe('"42"');
+    expect(formatYamlScalar('')).toBe('""');
+    expect(formatYamlScalar('a: b')).toBe('"a: b"');
+    expect(formatYamlScalar('# hash')).toBe('"# hash"');
+    expect(formatYamlScalar(' padded')).toBe('" padded"');
+    expect(formatYamlScalar('two\nlines')).toBe('"two\\nlines"');
+    expect(formatYamlScalar('@user')).toBe('"@user"');
+    expect(formatYamlScalar('`cmd`')).toBe('"`cmd`"');
+  });
+
+  test('quotes flow indicators only in flow context', () => {
+    expect(formatYamlScalar('a,b')).toBe('a,b');
+    expect(formatYamlScalar('a,b', true)).toBe('"a,b"');
+    expect(formatYamlScalar(['x', 'a,b'])).toBe('[x, "a,b"]');
+  });
+
+  test('formats null as empty', () => {
+    expect(formatYamlScalar(null)).toBe('');
+  });
+});
+
+describe('stringifyYaml', () => {
+  test('round-trips nested structures', () => {
+    const value = {
+      name: 'Board: main',
+      columns: ['todo', { name: 'doing', wip: 3 }, 'done'],
+      empty: [],
+      nothing: null,
+      notes: 'line one\nline two\n',
+      flags: { strict: true, ratio: 0.5 },
+    };
+    const text = stringifyYaml(value);
+    expect(parseYaml(text)).toEqual(value);
+  });
+
+  test('keeps trailing newlines of block strings through repeated round trips', () => {
+    const value = {
+      clip: 'text\n',
+      strip: 'a\nb',
+      breaks: '\n',
+      more: '\n\n',
+      keep: 'text\n\n\n',
+    };
+    let text = stringifyYaml(value);
+    expect(text).toContain('keep: |+\n');
+    expect(text).toContain('breaks: "\\n"\n');
+    for (let i = 0; i < 3; i++) {
+      expect(parseYaml(text)).toEqual(value);
+      text = stringifyYaml(parseYaml(text));
+    }
+  });
+
+  test('renders readable block style', () => {
+    expect(stringifyYaml({ name: 'Project Board', columns: ['todo', 'done'] })).toBe(
+      'name: Project Board\ncolumns:\n  - todo\n  - done\n'
+    );
+  });
+});
+
+describe('updateYamlKeys', () => {
+  const source = `# Board
+name: Main # title
+columns:
+  - todo
+  # the rest
+  - done
+
+# Rules
+transitions:
+- todo -> done
+user: sam
+`;
+
+  test('replaces, removes and adds keys and keeps everything else', () => {
+    expect(
+      updateYamlKeys(source, { columns: ['todo', 'done', 'later'], transitions: undefined, wip: 1 })
+    ).toBe(`# Board
+name: Main # title
+columns:
+  - todo
+  - done
+  - later
+
+# Rules
+user: sam
+wip: 1
+`);
+  });
+
+  test('leaves the text alone when nothing changes', () => {
+    expect(updateYamlKeys(source, {})).toBe(source);
+  });
+});
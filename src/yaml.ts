@@ -0,0 +1,823 @@
+import { KanmdError } from './types.js';
+
+/**
+ * A small YAML reader/writer covering what kanmd stores in card frontmatter
+ * and board.yaml: block and flow mappings/sequences, plain, quoted and block
+ * scalars, and comments. Anchors, aliases and tags are rejected.
+ */
+
+export class YamlParseError extends KanmdError {
+  constructor(
+    public reason: string,
+    public line: number,
+    public file?: string
+  ) {
+    super(file ? `${file}:${line}: ${reason}` : `Line ${line}: ${reason}`, 'YAML_PARSE_ERROR');
+    this.name = 'YamlParseError';
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  '0': '\0',
+  a: '\x07',
+  b: '\b',
+  t: '\t',
+  '\t': '\t',
+  n: '\n',
+  v: '\v',
+  f: '\f',
+  r: '\r',
+  e: '\x1b',
+  ' ': ' ',
+  '"': '"',
+  '/': '/',
+  '\\': '\\',
+  N: '\u0085',
+  _: ' ',
+};
+
+const HEX_ESCAPE_LENGTHS: Record<string, number> = { x: 2, u: 4, U: 8 };
+
+// Thrown internally when a flow collection or quoted string continues on the next line
+const INCOMPLETE = Symbol('incomplete');
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function setKey(target: Record<string, unknown>, key: string, value: unknown): void {
+  // defineProperty so a "__proto__" key is stored as data rather than changing the prototype
+  Object.defineProperty(target, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * Resolves an unquoted scalar to null, boolean, number or string (YAML 1.2 core schema).
+ * Dates are left as strings.
+ */
+function resolvePlain(text: string): unknown {
+  if (text === '' || text === '~' || /^(null|Null|NULL)$/.test(text)) return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?[0-9]+$/.test(text)) return parseInt(text, 10);
+  if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text.slice(2), 16);
+  if (/^0o[0-7]+$/.test(text)) return parseInt(text.slice(2), 8);
+  if (/^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/.test(text)) return parseFloat(text);
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) return text.startsWith('-') ? -Infinity : Infinity;
+  if (/^\.(nan|NaN|NAN)$/.test(text)) return NaN;
+  return text;
+}
+
+function stripPlainComment(text: string): string {
+  if (text.startsWith('#')) return '';
+  const index = text.search(/\s#/);
+  return index === -1 ? text : text.slice(0, index);
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+class Parser {
+  private lines: string[];
+  private pos = 0;
+
+  constructor(source: string) {
+    this.lines = source.replace(/\r\n?/g, '\n').split('\n');
+    // The line break that ends the last line doesn't start another one, which
+    // would otherwise count as a kept blank line at the end of a "|+" scalar
+    if (this.lines.length > 1 && this.lines[this.lines.length - 1] === '') this.lines.pop();
+  }
+
+  parseDocument(): unknown {
+    this.skipBlank();
+    if (this.pos < this.lines.length && this.lines[this.pos].trimEnd() === '---') {
+      this.pos++;
+    }
+    const value = this.parseNode(-1);
+    this.skipBlank();
+    if (this.pos < this.lines.length && this.lines[this.pos].trimEnd() === '...') {
+      this.pos++;
+      this.skipBlank();
+    }
+    if (this.pos < this.lines.length) {
+      this.fail(
+        this.lines[this.pos].trimEnd() === '---'
+          ? 'Multiple documents are not supported'
+          : 'Unexpected content'
+      );
+    }
+    return value;
+  }
+
+  private fail(reason: string, lineIndex = this.pos): never {
+    throw new YamlParseError(reason, lineIndex + 1);
+  }
+
+  private isBlank(lineIndex: number): boolean {
+    const trimmed = this.lines[lineIndex].trim();
+    return trimmed === '' || trimmed.startsWith('#');
+  }
+
+  private skipBlank(): void {
+    while (this.pos < this.lines.length && this.isBlank(this.pos)) {
+      this.pos++;
+    }
+  }
+
+  private indentOf(lineIndex: number): number {
+    const line = this.lines[lineIndex];
+    let indent = 0;
+    while (line[indent] === ' ') indent++;
+    if (line[indent] === '\t') {
+      this.fail('Tabs are not allowed for indentation', lineIndex);
+    }
+    return indent;
+  }
+
+  /**
+   * Splits "key: rest" if the text starts with a mapping key, otherwise returns null.
+   */
+  private splitKey(text: string, lineIndex: number): { key: string; rest: string } | null {
+    if (text.startsWith('"') || text.startsWith("'")) {
+      const quoted = this.readQuoted(text, 0, lineIndex);
+      if (!quoted) return null;
+      const after = text.slice(quoted.end);
+      const match = /^[ \t]*:(\s|$)/.exec(after);
+      if (!match) return null;
+      return { key: quoted.value, rest: after.slice(match[0].length).trim() };
+    }
+    if (/^[[{#&*!|>%@`]/.test(text) || text.startsWith('? ')) return null;
+
+    const match = /:(\s|$)/.exec(text);
+    if (!match) return null;
+    const key = text.slice(0, match.index).trimEnd();
+    if (/\s#/.test(key)) return null;
+    return { key, rest: text.slice(match.index + 1).trim() };
+  }
+
+  private parseNode(parentIndent: number): unknown {
+    this.skipBlank();
+    if (this.pos >= this.lines.length) return null;
+
+    const indent = this.indentOf(this.pos);
+    if (indent <= parentIndent) return null;
+
+    const text = this.lines[this.pos].slice(indent);
+    if (isSequenceItem(text)) return this.parseSequence(indent);
+    if (this.splitKey(text, this.pos)) return this.parseMapping(indent);
+
+    const lineIndex = this.pos++;
+    return this.parseValue(text.trim(), parentIndent, lineIndex, false);
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (;;) {
+      this.skipBlank();
+      if (this.pos >= this.lines.length) break;
+
+      const lineIndent = this.indentOf(this.pos);
+      if (lineIndent < indent) break;
+      if (lineIndent > indent) this.fail('Unexpected indentation');
+
+      const text = this.lines[this.pos].slice(indent);
+      if (isSequenceItem(text)) break;
+
+      const entry = this.splitKey(text, this.pos);
+      if (!entry) this.fail('Expected a "key: value" pair');
+      if (Object.prototype.hasOwnProperty.call(result, entry.key)) {
+        this.fail(`Duplicate key "${entry.key}"`);
+      }
+
+      const lineIndex = this.pos++;
+      setKey(result, entry.key, this.parseValue(entry.rest, indent, lineIndex, true));
+    }
+
+    return result;
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const result: unknown[] = [];
+
+    for (;;) {
+      this.skipBlank();
+      if (this.pos >= this.lines.length) break;
+
+      const lineIndent = this.indentOf(this.pos);
+      if (lineIndent < indent) break;
+      if (lineIndent > indent) this.fail('Unexpected indentation');
+
+      const text = this.lines[this.pos].slice(indent);
+      if (!isSequenceItem(text)) break;
+
+      const rest = text.slice(1).replace(/^ +/, '');
+      const itemIndent = indent + (text.length - rest.length);
+
+      if (isSequenceItem(rest) || this.splitKey(rest, this.pos)) {
+        // Compact nested collection ("- key: value"): re-indent the remainder in place
+        this.lines[this.pos] = ' '.repeat(itemIndent) + rest;
+        result.push(this.parseNode(indent));
+        continue;
+      }
+
+      const lineIndex = this.pos++;
+      result.push(this.parseValue(rest.trim(), indent, lineIndex, false));
+    }
+
+    return result;
+  }
+
+  /**
+   * Parses the value that follows a key or sequence dash. `rest` is the text on
+   * the same line; `ownerIndent` is the indent of the key or dash. The cursor is
+   * already past the owner's line.
+   */
+  private parseValue(
+    rest: string,
+    ownerIndent: number,
+    lineIndex: number,
+    inMapping: boolean
+  ): unknown {
+    if (rest === '' || rest.startsWith('#')) {
+      this.skipBlank();
+      if (this.pos >= this.lines.length) return null;
+      const nextIndent = this.indentOf(this.pos);
+      if (nextIndent > ownerIndent) return this.parseNode(ownerIndent);
+      // YAML allows a mapping's sequence value at the same indent as its key
+      if (
+        inMapping &&
+        nextIndent === ownerIndent &&
+        isSequenceItem(this.lines[this.pos].slice(nextIndent))
+      ) {
+        return this.parseSequence(nextIndent);
+      }
+      return null;
+    }
+
+    const first = rest[0];
+    if (first === '|' || first === '>') return this.parseBlockScalar(rest, ownerIndent, lineIndex);
+    if (first === '[' || first === '{') return this.parseFlow(rest, lineIndex);
+    if (first === '"' || first === "'") return this.parseQuoted(rest, lineIndex);
+    if (first === '&' || first === '*' || first === '!') {
+      this.fail('Anchors, aliases and tags are not supported', lineIndex);
+    }
+    if (first === '@' || first === '`') {
+      this.fail(`"${first}" is reserved and cannot start a plain scalar`, lineIndex);
+    }
+    if (isSequenceItem(rest)) {
+      this.fail('A sequence cannot start on the same line as its key', lineIndex);
+    }
+    return this.parsePlain(rest, ownerIndent);
+  }
+
+  private parsePlain(rest: string, ownerIndent: number): unknown {
+    const firstLine = stripPlainComment(rest);
+    let value = firstLine.trim();
+
+    // A comment ends the scalar; otherwise more-indented lines continue it
+    if (firstLine === rest) {
+      let pendingNewlines = 0;
+      let index = this.pos;
+      while (index < this.lines.length) {
+        const trimmed = this.lines[index].trim();
+        if (trimmed === '') {
+          pendingNewlines++;
+          index++;
+          continue;
+        }
+        if (trimmed.startsWith('#')) break;
+
+        const indent = this.indentOf(index);
+        if (indent <= ownerIndent) break;
+
+        const text = this.lines[index].slice(indent);
+        if (isSequenceItem(text) || this.splitKey(text, index)) {
+          this.fail('Unexpected indentation', index);
+        }
+
+        const part = stripPlainComment(text);
+        value += pendingNewlines > 0 ? '\n'.repeat(pendingNewlines) : ' ';
+        value += part.trim();
+        pendingNewlines = 0;
+        index++;
+        this.pos = index;
+        if (part !== text) break;
+      }
+    }
+
+    return resolvePlain(value);
+  }
+
+  private parseQuoted(rest: string, lineIndex: number): string {
+    let buffer = rest;
+    let quoted = this.readQuoted(buffer, 0, lineIndex);
+    while (!quoted) {
+      if (this.pos >= this.lines.length) this.fail('Unterminated quoted string', lineIndex);
+      buffer += '\n' + this.lines[this.pos++];
+      quoted = this.readQuoted(buffer, 0, lineIndex);
+    }
+
+    const trailing = buffer.slice(quoted.end);
+    if (!/^\s*(#.*)?$/.test(trailing)) {
+      this.fail('Unexpected characters after quoted string', this.pos - 1);
+    }
+    return quoted.value;
+  }
+
+  /**
+   * Reads a single- or double-quoted scalar starting at `start`. Returns null
+   * when the closing quote hasn't been reached yet.
+   */
+  private readQuoted(
+    text: string,
+    start: number,
+    lineIndex: number
+  ): { value: string; end: number } | null {
+    const quote = text[start];
+    let out = '';
+    let i = start + 1;
+
+    while (i < text.length) {
+      const ch = text[i];
+
+      if (quote === "'" && ch === "'") {
+        if (text[i + 1] === "'") {
+          out += "'";
+          i += 2;
+          continue;
+        }
+        return { value: out, end: i + 1 };
+      }
+
+      if (quote === '"' && ch === '"') {
+        return { value: out, end: i + 1 };
+      }
+
+      if (quote === '"' && ch === '\\') {
+        const next = text[i + 1];
+        if (next === undefined) return null;
+        if (next === '\n') {
+          // Escaped line break: join lines without a space
+          i += 2;
+          while (text[i] === ' ' || text[i] === '\t') i++;
+          continue;
+        }
+        if (ESCAPES[next] !== undefined) {
+          out += ESCAPES[next];
+          i += 2;
+          continue;
+        }
+        const hexLength = HEX_ESCAPE_LENGTHS[next];
+        const hex = hexLength ? text.slice(i + 2, i + 2 + hexLength) : '';
+        if (!hexLength || !/^[0-9a-fA-F]+$/.test(hex) || hex.length !== hexLength) {
+          this.fail(`Invalid escape sequence "\\${next}"`, lineIndex + countNewlines(text, i));
+        }
+        out += String.fromCodePoint(parseInt(hex, 16));
+        i += 2 + hexLength;
+        continue;
+      }
+
+      if (ch === '\n') {
+        // Line folding: a single break becomes a space, each extra blank line a newline
+        out = out.replace(/[ \t]+$/, '');
+        let breaks = 0;
+        while (text[i] === '\n') {
+          breaks++;
+          i++;
+          while (text[i] === ' ' || text[i] === '\t') i++;
+        }
+        out += breaks === 1 ? ' ' : '\n'.repeat(breaks - 1);
+        continue;
+      }
+
+      out += ch;
+      i++;
+    }
+
+    return null;
+  }
+
+  private parseBlockScalar(header: string, ownerIndent: number, lineIndex: number): string {
+    const match = /^([|>])([1-9]?)([+-]?)([1-9]?)\s*(#.*)?$/.exec(header);
+    if (!match || (match[2] && match[4])) {
+      this.fail('Invalid block scalar header', lineIndex);
+    }
+    const folded = match[1] === '>';
+    const chomping = match[3];
+    const explicitIndent = parseInt(match[2] || match[4], 10);
+
+    let contentIndent = isNaN(explicitIndent)
+      ? undefined
+      : Math.max(ownerIndent, 0) + explicitIndent;
+    const bodyLines: string[] = [];
+
+    while (this.pos < this.lines.length) {
+      const raw = this.lines[this.pos];
+      if (raw.trim() === '') {
+        bodyLines.push(contentIndent !== undefined ? raw.slice(contentIndent) : '');
+        this.pos++;
+        continue;
+      }
+      let indent = 0;
+      while (raw[indent] === ' ') indent++;
+      if (contentIndent === undefined) {
+        if (indent <= ownerIndent) break;
+        contentIndent = indent;
+      }
+      if (indent < contentIndent) break;
+      bodyLines.push(raw.slice(contentIndent));
+      this.pos++;
+    }
+
+    let trailingBlank = 0;
+    while (
+      trailingBlank < bodyLines.length &&
+      bodyLines[bodyLines.length - 1 - trailingBlank] === ''
+    ) {
+      trailingBlank++;
+    }
+    const content = bodyLines.slice(0, bodyLines.length - trailingBlank);
+    if (content.length === 0) {
+      return chomping === '+' ? '\n'.repeat(trailingBlank) : '';
+    }
+
+    const text = folded ? foldLines(content) : content.join('\n');
+    if (chomping === '-') return text;
+    if (chomping === '+') return text + '\n' + '\n'.repeat(trailingBlank);
+    return text + '\n';
+  }
+
+  private parseFlow(rest: string, lineIndex: number): unknown {
+    let buffer = rest;
+    for (;;) {
+      const result = this.readFlow(buffer, lineIndex);
+      if (result !== INCOMPLETE) {
+        const trailing = buffer.slice(result.end);
+        if (!/^\s*(#.*)?$/.test(trailing)) {
+          this.fail('Unexpected characters after flow collection', this.pos - 1);
+        }
+        return result.value;
+      }
+      if (this.pos >= this.lines.length) this.fail('Unterminated flow collection', lineIndex);
+      buffer += '\n' + this.lines[this.pos++];
+    }
+  }
+
+  private readFlow(
+    text: string,
+    lineIndex: number
+  ): { value: unknown; end: number } | typeof INCOMPLETE {
+    let i = 0;
+
+    const fail = (reason: string): never => this.fail(reason, lineIndex + countNewlines(text, i));
+
+    const skipSpace = () => {
+      while (i < text.length) {
+        const ch = text[i];
+        if (ch === ' ' || ch === '\t' || ch === '\n') {
+          i++;
+        } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+          while (i < text.length && text[i] !== '\n') i++;
+        } else {
+          return;
+        }
+      }
+      throw INCOMPLETE;
+    };
+
+    const readScalar = (isKey: boolean): unknown => {
+      const ch = text[i];
+      if (ch === '"' || ch === "'") {
+        const quoted = this.readQuoted(text, i, lineIndex);
+        if (!quoted) throw INCOMPLETE;
+        i = quoted.end;
+        return quoted.value;
+      }
+      if (ch === '&' || ch === '*' || ch === '!')
+        fail('Anchors, aliases and tags are not supported');
+      if (ch === '@' || ch === '`') fail(`"${ch}" is reserved and cannot start a plain scalar`);
+
+      const start = i;
+      while (i < text.length) {
+        const c = text[i];
+        if (c === ',' || c === '[' || c === ']' || c === '{' || c === '}') break;
+        if (c === ':' && (i + 1 >= text.length || /[\s,[\]{}]/.test(text[i + 1]))) break;
+        if (c === '#' && /\s/.test(text[i - 1])) break;
+        i++;
+      }
+      if (i >= text.length) throw INCOMPLETE;
+      const raw = text
+        .slice(start, i)
+        .replace(/\s*\n\s*/g, ' ')
+        .trim();
+      return isKey ? raw : resolvePlain(raw);
+    };
+
+    const readItem = (): unknown => {
+      skipSpace();
+      const ch = text[i];
+
+      if (ch === '[') {
+        i++;
+        const items: unknown[] = [];
+        for (;;) {
+          skipSpace();
+          if (text[i] === ']') {
+            i++;
+            return items;
+          }
+          items.push(readItem());
+          skipSpace();
+          if (text[i] === ',') {
+            i++;
+          } else if (text[i] === ']') {
+            i++;
+            return items;
+          } else {
+            fail('Expected "," or "]" in flow sequence');
+          }
+        }
+      }
+
+      if (ch === '{') {
+        i++;
+        const map: Record<string, unknown> = {};
+        for (;;) {
+          skipSpace();
+          if (text[i] === '}') {
+            i++;
+            return map;
+          }
+          const key = String(readScalar(true));
+          skipSpace();
+          let value: unknown = null;
+          if (text[i] === ':') {
+            i++;
+            skipSpace();
+            if (text[i] !== ',' && text[i] !== '}') {
+              value = readItem();
+            }
+          }
+          if (Object.prototype.hasOwnProperty.call(map, key)) fail(`Duplicate key "${key}"`);
+          setKey(map, key, value);
+          skipSpace();
+          if (text[i] === ',') {
+            i++;
+          } else if (text[i] === '}') {
+            i++;
+            return map;
+          } else {
+            fail('Expected "," or "}" in flow mapping');
+          }
+        }
+      }
+
+      if (ch === ']' || ch === '}' || ch === ',') fail(`Unexpected "${ch}"`);
+      return readScalar(false);
+    };
+
+    try {
+      const value = readItem();
+      return { value, end: i };
+    } catch (err) {
+      if (err === INCOMPLETE) return INCOMPLETE;
+      throw err;
+    }
+  }
+}
+
+function countNewlines(text: string, end: number): number {
+  let count = 0;
+  for (let i = 0; i < end && i < text.length; i++) {
+    if (text[i] === '\n') count++;
+  }
+  return count;
+}
+
+function foldLines(lines: string[]): string {
+  const isMoreIndented = (line: string) => line.startsWith(' ') || line.startsWith('\t');
+  let out = '';
+  let previous: string | undefined;
+  let blank = 0;
+
+  for (const line of lines) {
+    if (line === '') {
+      blank++;
+      continue;
+    }
+    if (previous === undefined) {
+      out += '\n'.repeat(blank);
+    } else if (isMoreIndented(previous) || isMoreIndented(line)) {
+      out += '\n'.repeat(blank + 1);
+    } else {
+      out += blank > 0 ? '\n'.repeat(blank) : ' ';
+    }
+    out += line;
+    previous = line;
+    blank = 0;
+  }
+
+  return out;
+}
+
+/**
+ * Parses a single YAML document. Throws YamlParseError with a 1-based line number.
+ */
+export function parseYaml(source: string): unknown {
+  return new Parser(source).parseDocument();
+}
+
+function needsQuotes(text: string, flow: boolean): boolean {
+  if (text === '' || text !== text.trim()) return true;
+  if (/[\x00-\x1f\x7f]/.test(text)) return true;
+  if (resolvePlain(text) !== text) return true;
+  if (/^[[\]{},#&*!|>'"%@`]/.test(text) || /^[-?:](\s|$)/.test(text)) return true;
+  if (text.includes(': ') || text.includes(' #') || text.endsWith(':')) return true;
+  if (text === '---' || text === '...') return true;
+  return flow && /[,[\]{}]/.test(text);
+}
+
+/**
+ * Formats a scalar (or an empty/inline collection) for use after "key: ".
+ * Strings are quoted only when a plain scalar would read back differently.
+ * Null formats as an empty string so it renders as a bare "key:".
+ */
+export function formatYamlScalar(value: unknown, flow = false): string {
+  if (value === null || value === undefined) return flow ? 'null' : '';
+  if (typeof value === 'boolean') return String(value);
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) return '.nan';
+    if (!Number.isFinite(value)) return value > 0 ? '.inf' : '-.inf';
+    return String(value);
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => formatYamlScalar(item, true)).join(', ')}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).map(
+      ([k, v]) => `${formatYamlKey(k)}: ${formatYamlScalar(v, true)}`
+    );
+    return `{${entries.join(', ')}}`;
+  }
+  const text = String(value);
+  return needsQuotes(text, flow) ? JSON.stringify(text) : text;
+}
+
+function formatYamlKey(key: string): string {
+  return needsQuotes(key, true) || key.includes(':') ? JSON.stringify(key) : key;
+}
+
+function isNonEmptyCollection(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return isPlainObject(value) && !(value instanceof Date) && Object.keys(value).length > 0;
+}
+
+function renderBlockString(text: string, indent: number): string[] | null {
+  // Block literals can't express leading indentation on the first line or stray CRs
+  if (!text.includes('\n') || /^[ \t]/.test(text) || /[\r\x00-\x08\x0b-\x1f\x7f]/.test(text)) {
+    return null;
+  }
+  const trailing = /\n*$/.exec(text)![0].length;
+  // Nothing but line breaks would read back as an empty block
+  if (trailing === text.length) return null;
+  const chomp = trailing === 0 ? '-' : trailing === 1 ? '' : '+';
+  const body = text.slice(0, text.length - trailing);
+  const pad = ' '.repeat(indent);
+  const lines = body.split('\n').map((line) => (line === '' ? '' : pad + line));
+  for (let i = 1; i < trailing; i++) lines.push('');
+  return [`|${chomp}`, ...lines];
+}
+
+function renderBlock(value: unknown, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+
+  if (Array.isArray(value) && value.length > 0) {
+    const lines: string[] = [];
+    for (const item of value) {
+      if (isNonEmptyCollection(item)) {
+        const nested = renderBlock(item, indent + 2);
+        lines.push(`${pad}- ${nested[0].slice(indent + 2)}`, ...nested.slice(1));
+      } else {
+        lines.push(`${pad}- ${formatYamlScalar(item)}`.trimEnd());
+      }
+    }
+    return lines;
+  }
+
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    const lines: string[] = [];
+    for (const [key, item] of Object.entries(value)) {
+      const prefix = `${pad}${formatYamlKey(key)}:`;
+      if (isNonEmptyCollection(item)) {
+        lines.push(prefix, ...renderBlock(item, indent + 2));
+        continue;
+      }
+      const block = typeof item === 'string' ? renderBlockString(item, indent + 2) : null;
+      if (block) {
+        lines.push(`${prefix} ${block[0]}`, ...block.slice(1));
+        continue;
+      }
+      const scalar = formatYamlScalar(item);
+      lines.push(scalar === '' ? prefix : `${prefix} ${scalar}`);
+    }
+    return lines;
+  }
+
+  return [pad + formatYamlScalar(value)];
+}
+
+/**
+ * Serializes a value as a block-style YAML document (no "---" markers).
+ */
+export function stringifyYaml(value: unknown): string {
+  return renderBlock(value, 0).join('\n') + '\n';
+}
+
+const TOP_LEVEL_KEY =
+  /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"-][^#]*?|-[^\s#][^#]*?)\s*:(?:\s|$)/;
+
+function topLevelKey(line: string): string | undefined {
+  const match = TOP_LEVEL_KEY.exec(line);
+  if (!match) return undefined;
+  const raw = match[1];
+  if (raw.startsWith('"')) return JSON.parse(raw) as string;
+  if (raw.startsWith("'")) return raw.slice(1, -1).replace(/''/g, "'");
+  return raw;
+}
+
+/**
+ * Replaces the given top-level keys of a YAML mapping document and leaves the
+ * rest of the text, comments included, as it was. A key set to undefined is
+ * removed; a key the document doesn't have is added at the end. Comments
+ * inside a replaced value go with it.
+ */
+export function updateYamlKeys(source: string, updates: Record<string, unknown>): string {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  const pending = new Set(Object.keys(updates));
+
+  const out: string[] = [];
+  for (let i = 0; i < lines.length; ) {
+    const key = topLevelKey(lines[i]);
+    if (key === undefined || !pending.has(key)) {
+      out.push(lines[i++]);
+      continue;
+    }
+    pending.delete(key);
+
+    // The value runs over indented lines (and a sequence may sit at the key's
+    // indent), but blank lines and comments after it belong to what follows
+    let end = i + 1;
+    let last = i + 1;
+    while (end < lines.length) {
+      const line = lines[end];
+      if (line.trim() === '' || line.startsWith('#')) {
+        end++;
+        continue;
+      }
+      if (!/^(\s|- |-$)/.test(line)) break;
+      last = ++end;
+    }
+    if (updates[key] !== undefined) {
+      out.push(
+        ...stringifyYaml({ [key]: updates[key] })
+          .trimEnd()
+          .split('\n')
+      );
+    }
+    i = last;
+  }
+
+  for (const key of pending) {
+    if (updates[key] !== undefined) {
+      out.push(
+        ...stringifyYaml({ [key]: updates[key] })
+          .trimEnd()
+          .split('\n')
+      );
+    }
+  }
+  return out.join('\n') + '\n';
+}
+
+/**
+ * Parses YAML text from a file, rethrowing syntax errors with the file name and
+ * a line number relative to the whole file.
+ */
+export function parseYamlSource(text: string, source: string, lineOffset = 0): unknown {
+  try {
+    return parseYaml(text);
+  } catch (err) {
+    if (err instanceof YamlParseError) {
+      throw new YamlParseError(err.reason, err.line + lineOffset, source);
+    }
+    throw err;
+  }
+}